@@ -1,8 +1,12 @@
-module.exports = {
-  preset: "ts-jest",
+/** @type {import("jest").Config} */
+export default {
+  preset: "ts-jest/presets/default-esm",
   testEnvironment: "node",
   roots: ["<rootDir>/src", "<rootDir>/tests"],
   testMatch: ["**/__tests__/**/*.ts", "**/?(*.)+(spec|test).ts"],
+  transform: {
+    "^.+\\.ts$": ["ts-jest", { useESM: true, tsconfig: { rootDir: "." } }],
+  },
   collectCoverageFrom: ["src/**/*.ts", "!src/**/*.d.ts", "!src/cli.ts"],
   coverageDirectory: "coverage",
   coverageReporters: ["text", "lcov", "html"],
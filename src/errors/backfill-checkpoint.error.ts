@@ -0,0 +1,29 @@
+/**
+ * Raised when a backfill cannot be resumed because the defaults it applies
+ * have changed since its checkpoint was saved.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await backfillService.backfillCollection(model, schema);
+ * } catch (error) {
+ *   if (error instanceof BackfillCheckpointError) console.error(error.message);
+ *   // Cannot resume the backfill of User: its defaults changed since the checkpoint
+ * }
+ * ```
+ */
+export class BackfillCheckpointError extends Error {
+  /** Name of the model whose checkpoint does not match */
+  readonly model: string;
+
+  /**
+   * @param model - Name of the model whose checkpoint does not match
+   */
+  constructor(model: string) {
+    super(
+      `Cannot resume the backfill of ${model}: its defaults changed since the checkpoint`
+    );
+    this.name = "BackfillCheckpointError";
+    this.model = model;
+  }
+}
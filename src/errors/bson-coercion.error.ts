@@ -0,0 +1,32 @@
+/**
+ * Raised when a value cannot be converted to the BSON type of its field, for
+ * example a `DateTime` default that is not a valid date.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   coerceBsonValue("yesterday", "date");
+ * } catch (error) {
+ *   if (error instanceof BsonCoercionError) console.error(error.message);
+ *   // Cannot convert "yesterday" to date: invalid date
+ * }
+ * ```
+ */
+export class BsonCoercionError extends Error {
+  /** The value that could not be converted */
+  readonly value: unknown;
+  /** The target BSON type */
+  readonly bsonType: string;
+
+  /**
+   * @param value - The value that could not be converted
+   * @param bsonType - The target BSON type
+   * @param reason - Why the conversion failed
+   */
+  constructor(value: unknown, bsonType: string, reason: string) {
+    super(`Cannot convert ${JSON.stringify(value)} to ${bsonType}: ${reason}`);
+    this.name = "BsonCoercionError";
+    this.value = value;
+    this.bsonType = bsonType;
+  }
+}
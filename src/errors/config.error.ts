@@ -0,0 +1,29 @@
+/**
+ * Raised when the project config file cannot be loaded or is invalid.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await loadConfig("/project/pmm.config.json");
+ * } catch (error) {
+ *   if (error instanceof ConfigError) error.issues.forEach((issue) => console.error(issue));
+ * }
+ * ```
+ */
+export class ConfigError extends Error {
+  /** Path of the config file */
+  readonly file: string;
+  /** One message per problem found */
+  readonly issues: string[];
+
+  /**
+   * @param file - Path of the config file
+   * @param issues - One message per problem found
+   */
+  constructor(file: string, issues: string[]) {
+    super(`Invalid config ${file}: ${issues.join("; ")}`);
+    this.name = "ConfigError";
+    this.file = file;
+    this.issues = issues;
+  }
+}
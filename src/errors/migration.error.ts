@@ -0,0 +1,39 @@
+/**
+ * Raised when migrations cannot be created, loaded, applied or reverted.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await migrationService.up(schema);
+ * } catch (error) {
+ *   if (error instanceof MigrationError) console.error(error.message);
+ * }
+ * ```
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Raised when another process holds the migration lock in `_pmm_migrations`.
+ */
+export class MigrationLockError extends MigrationError {
+  /** Identifier of the process holding the lock */
+  readonly owner: string;
+  /** When the current lock expires and can be taken over */
+  readonly expiresAt: Date;
+
+  /**
+   * @param owner - Identifier of the process holding the lock
+   * @param expiresAt - When the lock expires
+   */
+  constructor(owner: string, expiresAt: Date) {
+    super(`Migrations are locked by ${owner} until ${expiresAt.toISOString()}`);
+    this.name = "MigrationLockError";
+    this.owner = owner;
+    this.expiresAt = expiresAt;
+  }
+}
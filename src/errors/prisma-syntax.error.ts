@@ -0,0 +1,43 @@
+import { SourcePosition } from "../types";
+
+/**
+ * Raised when a Prisma schema cannot be tokenized or parsed.
+ *
+ * The message is prefixed with `file:line:column` so editors and terminals can
+ * link straight to the offending location.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   new PrismaSchemaParser(content, "prisma/user.prisma").parse();
+ * } catch (error) {
+ *   if (error instanceof PrismaSyntaxError) {
+ *     console.error(error.message); // prisma/user.prisma:4:12 - Expected "}" but found end of file
+ *   }
+ * }
+ * ```
+ */
+export class PrismaSyntaxError extends Error {
+  /** Path of the schema file the error was found in */
+  readonly file: string;
+  /** 1-based line of the error */
+  readonly line: number;
+  /** 1-based column of the error */
+  readonly column: number;
+  /** The error description without the location prefix */
+  readonly reason: string;
+
+  /**
+   * @param reason - Human readable description of the problem
+   * @param file - Path of the schema file
+   * @param position - Location of the offending token
+   */
+  constructor(reason: string, file: string, position: SourcePosition) {
+    super(`${file}:${position.line}:${position.column} - ${reason}`);
+    this.name = "PrismaSyntaxError";
+    this.file = file;
+    this.line = position.line;
+    this.column = position.column;
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Raised when the Prisma schema files cannot be found or read. Syntax errors
+ * inside the files are reported as {@link PrismaSyntaxError} instead.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   this.readSchemas("prisma");
+ * } catch (error) {
+ *   if (error instanceof SchemaLoadError) console.error(error.message);
+ *   // No .prisma files found in prisma
+ * }
+ * ```
+ */
+export class SchemaLoadError extends Error {
+  /** The schema directory being read */
+  readonly schemaPath: string;
+  /** The underlying file system error, if any */
+  readonly reason?: unknown;
+
+  /**
+   * @param message - What went wrong
+   * @param schemaPath - The schema directory being read
+   * @param reason - The underlying file system error, if any
+   */
+  constructor(message: string, schemaPath: string, reason?: unknown) {
+    super(message);
+    this.name = "SchemaLoadError";
+    this.schemaPath = schemaPath;
+    this.reason = reason;
+  }
+}
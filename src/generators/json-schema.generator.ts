@@ -1,17 +1,23 @@
+import { kebabCase } from "change-case-all";
 import {
   PrismaSchema,
   PrismaModel,
   PrismaField,
   JsonSchema,
   JsonSchemaProperty,
+  GeneratedFile,
+  SchemaGenerator,
 } from "../types";
+import { isFunctionDefault } from "../utils/defaults";
+import { resolveBsonType } from "../utils/bson";
+import { getEnumValueKey, toEnumDefault } from "../utils/collection";
 
 /**
  * Generates JSON Schema definitions from Prisma models for validation and documentation purposes.
  *
  * This generator converts Prisma model definitions into JSON Schema format, which can be used
  * for client-side validation, API documentation, or form generation. It handles type mapping,
- * required fields, default values, arrays, enums, and relationships.
+ * required fields, default values, arrays, enums, relationships and embedded composite types.
  *
  * @example
  * ```typescript
@@ -32,7 +38,7 @@ import {
  * // }
  * ```
  */
-export class JsonSchemaGenerator {
+export class JsonSchemaGenerator implements SchemaGenerator {
   /** The parsed Prisma schema containing models and enums */
   private schema: PrismaSchema;
 
@@ -82,13 +88,43 @@ export class JsonSchemaGenerator {
    * ```
    */
   generateSchema(model: PrismaModel): JsonSchema {
+    return this.generateObjectSchema(model.fields, []);
+  }
+
+  /**
+   * Generates one JSON Schema file per model, named after the lowercased
+   * model name in kebab case.
+   *
+   * @param models - Models to generate, defaults to every model of the schema
+   * @returns The files, e.g. `userprofile.json` for `UserProfile`
+   */
+  generateFiles(models: PrismaModel[] = this.schema.models): GeneratedFile[] {
+    return models.map((model) => ({
+      path: `${kebabCase(model.name.toLowerCase())}.json`,
+      content: JSON.stringify(this.generateSchema(model), null, 2),
+    }));
+  }
+
+  /**
+   * Builds the `properties`/`required` pair for a list of fields. Used for models
+   * and, recursively, for the fields of embedded composite types.
+   *
+   * @private
+   * @param fields - The fields of the model or composite type
+   * @param typeStack - Composite types currently being expanded, to stop on recursive types
+   * @returns A JSON Schema object for the fields
+   */
+  private generateObjectSchema(
+    fields: PrismaField[],
+    typeStack: string[]
+  ): JsonSchema {
     const properties: { [key: string]: JsonSchemaProperty } = {};
     const required: string[] = [];
 
-    for (const field of model.fields) {
+    for (const field of fields) {
       if (field.isId) continue; // Skip ID fields for MongoDB
 
-      const property = this.convertFieldToJsonSchema(field);
+      const property = this.convertFieldToJsonSchema(field, typeStack);
       properties[field.name] = property;
 
       // A field is required if:
@@ -117,12 +153,15 @@ export class JsonSchemaGenerator {
    * This method handles the conversion of individual fields, including:
    * - Type mapping from Prisma to JSON Schema types
    * - Array type conversion to JSON Schema array format
-   * - Default value assignment
+   * - Default value assignment (function defaults go to `x-defaultFunction`),
+   *   with the `x-bsonType` the default is stored as and the `x-mapName`
+   *   database key, which validators ignore as vendor extensions
    * - DateTime format specification
    * - Enum value constraints
    *
    * @private
    * @param field - The Prisma field to convert
+   * @param typeStack - Composite types currently being expanded
    * @returns A JSON Schema property object
    *
    * @example
@@ -133,36 +172,64 @@ export class JsonSchemaGenerator {
    *
    * // For a field: { name: "tags", type: "String", isArray: true }
    * // Returns: { type: "array", items: { type: "string" } }
+   *
+   * // For a field: { name: "address", type: "Address" } where Address is a composite type
+   * // Returns: { type: "object", properties: { city: { type: "string" } }, required: ["city"] }
    * ```
    */
-  private convertFieldToJsonSchema(field: PrismaField): JsonSchemaProperty {
+  private convertFieldToJsonSchema(
+    field: PrismaField,
+    typeStack: string[]
+  ): JsonSchemaProperty {
     const baseType = this.mapPrismaTypeToJsonSchema(field.type);
-    const property: JsonSchemaProperty = {
+    let property: JsonSchemaProperty = {
       type: baseType,
     };
 
+    // Embedded documents get their own nested properties
+    const compositeType = this.schema.types.find((t) => t.name === field.type);
+    if (compositeType && !typeStack.includes(compositeType.name)) {
+      property = this.generateObjectSchema(compositeType.fields, [
+        ...typeStack,
+        compositeType.name,
+      ]);
+    }
+
     if (field.isArray) {
-      property.type = "array";
-      property.items = {
-        type: this.mapPrismaTypeToJsonSchema(field.type),
+      property = {
+        type: "array",
+        items: property,
       };
     }
 
-    if (field.defaultValue !== undefined) {
+    const enumDef = this.schema.enums.find((e) => e.name === field.type);
+    if (isFunctionDefault(field.defaultValue)) {
+      property["x-defaultFunction"] = field.defaultValue;
+    } else if (enumDef && field.defaultValue !== undefined) {
+      // Enum defaults name a value, documents hold its @map name
+      property.default = toEnumDefault(enumDef, field.defaultValue);
+    } else if (field.defaultValue !== undefined) {
       property.default = field.defaultValue;
     }
 
+    if (field.mapName) {
+      property["x-mapName"] = field.mapName;
+    }
+
+    // Backfill writes defaults with the BSON type Prisma reads them as
+    const bsonType = resolveBsonType(field);
+    if (field.defaultValue !== undefined && bsonType) {
+      property["x-bsonType"] = bsonType;
+    }
+
     // Add format for specific types
     if (field.type === "DateTime") {
       property.format = "date-time";
     }
 
-    // Add enum values
-    if (this.isEnum(field.type)) {
-      const enumDef = this.schema.enums.find((e) => e.name === field.type);
-      if (enumDef) {
-        property.enum = enumDef.values;
-      }
+    // Add enum values as they are stored
+    if (enumDef) {
+      property.enum = enumDef.values.map(getEnumValueKey);
     }
 
     return property;
@@ -188,6 +255,7 @@ export class JsonSchemaGenerator {
    * mapPrismaTypeToJsonSchema("Json")     // returns "object"
    * mapPrismaTypeToJsonSchema("UserStatus") // returns "string" (if UserStatus is enum)
    * mapPrismaTypeToJsonSchema("User")     // returns "object" (if User is model)
+   * mapPrismaTypeToJsonSchema("Address")  // returns "object" (if Address is a composite type)
    * mapPrismaTypeToJsonSchema("Unknown")  // returns "string" (fallback)
    * ```
    */
@@ -212,8 +280,8 @@ export class JsonSchemaGenerator {
       return "string";
     }
 
-    // If it's a model (relation), it's an object
-    if (this.isModel(prismaType)) {
+    // If it's a model (relation) or an embedded composite type, it's an object
+    if (this.isModel(prismaType) || this.isCompositeType(prismaType)) {
       return "object";
     }
 
@@ -242,4 +310,15 @@ export class JsonSchemaGenerator {
   private isModel(typeName: string): boolean {
     return this.schema.models.some((m) => m.name === typeName);
   }
+
+  /**
+   * Checks if a given type name corresponds to a composite type in the schema.
+   *
+   * @private
+   * @param typeName - The type name to check
+   * @returns True if the type is a composite type, false otherwise
+   */
+  private isCompositeType(typeName: string): boolean {
+    return this.schema.types.some((t) => t.name === typeName);
+  }
 }
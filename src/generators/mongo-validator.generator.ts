@@ -0,0 +1,168 @@
+import {
+  BsonSchemaProperty,
+  MongoValidator,
+  PrismaField,
+  PrismaModel,
+  PrismaSchema,
+} from "../types";
+import { resolveBsonType } from "../utils/bson";
+import { getEnumValueKey, getFieldKey } from "../utils/collection";
+
+/**
+ * Generates MongoDB `$jsonSchema` collection validators from Prisma models.
+ *
+ * Unlike {@link JsonSchemaGenerator}, which targets JSON, this generator uses
+ * MongoDB `bsonType`s so stored values are checked with their real BSON types
+ * (`objectId`, `date`, `int`, `long`, `double`, `decimal`, `bool`, `binData`,
+ * `object`, `array`), including `@db.*` native types. Relation fields are skipped because they are not stored,
+ * and optional fields also accept `null`.
+ *
+ * @example
+ * ```typescript
+ * const generator = new MongoValidatorGenerator(prismaSchema);
+ * const validator = generator.generateValidator(userModel);
+ *
+ * // {
+ * //   $jsonSchema: {
+ * //     bsonType: "object",
+ * //     properties: {
+ * //       _id: { bsonType: "objectId" },
+ * //       email: { bsonType: "string" },
+ * //       createdAt: { bsonType: "date" }
+ * //     },
+ * //     required: ["_id", "email"]
+ * //   }
+ * // }
+ * ```
+ */
+export class MongoValidatorGenerator {
+  /** The parsed Prisma schema containing models, enums and composite types */
+  private schema: PrismaSchema;
+
+  /**
+   * Creates a new validator generator instance.
+   *
+   * @param schema - The parsed Prisma schema
+   */
+  constructor(schema: PrismaSchema) {
+    this.schema = schema;
+  }
+
+  /**
+   * Generates the `$jsonSchema` validator for a model.
+   *
+   * A field is required when it is not optional, has no default value and is
+   * not a list, matching the rule used by {@link JsonSchemaGenerator}. The ID
+   * field is stored as `_id` and is always required.
+   *
+   * @param model - The Prisma model
+   * @returns The validator, ready for `collMod` or `createCollection`
+   */
+  generateValidator(model: PrismaModel): MongoValidator {
+    return { $jsonSchema: this.generateObject(model.fields, []) };
+  }
+
+  /**
+   * Builds an `object` node for a list of fields.
+   *
+   * @private
+   * @param fields - Fields of the model or composite type
+   * @param typeStack - Composite types currently being expanded, to stop on recursive types
+   * @returns The object schema node
+   */
+  private generateObject(
+    fields: PrismaField[],
+    typeStack: string[]
+  ): BsonSchemaProperty {
+    const properties: { [key: string]: BsonSchemaProperty } = {};
+    const required: string[] = [];
+
+    for (const field of fields) {
+      // Relation fields only exist in the Prisma client, not in the documents
+      if (this.isModel(field.type)) continue;
+
+      const key = getFieldKey(field);
+      properties[key] = this.convertField(field, typeStack);
+
+      if (
+        field.isId ||
+        (!field.isOptional &&
+          field.defaultValue === undefined &&
+          !field.isArray)
+      ) {
+        required.push(key);
+      }
+    }
+
+    const node: BsonSchemaProperty = { bsonType: "object", properties };
+    if (required.length > 0) node.required = required;
+    return node;
+  }
+
+  /**
+   * Converts a field to a schema node, wrapping lists in `array` and allowing
+   * `null` for optional fields.
+   *
+   * @private
+   * @param field - The Prisma field
+   * @param typeStack - Composite types currently being expanded
+   * @returns The field schema node
+   *
+   * @example
+   * ```typescript
+   * // status Status? where Status is enum { ACTIVE INACTIVE }
+   * // → { bsonType: ["string", "null"], enum: ["ACTIVE", "INACTIVE", null] }
+   *
+   * // tags String[]
+   * // → { bsonType: "array", items: { bsonType: "string" } }
+   * ```
+   */
+  private convertField(
+    field: PrismaField,
+    typeStack: string[]
+  ): BsonSchemaProperty {
+    let node: BsonSchemaProperty;
+
+    const compositeType = this.schema.types.find((t) => t.name === field.type);
+    const enumDef = this.schema.enums.find((e) => e.name === field.type);
+
+    if (compositeType) {
+      node = typeStack.includes(compositeType.name)
+        ? { bsonType: "object" }
+        : this.generateObject(compositeType.fields, [
+            ...typeStack,
+            compositeType.name,
+          ]);
+    } else if (enumDef) {
+      node = { bsonType: "string", enum: enumDef.values.map(getEnumValueKey) };
+    } else {
+      const bsonType = resolveBsonType(field);
+      node = bsonType ? { bsonType } : {};
+    }
+
+    if (field.isArray) {
+      node = { bsonType: "array", items: node };
+    }
+
+    if (field.isOptional) {
+      if (node.bsonType) {
+        node.bsonType = [
+          ...(Array.isArray(node.bsonType) ? node.bsonType : [node.bsonType]),
+          "null",
+        ];
+      }
+      if (node.enum) node.enum = [...node.enum, null];
+    }
+
+    return node;
+  }
+
+  /**
+   * @private
+   * @param typeName - The type name to check
+   * @returns True if the type is a model, i.e. the field is a relation
+   */
+  private isModel(typeName: string): boolean {
+    return this.schema.models.some((m) => m.name === typeName);
+  }
+}
@@ -0,0 +1,152 @@
+import { PrismaField, PrismaSchema } from "../types";
+
+/**
+ * Writes a parsed or inferred schema back out as Prisma schema source, the
+ * reverse of {@link PrismaSchemaParser}.
+ *
+ * Fields are written with their `attributes` as they are, so a model read by
+ * the parser keeps its attributes; `@@map` comes from the model's `mapName`.
+ * Columns are aligned the way `prisma format` does. The output starts with a
+ * MongoDB `datasource` and a `prisma-client-js` generator block.
+ *
+ * @example
+ * ```typescript
+ * const generator = new PrismaSchemaGenerator(schema);
+ * const source = generator.generate({ "User.age": ["Conflicting types: int (98), string (2)"] });
+ *
+ * // model User {
+ * //   id  String @id @default(auto()) @map("_id") @db.ObjectId
+ * //   // Conflicting types: int (98), string (2)
+ * //   age Int?
+ * //
+ * //   @@map("users")
+ * // }
+ * ```
+ */
+export class PrismaSchemaGenerator {
+  /** The schema to write */
+  private schema: PrismaSchema;
+
+  /**
+   * Creates a new Prisma schema generator instance.
+   *
+   * @param schema - The schema to write
+   */
+  constructor(schema: PrismaSchema) {
+    this.schema = schema;
+  }
+
+  /**
+   * Generates the schema source.
+   *
+   * @param comments - Comment lines to write above a block or field, keyed by `Name` or `Name.field`
+   * @returns The `.prisma` file content
+   */
+  generate(comments: { [path: string]: string[] } = {}): string {
+    const blocks = [
+      [
+        "generator client {",
+        '  provider = "prisma-client-js"',
+        "}",
+        "",
+        "datasource db {",
+        '  provider = "mongodb"',
+        '  url      = env("DATABASE_URL")',
+        "}",
+      ].join("\n"),
+    ];
+
+    for (const model of this.schema.models) {
+      const lines = this.generateFields(model.name, model.fields, comments);
+      if (model.mapName) {
+        lines.push("", `  @@map(${JSON.stringify(model.mapName)})`);
+      }
+      blocks.push(this.generateBlock("model", model.name, lines, comments));
+    }
+
+    for (const type of this.schema.types) {
+      const lines = this.generateFields(type.name, type.fields, comments);
+      blocks.push(this.generateBlock("type", type.name, lines, comments));
+    }
+
+    for (const prismaEnum of this.schema.enums) {
+      const lines = prismaEnum.values.map((value) =>
+        value.mapName
+          ? `  ${value.name} @map(${JSON.stringify(value.mapName)})`
+          : `  ${value.name}`
+      );
+      blocks.push(this.generateBlock("enum", prismaEnum.name, lines, comments));
+    }
+
+    return `${blocks.join("\n\n")}\n`;
+  }
+
+  /**
+   * Wraps the body lines of a block, with its comments above it.
+   *
+   * @private
+   * @param keyword - `model`, `type` or `enum`
+   * @param name - The block name
+   * @param lines - The indented body lines
+   * @param comments - Comments by path
+   * @returns The block source
+   */
+  private generateBlock(
+    keyword: string,
+    name: string,
+    lines: string[],
+    comments: { [path: string]: string[] }
+  ): string {
+    return [
+      ...(comments[name] ?? []).map((comment) => `// ${comment}`),
+      `${keyword} ${name} {`,
+      ...lines,
+      "}",
+    ].join("\n");
+  }
+
+  /**
+   * Generates aligned field lines, each preceded by its comments.
+   *
+   * @private
+   * @param blockName - The model or composite type name
+   * @param fields - Its fields
+   * @param comments - Comments by path
+   * @returns The indented lines
+   *
+   * @example
+   * ```typescript
+   * // id    String  @id @default(auto()) @map("_id") @db.ObjectId
+   * // email String?
+   * // tags  String[]
+   * ```
+   */
+  private generateFields(
+    blockName: string,
+    fields: PrismaField[],
+    comments: { [path: string]: string[] }
+  ): string[] {
+    const types = fields.map((field) => this.formatType(field));
+    const nameWidth = Math.max(0, ...fields.map((field) => field.name.length));
+    const typeWidth = Math.max(0, ...types.map((type) => type.length));
+
+    return fields.flatMap((field, i) => [
+      ...(comments[`${blockName}.${field.name}`] ?? []).map(
+        (comment) => `  // ${comment}`
+      ),
+      field.attributes.length > 0
+        ? `  ${field.name.padEnd(nameWidth)} ${types[i].padEnd(typeWidth)} ${field.attributes.join(" ")}`
+        : `  ${field.name.padEnd(nameWidth)} ${types[i]}`,
+    ]);
+  }
+
+  /**
+   * @private
+   * @param field - The field
+   * @returns The type with its list or optional modifier, e.g. `String[]` or `Int?`
+   */
+  private formatType(field: PrismaField): string {
+    if (field.isArray) return `${field.type}[]`;
+    return field.isOptional ? `${field.type}?` : field.type;
+  }
+}
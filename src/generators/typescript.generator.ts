@@ -0,0 +1,165 @@
+import {
+  GeneratedFile,
+  PrismaField,
+  PrismaModel,
+  PrismaSchema,
+  SchemaGenerator,
+} from "../types";
+import { formatDefault, isFunctionDefault } from "../utils/defaults";
+
+/** TypeScript types of the Prisma scalar types */
+const SCALAR_TYPES: { [type: string]: string } = {
+  String: "string",
+  Int: "number",
+  Float: "number",
+  Decimal: "number",
+  BigInt: "bigint",
+  Boolean: "boolean",
+  DateTime: "Date",
+  Bytes: "Uint8Array",
+  Json: "JsonValue",
+};
+
+/**
+ * Generates TypeScript declarations of each model as the Prisma client sees it.
+ *
+ * Names are the client's: properties are field names and enums become unions
+ * of their value names, not their `@map` names. Composite types and models
+ * become interfaces, all in a single `types.ts`. Optional fields are optional
+ * properties that may also be `null`, lists are arrays and defaults are noted
+ * in a `@default` doc comment. Fields with a generated default other than
+ * `now()`, such as `@default(auto())`, are optional properties, matching the
+ * Zod schemas. Relation fields are left out because they are not stored;
+ * their scalar foreign key fields are kept.
+ *
+ * @example
+ * ```typescript
+ * const generator = new TypeScriptGenerator(schema);
+ * const [file] = generator.generateFiles();
+ *
+ * // file.path === "types.ts"
+ * // export type Role = "USER" | "ADMIN";
+ * //
+ * // export interface User {
+ * //   id?: string;
+ * //   role: Role;
+ * //   nickname?: string | null;
+ * //   tags: string[];
+ * // }
+ * ```
+ */
+export class TypeScriptGenerator implements SchemaGenerator {
+  /** The parsed Prisma schema containing models, enums and composite types */
+  private schema: PrismaSchema;
+
+  /**
+   * Creates a new TypeScript generator instance.
+   *
+   * @param schema - The parsed Prisma schema
+   */
+  constructor(schema: PrismaSchema) {
+    this.schema = schema;
+  }
+
+  /**
+   * Generates the declarations of the given models, every enum and every
+   * composite type.
+   *
+   * @param models - Models to generate, defaults to every model of the schema
+   * @returns A single `types.ts` file
+   */
+  generateFiles(models: PrismaModel[] = this.schema.models): GeneratedFile[] {
+    const blocks = [
+      "// Generated by pmm generate from the Prisma schema. Do not edit.",
+    ];
+
+    const fields = [...models, ...this.schema.types].flatMap((m) => m.fields);
+    if (fields.some((field) => field.type === "Json" && !field.relation)) {
+      blocks.push(
+        [
+          "export type JsonValue =",
+          "  | string",
+          "  | number",
+          "  | boolean",
+          "  | null",
+          "  | JsonValue[]",
+          "  | { [key: string]: JsonValue };",
+        ].join("\n")
+      );
+    }
+
+    for (const prismaEnum of this.schema.enums) {
+      const values = prismaEnum.values.map((value) =>
+        JSON.stringify(value.name)
+      );
+      blocks.push(`export type ${prismaEnum.name} = ${values.join(" | ")};`);
+    }
+
+    for (const type of this.schema.types) {
+      blocks.push(this.generateInterface(type.name, type.fields));
+    }
+
+    for (const model of models) {
+      blocks.push(this.generateInterface(model.name, model.fields));
+    }
+
+    return [{ path: "types.ts", content: `${blocks.join("\n\n")}\n` }];
+  }
+
+  /**
+   * @private
+   * @param name - Interface name
+   * @param fields - Fields of the model or composite type
+   * @returns The interface declaration
+   */
+  private generateInterface(name: string, fields: PrismaField[]): string {
+    const lines = [`export interface ${name} {`];
+    for (const field of fields) {
+      if (field.relation) continue;
+
+      if (field.defaultValue !== undefined) {
+        lines.push(`  /** @default ${formatDefault(field.defaultValue)} */`);
+      }
+      let type = this.mapType(field.type);
+      if (field.isArray) type = `${type}[]`;
+      if (field.isOptional) {
+        lines.push(`  ${field.name}?: ${type} | null;`);
+      } else if (this.isGenerated(field)) {
+        lines.push(`  ${field.name}?: ${type};`);
+      } else {
+        lines.push(`  ${field.name}: ${type};`);
+      }
+    }
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  /**
+   * @private
+   * @param field - The field
+   * @returns True if the value is generated elsewhere, e.g. `@default(auto())`
+   */
+  private isGenerated(field: PrismaField): boolean {
+    return (
+      isFunctionDefault(field.defaultValue) && field.defaultValue.name !== "now"
+    );
+  }
+
+  /**
+   * Maps a Prisma field type to a TypeScript type.
+   *
+   * @private
+   * @param type - Scalar, enum or composite type name
+   * @returns The TypeScript type, `unknown` for types not in the schema
+   */
+  private mapType(type: string): string {
+    if (SCALAR_TYPES[type]) return SCALAR_TYPES[type];
+    if (this.schema.enums.some((prismaEnum) => prismaEnum.name === type)) {
+      return type;
+    }
+    if (this.schema.types.some((composite) => composite.name === type)) {
+      return type;
+    }
+    return "unknown";
+  }
+}
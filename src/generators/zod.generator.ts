@@ -0,0 +1,252 @@
+import {
+  GeneratedFile,
+  PrismaCompositeType,
+  PrismaField,
+  PrismaModel,
+  PrismaSchema,
+  SchemaGenerator,
+} from "../types";
+import { isFunctionDefault } from "../utils/defaults";
+
+/** Zod schemas of the Prisma scalar types */
+const SCALAR_SCHEMAS: { [type: string]: string } = {
+  String: "z.string()",
+  Int: "z.number().int()",
+  Float: "z.number()",
+  Decimal: "z.number()",
+  BigInt: "z.bigint()",
+  Boolean: "z.boolean()",
+  DateTime: "z.coerce.date()",
+  Bytes: "z.instanceof(Uint8Array)",
+  Json: "JsonValueSchema",
+};
+
+/**
+ * Generates Zod schemas that validate the documents stored for each model.
+ *
+ * Every enum, composite type and model gets a `<Name>Schema` constant and a
+ * `<Name>` type inferred from it, all in a single `zod.ts`. Names are the
+ * Prisma client's: keys are field names, and enums and their defaults use
+ * value names, not their `@map` names. Optional fields accept `null` and
+ * `undefined`, lists are arrays and literal defaults become
+ * `.default(...)`; `now()` defaults to the current date and other function
+ * defaults such as `auto()` make the field optional, since the value is
+ * generated elsewhere. Composite types are declared before the types that
+ * embed them; a reference that cannot be declared first is wrapped in
+ * `z.lazy()`. Relation fields are left out because they are not stored.
+ *
+ * @example
+ * ```typescript
+ * const generator = new ZodGenerator(schema);
+ * const [file] = generator.generateFiles();
+ *
+ * // file.path === "zod.ts"
+ * // export const RoleSchema = z.enum(["USER", "ADMIN"]);
+ * // export type Role = z.infer<typeof RoleSchema>;
+ * //
+ * // export const UserSchema = z.object({
+ * //   id: z.string().optional(),
+ * //   role: RoleSchema.default("USER"),
+ * //   nickname: z.string().nullish(),
+ * //   tags: z.array(z.string()),
+ * // });
+ * // export type User = z.infer<typeof UserSchema>;
+ * ```
+ */
+export class ZodGenerator implements SchemaGenerator {
+  /** The parsed Prisma schema containing models, enums and composite types */
+  private schema: PrismaSchema;
+
+  /**
+   * Creates a new Zod generator instance.
+   *
+   * @param schema - The parsed Prisma schema
+   */
+  constructor(schema: PrismaSchema) {
+    this.schema = schema;
+  }
+
+  /**
+   * Generates the schemas of the given models, every enum and every
+   * composite type.
+   *
+   * @param models - Models to generate, defaults to every model of the schema
+   * @returns A single `zod.ts` file
+   */
+  generateFiles(models: PrismaModel[] = this.schema.models): GeneratedFile[] {
+    const blocks = [
+      [
+        "// Generated by pmm generate from the Prisma schema. Do not edit.",
+        'import { z } from "zod";',
+      ].join("\n"),
+    ];
+
+    const fields = [...models, ...this.schema.types].flatMap((m) => m.fields);
+    if (fields.some((field) => field.type === "Json" && !field.relation)) {
+      blocks.push(
+        [
+          "export type JsonValue =",
+          "  | string",
+          "  | number",
+          "  | boolean",
+          "  | null",
+          "  | JsonValue[]",
+          "  | { [key: string]: JsonValue };",
+          "export const JsonValueSchema: z.ZodType<JsonValue> = z.lazy(() =>",
+          "  z.union([",
+          "    z.string(),",
+          "    z.number(),",
+          "    z.boolean(),",
+          "    z.null(),",
+          "    z.array(JsonValueSchema),",
+          "    z.record(z.string(), JsonValueSchema),",
+          "  ])",
+          ");",
+        ].join("\n")
+      );
+    }
+
+    for (const prismaEnum of this.schema.enums) {
+      const values = prismaEnum.values.map((value) =>
+        JSON.stringify(value.name)
+      );
+      blocks.push(
+        [
+          `export const ${prismaEnum.name}Schema = z.enum([${values.join(", ")}]);`,
+          `export type ${prismaEnum.name} = z.infer<typeof ${prismaEnum.name}Schema>;`,
+        ].join("\n")
+      );
+    }
+
+    const declared = new Set<string>();
+    for (const type of this.orderTypes()) {
+      blocks.push(this.generateObject(type.name, type.fields, declared));
+      declared.add(type.name);
+    }
+
+    for (const model of models) {
+      blocks.push(this.generateObject(model.name, model.fields, declared));
+    }
+
+    return [{ path: "zod.ts", content: `${blocks.join("\n\n")}\n` }];
+  }
+
+  /**
+   * Orders the composite types so that embedded types come before the types
+   * embedding them, keeping the schema order otherwise.
+   *
+   * @private
+   * @returns The composite types in declaration order
+   */
+  private orderTypes(): PrismaCompositeType[] {
+    const ordered: PrismaCompositeType[] = [];
+    const visited = new Set<string>();
+
+    const visit = (type: PrismaCompositeType) => {
+      if (visited.has(type.name)) return;
+      visited.add(type.name);
+      for (const field of type.fields) {
+        const embedded = this.schema.types.find((t) => t.name === field.type);
+        if (embedded) visit(embedded);
+      }
+      ordered.push(type);
+    };
+
+    this.schema.types.forEach(visit);
+    return ordered;
+  }
+
+  /**
+   * @private
+   * @param name - Model or composite type name
+   * @param fields - Its fields
+   * @param declared - Composite types whose schema is already declared
+   * @returns The schema constant and inferred type
+   */
+  private generateObject(
+    name: string,
+    fields: PrismaField[],
+    declared: Set<string>
+  ): string {
+    let lazy = false;
+    const lines: string[] = [];
+    for (const field of fields) {
+      if (field.relation) continue;
+
+      let schema = this.mapType(field.type);
+      const isType = this.schema.types.some((t) => t.name === field.type);
+      if (isType && !declared.has(field.type)) {
+        schema = `z.lazy(() => ${schema})`;
+        lazy = true;
+      }
+      lines.push(`  ${field.name}: ${this.applyModifiers(field, schema)},`);
+    }
+
+    // TypeScript cannot infer the type of a schema that refers to itself
+    const annotation = lazy ? ": z.ZodTypeAny" : "";
+    return [
+      `export const ${name}Schema${annotation} = z.object({`,
+      ...lines,
+      "});",
+      `export type ${name} = z.infer<typeof ${name}Schema>;`,
+    ].join("\n");
+  }
+
+  /**
+   * Adds the list, optionality and default modifiers of a field.
+   *
+   * @private
+   * @param field - The field
+   * @param schema - Zod schema of the field type
+   * @returns The field schema
+   */
+  private applyModifiers(field: PrismaField, schema: string): string {
+    if (field.isArray) schema = `z.array(${schema})`;
+    if (field.isOptional) schema = `${schema}.nullish()`;
+
+    const value = field.defaultValue;
+    if (value === undefined) return schema;
+    if (isFunctionDefault(value)) {
+      if (value.name === "now") return `${schema}.default(() => new Date())`;
+      return field.isOptional ? schema : `${schema}.optional()`;
+    }
+    return `${schema}.default(${this.formatLiteral(field, value)})`;
+  }
+
+  /**
+   * Writes a literal default as a TypeScript expression of the field type.
+   *
+   * @private
+   * @param field - The field
+   * @param value - The literal default
+   * @returns The expression, e.g. `new Date("2024-01-01T00:00:00Z")`
+   */
+  private formatLiteral(field: PrismaField, value: unknown): string {
+    if (field.isArray && Array.isArray(value)) {
+      const items = value.map((item) => this.formatLiteral(field, item));
+      return `[${items.join(", ")}]`;
+    }
+    if (field.type === "DateTime") return `new Date(${JSON.stringify(value)})`;
+    if (field.type === "BigInt")
+      return `BigInt(${JSON.stringify(String(value))})`;
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Maps a Prisma field type to a Zod schema.
+   *
+   * @private
+   * @param type - Scalar, enum or composite type name
+   * @returns The Zod schema, `z.unknown()` for types not in the schema
+   */
+  private mapType(type: string): string {
+    if (SCALAR_SCHEMAS[type]) return SCALAR_SCHEMAS[type];
+    if (this.schema.enums.some((prismaEnum) => prismaEnum.name === type)) {
+      return `${type}Schema`;
+    }
+    if (this.schema.types.some((composite) => composite.name === type)) {
+      return `${type}Schema`;
+    }
+    return "z.unknown()";
+  }
+}
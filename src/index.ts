@@ -2,3 +2,31 @@ export * from "./types";
 export { PrismaSchemaParser } from "./parsers/prisma.parser";
 export { JsonSchemaGenerator } from "./generators/json-schema.generator";
 export { MongoBackfillService } from "./services/backfill.service";
+export { PrismaSyntaxError } from "./errors/prisma-syntax.error";
+export { BsonCoercionError } from "./errors/bson-coercion.error";
+export { BackfillCheckpointError } from "./errors/backfill-checkpoint.error";
+export { ConfigError } from "./errors/config.error";
+export { MigrationService } from "./services/migration.service";
+export { MigrationError, MigrationLockError } from "./errors/migration.error";
+export { SchemaDiffService } from "./services/schema-diff.service";
+export { MongoValidatorGenerator } from "./generators/mongo-validator.generator";
+export { PrismaSchemaGenerator } from "./generators/prisma-schema.generator";
+export { TypeScriptGenerator } from "./generators/typescript.generator";
+export { ZodGenerator } from "./generators/zod.generator";
+export { ValidatorService } from "./services/validator.service";
+export { IndexService } from "./services/index.service";
+export { TypeConversionService } from "./services/type-conversion.service";
+export { AuditService } from "./services/audit.service";
+export { FieldRenameService } from "./services/field-rename.service";
+export { EnumMigrationService } from "./services/enum-migration.service";
+export { RollbackService } from "./services/rollback.service";
+export { RelationService } from "./services/relation.service";
+export { IntrospectionService } from "./services/introspection.service";
+export { DriftService } from "./services/drift.service";
+export { PruneService } from "./services/prune.service";
+export {
+  coerceBsonValue,
+  coerceFieldValue,
+  resolveBsonType,
+} from "./utils/bson";
+export { findConfigFile, loadConfig } from "./utils/config";
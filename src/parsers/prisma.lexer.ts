@@ -0,0 +1,336 @@
+import { PrismaSyntaxError } from "../errors/prisma-syntax.error";
+import { SourcePosition } from "../types";
+
+export type TokenType =
+  | "identifier"
+  | "string"
+  | "number"
+  | "docComment"
+  | "newline"
+  | "{"
+  | "}"
+  | "("
+  | ")"
+  | "["
+  | "]"
+  | ","
+  | ":"
+  | "="
+  | "?"
+  | "."
+  | "@"
+  | "@@"
+  | "eof";
+
+export interface Token {
+  type: TokenType;
+  /** Decoded value (string contents without quotes, comment text without slashes) */
+  value: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+const PUNCTUATION = new Set([
+  "{",
+  "}",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  ":",
+  "=",
+  "?",
+  ".",
+]);
+
+/**
+ * Tokenizer for the Prisma schema language.
+ *
+ * Produces a flat token stream with source positions. Regular `//` comments are
+ * dropped, `///` documentation comments are kept so the parser can attach them
+ * to the following declaration, and line breaks are emitted as `newline` tokens
+ * because Prisma uses them to separate fields.
+ *
+ * @example
+ * ```typescript
+ * const tokens = new PrismaLexer('name String @default("a b")', "schema.prisma").tokenize();
+ * // identifier(name) identifier(String) @ identifier(default) ( string(a b) ) eof
+ * ```
+ */
+export class PrismaLexer {
+  /** The raw schema source */
+  private source: string;
+  /** Path used when reporting errors */
+  private file: string;
+  /** Current character offset */
+  private offset = 0;
+  /** Current 1-based line */
+  private line = 1;
+  /** Current 1-based column */
+  private column = 1;
+
+  /**
+   * Creates a new lexer for a single schema file.
+   *
+   * @param source - The Prisma schema content
+   * @param file - Path of the file, used in error messages
+   */
+  constructor(source: string, file: string) {
+    this.source = source;
+    this.file = file;
+  }
+
+  /**
+   * Converts the whole source into tokens, always ending with an `eof` token.
+   *
+   * @returns The token stream
+   * @throws {PrismaSyntaxError} On unterminated strings or unexpected characters
+   */
+  tokenize(): Token[] {
+    const tokens: Token[] = [];
+
+    while (this.offset < this.source.length) {
+      const char = this.source[this.offset];
+
+      if (char === "\n") {
+        const start = this.position();
+        this.advance();
+        tokens.push({
+          type: "newline",
+          value: "\n",
+          start,
+          end: this.position(),
+        });
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        this.advance();
+        continue;
+      }
+
+      if (char === "/" && this.peek(1) === "/") {
+        const token = this.readComment();
+        if (token) tokens.push(token);
+        continue;
+      }
+
+      if (char === '"') {
+        tokens.push(this.readString());
+        continue;
+      }
+
+      if (/[0-9]/.test(char) || (char === "-" && /[0-9]/.test(this.peek(1)))) {
+        tokens.push(this.readNumber());
+        continue;
+      }
+
+      if (/[A-Za-z_]/.test(char)) {
+        tokens.push(this.readIdentifier());
+        continue;
+      }
+
+      if (char === "@") {
+        const start = this.position();
+        this.advance();
+        if (this.source[this.offset] === "@") {
+          this.advance();
+          tokens.push({ type: "@@", value: "@@", start, end: this.position() });
+        } else {
+          tokens.push({ type: "@", value: "@", start, end: this.position() });
+        }
+        continue;
+      }
+
+      if (PUNCTUATION.has(char)) {
+        const start = this.position();
+        this.advance();
+        tokens.push({
+          type: char as TokenType,
+          value: char,
+          start,
+          end: this.position(),
+        });
+        continue;
+      }
+
+      throw new PrismaSyntaxError(
+        `Unexpected character ${JSON.stringify(char)}`,
+        this.file,
+        this.position()
+      );
+    }
+
+    const end = this.position();
+    tokens.push({ type: "eof", value: "", start: end, end });
+    return tokens;
+  }
+
+  /**
+   * Reads a `//` or `///` comment up to the end of the line.
+   *
+   * @private
+   * @returns A `docComment` token for `///` comments, null for regular comments
+   */
+  private readComment(): Token | null {
+    const start = this.position();
+    const isDoc = this.peek(2) === "/";
+    let text = "";
+
+    while (
+      this.offset < this.source.length &&
+      this.source[this.offset] !== "\n"
+    ) {
+      text += this.source[this.offset];
+      this.advance();
+    }
+
+    if (!isDoc) return null;
+
+    return {
+      type: "docComment",
+      value: text.slice(3).trim(),
+      start,
+      end: this.position(),
+    };
+  }
+
+  /**
+   * Reads a double-quoted string literal, decoding escape sequences.
+   *
+   * @private
+   * @returns A `string` token holding the decoded contents
+   * @throws {PrismaSyntaxError} If the string is not closed on the same line
+   */
+  private readString(): Token {
+    const start = this.position();
+    let raw = '"';
+    this.advance();
+
+    for (;;) {
+      const char = this.source[this.offset];
+
+      if (char === undefined || char === "\n") {
+        throw new PrismaSyntaxError(
+          "Unterminated string literal",
+          this.file,
+          start
+        );
+      }
+
+      raw += char;
+      this.advance();
+
+      if (char === "\\") {
+        const escaped = this.source[this.offset];
+        if (escaped === undefined || escaped === "\n") {
+          throw new PrismaSyntaxError(
+            "Unterminated string literal",
+            this.file,
+            start
+          );
+        }
+        raw += escaped;
+        this.advance();
+        continue;
+      }
+
+      if (char === '"') break;
+    }
+
+    let value: string;
+    try {
+      value = JSON.parse(
+        raw.replace(/[\t\r]/g, (c) => (c === "\t" ? "\\t" : "\\r"))
+      );
+    } catch {
+      throw new PrismaSyntaxError(
+        "Invalid escape sequence in string",
+        this.file,
+        start
+      );
+    }
+
+    return { type: "string", value, start, end: this.position() };
+  }
+
+  /**
+   * Reads an integer or decimal number, including a leading minus sign.
+   *
+   * @private
+   * @returns A `number` token holding the raw numeric text
+   */
+  private readNumber(): Token {
+    const start = this.position();
+    let text = "";
+
+    if (this.source[this.offset] === "-") {
+      text += "-";
+      this.advance();
+    }
+
+    while (/[0-9.]/.test(this.source[this.offset] ?? "")) {
+      text += this.source[this.offset];
+      this.advance();
+    }
+
+    if (!/^-?\d+(\.\d+)?$/.test(text)) {
+      throw new PrismaSyntaxError(`Invalid number "${text}"`, this.file, start);
+    }
+
+    return { type: "number", value: text, start, end: this.position() };
+  }
+
+  /**
+   * Reads an identifier or keyword.
+   *
+   * @private
+   * @returns An `identifier` token
+   */
+  private readIdentifier(): Token {
+    const start = this.position();
+    let text = "";
+
+    while (/[A-Za-z0-9_]/.test(this.source[this.offset] ?? "")) {
+      text += this.source[this.offset];
+      this.advance();
+    }
+
+    return { type: "identifier", value: text, start, end: this.position() };
+  }
+
+  /**
+   * Moves one character forward, keeping line and column in sync.
+   *
+   * @private
+   */
+  private advance(): void {
+    if (this.source[this.offset] === "\n") {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    this.offset++;
+  }
+
+  /**
+   * Looks ahead without consuming input.
+   *
+   * @private
+   * @param distance - How many characters ahead of the current one to look
+   * @returns The character at that position, or an empty string past the end
+   */
+  private peek(distance: number): string {
+    return this.source[this.offset + distance] ?? "";
+  }
+
+  /**
+   * @private
+   * @returns The current source position
+   */
+  private position(): SourcePosition {
+    return { line: this.line, column: this.column, offset: this.offset };
+  }
+}
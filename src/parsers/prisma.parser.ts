@@ -1,8 +1,42 @@
-import { PrismaSchema, PrismaModel, PrismaEnum, PrismaField } from "../types";
+import {
+  PrismaSchema,
+  PrismaModel,
+  PrismaEnum,
+  PrismaField,
+  PrismaCompositeType,
+  PrismaFunctionDefault,
+  PrismaIndex,
+  PrismaIndexField,
+  PrismaRelation,
+  PrismaSourceFile,
+  ReferentialAction,
+  SchemaAst,
+  BlockNode,
+  ModelNode,
+  EnumNode,
+  EnumValueNode,
+  ConfigBlockNode,
+  ConfigPropertyNode,
+  FieldNode,
+  FieldTypeNode,
+  AttributeNode,
+  AttributeArgumentNode,
+  ExpressionNode,
+  SourcePosition,
+  SourceRange,
+} from "../types";
+import { PrismaLexer, Token, TokenType } from "./prisma.lexer";
+import { PrismaSyntaxError } from "../errors/prisma-syntax.error";
 
 /**
  * A parser for Prisma schema files that extracts models, enums, and their properties.
  *
+ * The schema is tokenized by {@link PrismaLexer} and parsed with a recursive-descent
+ * parser into a {@link SchemaAst} that keeps source positions for every block, field
+ * and attribute. The AST is then lowered into the simpler {@link PrismaSchema} shape
+ * used by the generators and services. Syntax errors are reported as
+ * {@link PrismaSyntaxError} with `file:line:column` instead of silently dropping fields.
+ *
  * @example
  * ```typescript
  * const schemaContent = `
@@ -16,178 +50,653 @@ import { PrismaSchema, PrismaModel, PrismaEnum, PrismaField } from "../types";
  * ```
  */
 export class PrismaSchemaParser {
-  /** The raw Prisma schema content */
-  private schema: string;
+  /** The schema sources to parse, one entry per file */
+  private sources: PrismaSourceFile[];
   /** Collection of parsed enum definitions */
   private enums: PrismaEnum[] = [];
   /** Collection of parsed model definitions */
   private models: PrismaModel[] = [];
+  /** Collection of parsed composite type definitions */
+  private types: PrismaCompositeType[] = [];
+  /** Names of every model, so relation fields can be recognised */
+  private modelNames = new Set<string>();
+  /** Tokens of the file currently being parsed */
+  private tokens: Token[] = [];
+  /** Index of the next token to consume */
+  private current = 0;
+  /** The file currently being parsed */
+  private source: PrismaSourceFile = { path: "", content: "" };
 
   /**
    * Creates a new Prisma schema parser instance.
    *
-   * @param schemaContent - The raw Prisma schema file content as a string
+   * @param schemaContent - The raw Prisma schema content, or a list of schema files
+   * @param fileName - Name used in error positions when a single string is given
    */
-  constructor(schemaContent: string) {
-    this.schema = schemaContent;
+  constructor(
+    schemaContent: string | PrismaSourceFile[],
+    fileName = "schema.prisma"
+  ) {
+    this.sources =
+      typeof schemaContent === "string"
+        ? [{ path: fileName, content: schemaContent }]
+        : schemaContent;
   }
 
   /**
-   * Parses the Prisma schema and extracts all models and enums.
+   * Parses the Prisma schema and extracts all models, enums and composite types.
    *
-   * @returns The parsed schema containing arrays of models and enums
+   * @returns The parsed schema containing arrays of models, enums and composite types
+   * @throws {PrismaSyntaxError} If any source file contains a syntax error
    */
   parse(): PrismaSchema {
-    this.enums = this.extractEnums();
-    this.models = this.extractModels();
+    const ast = this.parseAst();
+
+    this.modelNames = new Set(
+      ast.blocks
+        .filter((block) => block.kind === "model")
+        .map((block) => (block as ModelNode).name)
+    );
+    this.enums = ast.blocks
+      .filter((block): block is EnumNode => block.kind === "enum")
+      .map((block) => this.lowerEnum(block));
+    this.models = ast.blocks
+      .filter((block): block is ModelNode => block.kind === "model")
+      .map((block) => this.lowerModel(block));
+    this.types = ast.blocks
+      .filter((block): block is ModelNode => block.kind === "type")
+      .map((block) => this.lowerCompositeType(block));
 
     return {
       models: this.models,
       enums: this.enums,
+      types: this.types,
     };
   }
 
   /**
-   * Extracts all enum definitions from the schema.
+   * Parses every source file into a single syntax tree.
+   *
+   * @returns The AST with the blocks of all files, in file order
+   * @throws {PrismaSyntaxError} If any source file contains a syntax error
+   *
+   * @example
+   * ```typescript
+   * const ast = new PrismaSchemaParser(content, "schema.prisma").parseAst();
+   * const user = ast.blocks.find((b) => b.kind === "model" && b.name === "User");
+   * console.log(user?.range.start.line);
+   * ```
+   */
+  parseAst(): SchemaAst {
+    const blocks: BlockNode[] = [];
+
+    for (const source of this.sources) {
+      this.source = source;
+      this.tokens = new PrismaLexer(source.content, source.path).tokenize();
+      this.current = 0;
+      blocks.push(...this.parseBlocks());
+    }
+
+    return { blocks };
+  }
+
+  /**
+   * Parses all top-level blocks of the current file.
+   *
+   * @private
+   * @returns Array of block nodes
+   */
+  private parseBlocks(): BlockNode[] {
+    const blocks: BlockNode[] = [];
+
+    for (;;) {
+      const documentation = this.skipTrivia();
+      if (this.check("eof")) break;
+
+      const keyword = this.expect("identifier", "a block declaration");
+      switch (keyword.value) {
+        case "model":
+        case "type":
+          blocks.push(this.parseModelBlock(keyword, documentation));
+          break;
+        case "enum":
+          blocks.push(this.parseEnumBlock(keyword, documentation));
+          break;
+        case "datasource":
+        case "generator":
+          blocks.push(this.parseConfigBlock(keyword, documentation));
+          break;
+        default:
+          throw this.error(
+            `Unknown block type "${keyword.value}", expected model, type, enum, datasource or generator`,
+            keyword
+          );
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Parses a `model` or composite `type` block.
    *
    * @private
-   * @returns Array of parsed enum objects
+   * @param keyword - The already consumed `model`/`type` keyword token
+   * @param documentation - Doc comment preceding the block, if any
+   * @returns The model node
    */
-  private extractEnums(): PrismaEnum[] {
-    const enums: PrismaEnum[] = [];
-    const enumBlocks = this.schema.match(/enum\s+\w+\s*\{[^}]*\}/g) || [];
+  private parseModelBlock(
+    keyword: Token,
+    documentation: string | undefined
+  ): ModelNode {
+    const name = this.expect("identifier", `${keyword.value} name`).value;
+    this.expect("{", `"{" after ${keyword.value} ${name}`);
+
+    const fields: FieldNode[] = [];
+    const attributes: AttributeNode[] = [];
 
-    for (const block of enumBlocks) {
-      const enumObj = this.parseEnumBlock(block);
-      if (enumObj) {
-        enums.push(enumObj);
+    for (;;) {
+      const fieldDoc = this.skipTrivia();
+      if (this.match("}")) break;
+      if (this.check("eof")) {
+        throw this.error(`Expected "}" to close ${keyword.value} ${name}`);
       }
+
+      if (this.check("@@")) {
+        attributes.push(this.parseAttribute());
+      } else {
+        fields.push(this.parseField(fieldDoc));
+      }
+      this.expectLineEnd();
+    }
+
+    return {
+      kind: keyword.value as ModelNode["kind"],
+      name,
+      fields,
+      attributes,
+      documentation,
+      range: this.rangeFrom(keyword.start),
+    };
+  }
+
+  /**
+   * Parses a single field declaration such as `tags String[] @default([])`.
+   *
+   * @private
+   * @param documentation - Doc comment preceding the field, if any
+   * @returns The field node
+   */
+  private parseField(documentation: string | undefined): FieldNode {
+    const nameToken = this.expect("identifier", "a field name");
+    const type = this.parseFieldType(nameToken.value);
+
+    const attributes: AttributeNode[] = [];
+    while (this.check("@")) {
+      attributes.push(this.parseAttribute());
+    }
+
+    return {
+      kind: "field",
+      name: nameToken.value,
+      type,
+      attributes,
+      documentation,
+      range: this.rangeFrom(nameToken.start),
+    };
+  }
+
+  /**
+   * Parses a field type with its `[]` and `?` modifiers.
+   *
+   * @private
+   * @param fieldName - Name of the field, used in error messages
+   * @returns The field type node
+   */
+  private parseFieldType(fieldName: string): FieldTypeNode {
+    const typeToken = this.expect(
+      "identifier",
+      `a type for field ${fieldName}`
+    );
+    let unsupported: string | undefined;
+
+    if (typeToken.value === "Unsupported" && this.match("(")) {
+      unsupported = this.expect("string", "Unsupported type description").value;
+      this.expect(")", '")" after Unsupported type');
+    }
+
+    let isArray = false;
+    if (this.match("[")) {
+      this.expect("]", '"]" in list type');
+      isArray = true;
     }
 
-    return enums;
+    const isOptional = this.match("?");
+    if (isArray && isOptional) {
+      throw this.error(
+        `Field ${fieldName} cannot be both a list and optional`,
+        this.previous()
+      );
+    }
+
+    return {
+      name: typeToken.value,
+      isArray,
+      isOptional,
+      unsupported,
+      range: this.rangeFrom(typeToken.start),
+    };
   }
 
   /**
-   * Parses a single enum block and extracts its name and values.
+   * Parses a field (`@`) or block (`@@`) attribute including its arguments.
    *
    * @private
-   * @param block - The enum block string (e.g., "enum Status { ACTIVE INACTIVE }")
-   * @returns The parsed enum object or null if parsing fails
+   * @returns The attribute node
    */
-  private parseEnumBlock(block: string): PrismaEnum | null {
-    const nameMatch = block.match(/enum\s+(\w+)/);
-    if (!nameMatch) return null;
+  private parseAttribute(): AttributeNode {
+    const marker = this.advance();
+    let name = this.expect("identifier", "an attribute name").value;
+
+    while (this.check(".") && this.isAdjacent()) {
+      this.advance();
+      name += "." + this.expect("identifier", "an attribute name").value;
+    }
 
-    const name = nameMatch[1];
-    const values = block
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(
-        (line) =>
-          line &&
-          !line.startsWith("enum") &&
-          !line.startsWith("{") &&
-          !line.startsWith("}")
-      )
-      .map((line) => line.replace(/,$/, ""));
+    const args =
+      this.check("(") && this.isAdjacent() ? this.parseArguments() : [];
 
-    return { name, values };
+    return {
+      kind: "attribute",
+      name,
+      isBlockAttribute: marker.type === "@@",
+      args,
+      text: this.source.content.slice(
+        marker.start.offset,
+        this.previous().end.offset
+      ),
+      range: this.rangeFrom(marker.start),
+    };
   }
 
   /**
-   * Extracts all model definitions from the schema.
+   * Parses a parenthesized argument list. Line breaks are allowed anywhere
+   * inside the parentheses, so attributes can span multiple lines.
    *
    * @private
-   * @returns Array of parsed model objects
+   * @returns The parsed arguments
    */
-  private extractModels(): PrismaModel[] {
-    const models: PrismaModel[] = [];
-    const modelBlocks = this.extractModelBlocks();
+  private parseArguments(): AttributeArgumentNode[] {
+    const open = this.expect("(", '"("');
+    const args: AttributeArgumentNode[] = [];
 
-    for (const block of modelBlocks) {
-      const model = this.parseModelBlock(block);
-      if (model) {
-        models.push(model);
+    this.skipTrivia();
+    if (this.match(")")) return args;
+
+    for (;;) {
+      this.skipTrivia();
+      const start = this.peek().start;
+      let name: string | undefined;
+
+      if (this.check("identifier") && this.peekAt(1).type === ":") {
+        name = this.advance().value;
+        this.advance();
+        this.skipTrivia();
+      }
+
+      const value = this.parseExpression();
+      args.push({ name, value, range: this.rangeFrom(start) });
+
+      this.skipTrivia();
+      if (this.match(",")) {
+        this.skipTrivia();
+        // Allow a trailing comma before the closing parenthesis
+        if (this.match(")")) break;
+        continue;
       }
+      if (this.match(")")) break;
+
+      throw this.error(
+        `Expected "," or ")" to continue the argument list opened at line ${open.start.line}`
+      );
     }
 
-    return models;
+    return args;
   }
 
   /**
-   * Extracts raw model block strings from the schema using regex.
+   * Parses a value expression: string, number, boolean, identifier,
+   * function call or array.
    *
    * @private
-   * @returns Array of model block strings
+   * @returns The expression node
    */
-  private extractModelBlocks(): string[] {
-    const modelRegex = /model\s+\w+\s*\{[^}]*\}/g;
-    return this.schema.match(modelRegex) || [];
+  private parseExpression(): ExpressionNode {
+    const token = this.peek();
+
+    if (this.match("string")) {
+      return {
+        kind: "string",
+        value: token.value,
+        range: this.rangeFrom(token.start),
+      };
+    }
+
+    if (this.match("number")) {
+      return {
+        kind: "number",
+        value: Number(token.value),
+        raw: token.value,
+        range: this.rangeFrom(token.start),
+      };
+    }
+
+    if (this.match("[")) {
+      const items: ExpressionNode[] = [];
+      this.skipTrivia();
+
+      while (!this.match("]")) {
+        items.push(this.parseExpression());
+        this.skipTrivia();
+        if (!this.match(",")) {
+          this.expect("]", '"," or "]" in array');
+          break;
+        }
+        this.skipTrivia();
+      }
+
+      return { kind: "array", items, range: this.rangeFrom(token.start) };
+    }
+
+    if (this.match("identifier")) {
+      let name = token.value;
+      while (this.check(".") && this.isAdjacent()) {
+        this.advance();
+        name +=
+          "." + this.expect("identifier", 'an identifier after "."').value;
+      }
+
+      if (this.check("(")) {
+        const args = this.parseArguments();
+        return {
+          kind: "function",
+          name,
+          args,
+          range: this.rangeFrom(token.start),
+        };
+      }
+
+      if (name === "true" || name === "false") {
+        return {
+          kind: "boolean",
+          value: name === "true",
+          range: this.rangeFrom(token.start),
+        };
+      }
+
+      return { kind: "identifier", name, range: this.rangeFrom(token.start) };
+    }
+
+    throw this.error(`Expected a value but found ${this.describe(token)}`);
   }
 
   /**
-   * Parses a single model block and extracts its name, fields, and metadata.
+   * Parses an `enum` block.
    *
    * @private
-   * @param block - The model block string
-   * @returns The parsed model object or null if parsing fails
+   * @param keyword - The already consumed `enum` keyword token
+   * @param documentation - Doc comment preceding the block, if any
+   * @returns The enum node
    */
-  private parseModelBlock(block: string): PrismaModel | null {
-    const nameMatch = block.match(/model\s+(\w+)/);
-    if (!nameMatch) return null;
+  private parseEnumBlock(
+    keyword: Token,
+    documentation: string | undefined
+  ): EnumNode {
+    const name = this.expect("identifier", "enum name").value;
+    this.expect("{", `"{" after enum ${name}`);
 
-    const name = nameMatch[1];
-    const fields = this.parseFields(block);
+    const values: EnumValueNode[] = [];
+    const attributes: AttributeNode[] = [];
+
+    for (;;) {
+      const valueDoc = this.skipTrivia();
+      if (this.match("}")) break;
+      if (this.check("eof")) {
+        throw this.error(`Expected "}" to close enum ${name}`);
+      }
+
+      if (this.check("@@")) {
+        attributes.push(this.parseAttribute());
+      } else {
+        const valueToken = this.expect("identifier", "an enum value");
+        const valueAttributes: AttributeNode[] = [];
+        while (this.check("@")) {
+          valueAttributes.push(this.parseAttribute());
+        }
+        // Older schemas separate enum values with commas
+        this.match(",");
+        values.push({
+          kind: "enumValue",
+          name: valueToken.value,
+          attributes: valueAttributes,
+          documentation: valueDoc,
+          range: this.rangeFrom(valueToken.start),
+        });
+      }
+      this.expectLineEnd();
+    }
+
+    return {
+      kind: "enum",
+      name,
+      values,
+      attributes,
+      documentation,
+      range: this.rangeFrom(keyword.start),
+    };
+  }
+
+  /**
+   * Parses a `datasource` or `generator` block made of `key = value` pairs.
+   *
+   * @private
+   * @param keyword - The already consumed keyword token
+   * @param documentation - Doc comment preceding the block, if any
+   * @returns The config block node
+   */
+  private parseConfigBlock(
+    keyword: Token,
+    documentation: string | undefined
+  ): ConfigBlockNode {
+    const name = this.expect("identifier", `${keyword.value} name`).value;
+    this.expect("{", `"{" after ${keyword.value} ${name}`);
+
+    const properties: ConfigPropertyNode[] = [];
+
+    for (;;) {
+      this.skipTrivia();
+      if (this.match("}")) break;
+      if (this.check("eof")) {
+        throw this.error(`Expected "}" to close ${keyword.value} ${name}`);
+      }
+
+      const key = this.expect("identifier", "a property name");
+      this.expect("=", `"=" after ${key.value}`);
+      const value = this.parseExpression();
+      properties.push({
+        kind: "property",
+        key: key.value,
+        value,
+        range: this.rangeFrom(key.start),
+      });
+      this.expectLineEnd();
+    }
+
+    return {
+      kind: keyword.value as ConfigBlockNode["kind"],
+      name,
+      properties,
+      documentation,
+      range: this.rangeFrom(keyword.start),
+    };
+  }
+
+  /**
+   * Converts a model AST node into the {@link PrismaModel} shape.
+   *
+   * @private
+   * @param block - The model node
+   * @returns The parsed model object
+   */
+  private lowerModel(block: ModelNode): PrismaModel {
+    const fields = block.fields.map((field) => this.lowerField(field));
 
     // Check for @@map directive
-    const mapMatch = block.match(/@@map\s*\(\s*"([^"]+)"\s*\)/);
-    const mapName = mapMatch ? mapMatch[1] : undefined;
+    const mapAttribute = block.attributes.find((attr) => attr.name === "map");
+    const mapArg = mapAttribute?.args[0]?.value;
+    const mapName = mapArg?.kind === "string" ? mapArg.value : undefined;
 
-    return { name, fields, mapName };
+    return {
+      name: block.name,
+      fields,
+      mapName,
+      indexes: this.lowerIndexes(block),
+    };
   }
 
   /**
-   * Parses all field definitions within a model block.
+   * Collects the indexes of a model from field-level `@unique` and block-level
+   * `@@index`, `@@unique` and `@@id` attributes.
    *
    * @private
-   * @param block - The model block string containing field definitions
-   * @returns Array of parsed field objects
-   */
-  private parseFields(block: string): PrismaField[] {
-    const fields: PrismaField[] = [];
-    const fieldLines = block
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(
-        (line) =>
-          line &&
-          !line.startsWith("model") &&
-          !line.startsWith("{") &&
-          !line.startsWith("}")
-      );
+   * @param block - The model node
+   * @returns The declared indexes, field-level ones first
+   *
+   * @example
+   * ```typescript
+   * // email String @unique
+   * // @@index([authorId, createdAt(sort: Desc)], map: "by_author")
+   * // Returns: [
+   * //   { type: "unique", fields: [{ name: "email" }] },
+   * //   { type: "index", fields: [{ name: "authorId" }, { name: "createdAt", sort: "Desc" }], mapName: "by_author" }
+   * // ]
+   * ```
+   */
+  private lowerIndexes(block: ModelNode): PrismaIndex[] {
+    const indexes: PrismaIndex[] = [];
+
+    for (const field of block.fields) {
+      const unique = field.attributes.find((attr) => attr.name === "unique");
+      if (!unique) continue;
+
+      const sort = this.findArgument(unique.args, "sort");
+      indexes.push({
+        type: "unique",
+        fields: [
+          {
+            name: field.name,
+            ...(sort?.kind === "identifier"
+              ? { sort: sort.name as PrismaIndexField["sort"] }
+              : {}),
+          },
+        ],
+        mapName: this.stringArgument(unique.args, "map"),
+      });
+    }
 
-    for (const line of fieldLines) {
-      if (line.startsWith("//") || line.startsWith("@@")) continue;
+    for (const attr of block.attributes) {
+      if (!["index", "unique", "id"].includes(attr.name)) continue;
 
-      const field = this.parseFieldLine(line);
-      if (field) {
-        fields.push(field);
+      const fieldsArg =
+        this.findArgument(attr.args, "fields") ??
+        attr.args.find((arg) => !arg.name)?.value;
+      if (fieldsArg?.kind !== "array") {
+        throw new PrismaSyntaxError(
+          `@@${attr.name} expects a list of fields`,
+          attr.range.file,
+          attr.range.start
+        );
       }
+
+      const fields: PrismaIndexField[] = fieldsArg.items.map((item) => {
+        if (item.kind === "identifier") return { name: item.name };
+        if (item.kind === "function") {
+          const sort = this.findArgument(item.args, "sort");
+          return {
+            name: item.name,
+            ...(sort?.kind === "identifier"
+              ? { sort: sort.name as PrismaIndexField["sort"] }
+              : {}),
+          };
+        }
+        throw new PrismaSyntaxError(
+          `Invalid field in @@${attr.name}`,
+          item.range.file,
+          item.range.start
+        );
+      });
+
+      indexes.push({
+        type: attr.name as PrismaIndex["type"],
+        fields,
+        mapName: this.stringArgument(attr.args, "map"),
+      });
     }
 
-    return fields;
+    return indexes;
+  }
+
+  /**
+   * @private
+   * @param args - Attribute arguments
+   * @param name - The named argument to look up
+   * @returns The argument value, if present
+   */
+  private findArgument(
+    args: AttributeArgumentNode[],
+    name: string
+  ): ExpressionNode | undefined {
+    return args.find((arg) => arg.name === name)?.value;
+  }
+
+  /**
+   * @private
+   * @param args - Attribute arguments
+   * @param name - The named argument to look up
+   * @returns The argument value if it is a string literal
+   */
+  private stringArgument(
+    args: AttributeArgumentNode[],
+    name: string
+  ): string | undefined {
+    const value = this.findArgument(args, name);
+    return value?.kind === "string" ? value.value : undefined;
+  }
+
+  /**
+   * Converts a composite `type` AST node into the {@link PrismaCompositeType} shape.
+   *
+   * @private
+   * @param block - The composite type node
+   * @returns The parsed composite type object
+   */
+  private lowerCompositeType(block: ModelNode): PrismaCompositeType {
+    return {
+      name: block.name,
+      fields: block.fields.map((field) => this.lowerField(field)),
+    };
   }
 
   /**
-   * Parses a single field line and extracts all field properties.
+   * Converts a field AST node into the {@link PrismaField} shape.
    *
    * @private
-   * @param line - A single field definition line (e.g., "id Int @id @default(autoincrement())")
-   * @returns The parsed field object or null if parsing fails
+   * @param field - The field node
+   * @returns The parsed field object
    *
    * @example
    * ```typescript
-   * // Input: "email String? @unique @default("user@example.com")"
+   * // Input: email String? @unique @default("user@example.com") @map("email_address")
    * // Output: {
    * //   name: "email",
    * //   type: "String",
@@ -196,93 +705,309 @@ export class PrismaSchemaParser {
    * //   defaultValue: "user@example.com",
    * //   isId: false,
    * //   isUnique: true,
-   * //   attributes: ["@unique", "@default(\"user@example.com\")"]
+   * //   mapName: "email_address",
+   * //   attributes: ["@unique", "@default(\"user@example.com\")", "@map(\"email_address\")"]
    * // }
+   *
+   * // Input: author User @relation(fields: [authorId], references: [id], onDelete: Cascade)
+   * // Output: { name: "author", type: "User", ..., relation: { model: "User", fields: ["authorId"], references: ["id"], onDelete: "Cascade" } }
    * ```
    */
-  private parseFieldLine(line: string): PrismaField | null {
-    const fieldMatch = line.match(/^(\w+)\s+(\w+(?:\[\])?)\??\s*(.*)/);
-    if (!fieldMatch) return null;
-
-    const [, name, typeWithArray, attributesStr] = fieldMatch;
-    const isArray = typeWithArray.endsWith("[]");
-    const type = isArray ? typeWithArray.slice(0, -2) : typeWithArray;
-    const isOptional = line.includes("?");
-    const attributes = attributesStr
-      .split(/\s+/)
-      .filter((attr) => attr.startsWith("@"));
-
-    // Extract default value
-    let defaultValue: any = undefined;
-    const defaultMatch = attributesStr.match(/@default\(([^)]+)\)/);
-    if (defaultMatch) {
-      defaultValue = this.parseDefaultValue(defaultMatch[1]);
-    }
+  private lowerField(field: FieldNode): PrismaField {
+    const defaultAttribute = field.attributes.find(
+      (attr) => attr.name === "default"
+    );
+    const defaultArg = defaultAttribute?.args[0]?.value;
 
-    const isId = attributes.some((attr) => attr.startsWith("@id"));
-    const isUnique = attributes.some((attr) => attr.startsWith("@unique"));
+    // Check for @map directive
+    const mapAttribute = field.attributes.find((attr) => attr.name === "map");
+    const mapArg = mapAttribute?.args[0]?.value;
 
     return {
-      name,
-      type,
-      isOptional,
-      isArray,
-      defaultValue,
-      isId,
-      isUnique,
-      attributes,
+      name: field.name,
+      type: field.type.name,
+      isOptional: field.type.isOptional,
+      isArray: field.type.isArray,
+      defaultValue: defaultArg ? this.evaluateDefault(defaultArg) : undefined,
+      isId: field.attributes.some((attr) => attr.name === "id"),
+      isUnique: field.attributes.some((attr) => attr.name === "unique"),
+      mapName: mapArg?.kind === "string" ? mapArg.value : undefined,
+      relation: this.modelNames.has(field.type.name)
+        ? this.lowerRelation(field)
+        : undefined,
+      attributes: field.attributes.map((attr) => attr.text),
     };
   }
 
   /**
-   * Parses a default value string and converts it to the appropriate JavaScript type.
+   * Reads the `@relation` attribute of a relation field. The relation name may
+   * be given positionally or as `name:`.
    *
    * @private
-   * @param defaultStr - The default value string from @default() attribute
-   * @returns The parsed default value in appropriate JavaScript type, or undefined for functions
+   * @param field - A field whose type is a model
+   * @returns The relation metadata, with empty `fields` and `references` on the back-relation side
+   */
+  private lowerRelation(field: FieldNode): PrismaRelation {
+    const relation = field.attributes.find((attr) => attr.name === "relation");
+    const args = relation?.args ?? [];
+
+    const identifiers = (name: string): string[] => {
+      const value = this.findArgument(args, name);
+      return value?.kind === "array"
+        ? value.items.flatMap((item) =>
+            item.kind === "identifier" ? [item.name] : []
+          )
+        : [];
+    };
+    const action = (name: string): ReferentialAction | undefined => {
+      const value = this.findArgument(args, name);
+      return value?.kind === "identifier"
+        ? (value.name as ReferentialAction)
+        : undefined;
+    };
+    const positionalName = args.find((arg) => !arg.name)?.value;
+
+    return {
+      model: field.type.name,
+      name:
+        this.stringArgument(args, "name") ??
+        (positionalName?.kind === "string" ? positionalName.value : undefined),
+      fields: identifiers("fields"),
+      references: identifiers("references"),
+      onDelete: action("onDelete"),
+      onUpdate: action("onUpdate"),
+    };
+  }
+
+  /**
+   * Converts an enum AST node into the {@link PrismaEnum} shape.
+   *
+   * @private
+   * @param block - The enum node
+   * @returns The parsed enum object
+   */
+  private lowerEnum(block: EnumNode): PrismaEnum {
+    return {
+      name: block.name,
+      values: block.values.map((value) => {
+        // Check for @map directive
+        const mapAttribute = value.attributes.find(
+          (attr) => attr.name === "map"
+        );
+        const mapArg = mapAttribute?.args[0]?.value;
+        return {
+          name: value.name,
+          mapName: mapArg?.kind === "string" ? mapArg.value : undefined,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Evaluates a `@default(...)` argument to the appropriate JavaScript value.
+   *
+   * @private
+   * @param expression - The default value expression
+   * @returns The default value, with functions as {@link PrismaFunctionDefault} descriptors
    *
    * @example
    * ```typescript
-   * parseDefaultValue('"hello"') // returns "hello"
-   * parseDefaultValue('true') // returns true
-   * parseDefaultValue('42') // returns 42
-   * parseDefaultValue('3.14') // returns 3.14
-   * parseDefaultValue('ACTIVE') // returns "ACTIVE" (enum value)
-   * parseDefaultValue('now()') // returns undefined (function)
+   * // @default("hello") -> "hello"
+   * // @default(true)    -> true
+   * // @default(42)      -> 42
+   * // @default(3.14)    -> 3.14
+   * // @default(9007199254740993) -> "9007199254740993" (beyond double precision)
+   * // @default(ACTIVE)  -> "ACTIVE" (enum value)
+   * // @default([])      -> []
+   * // @default(now())   -> { kind: "function", name: "now", args: [] }
+   * // @default(uuid(7))  -> { kind: "function", name: "uuid", args: [7] }
    * ```
    */
-  private parseDefaultValue(defaultStr: string): any {
-    defaultStr = defaultStr.trim();
-
-    // Handle string values
-    if (defaultStr.startsWith('"') && defaultStr.endsWith('"')) {
-      return defaultStr.slice(1, -1);
+  private evaluateDefault(expression: ExpressionNode): unknown {
+    switch (expression.kind) {
+      case "string":
+      case "boolean":
+        return expression.value;
+      case "number":
+        // Keep BigInt defaults that don't fit a double as text so no digits are lost
+        return Number.isInteger(expression.value) &&
+          !Number.isSafeInteger(expression.value)
+          ? expression.raw
+          : expression.value;
+      case "identifier":
+        return expression.name;
+      case "array": {
+        const items = expression.items.map((item) =>
+          this.evaluateDefault(item)
+        );
+        return items.includes(undefined) ? undefined : items;
+      }
+      case "function": {
+        const descriptor: PrismaFunctionDefault = {
+          kind: "function",
+          name: expression.name,
+          args: expression.args.map((arg) => this.evaluateDefault(arg.value)),
+        };
+        return descriptor;
+      }
     }
+  }
 
-    // Handle boolean values
-    if (defaultStr === "true") return true;
-    if (defaultStr === "false") return false;
+  /**
+   * Skips line breaks and collects `///` doc comments.
+   *
+   * @private
+   * @returns The collected documentation, joined by newlines, if any
+   */
+  private skipTrivia(): string | undefined {
+    const docs: string[] = [];
 
-    // Handle numeric values
-    if (/^\d+$/.test(defaultStr)) {
-      return parseInt(defaultStr, 10);
-    }
-    if (/^\d+\.\d+$/.test(defaultStr)) {
-      return parseFloat(defaultStr);
+    while (this.check("newline") || this.check("docComment")) {
+      const token = this.advance();
+      if (token.type === "docComment") docs.push(token.value);
     }
 
-    // Handle enum values (no quotes, not a function)
-    if (!defaultStr.includes("(")) {
-      return defaultStr;
-    }
+    return docs.length > 0 ? docs.join("\n") : undefined;
+  }
 
-    // Handle functions (like now(), auto(), etc.)
-    if (defaultStr.includes("(")) {
-      // For MongoDB, we'll skip function defaults as they're handled by the DB
-      return undefined;
-    }
+  /**
+   * Requires the end of a declaration: a line break, the closing brace or end of file.
+   *
+   * @private
+   */
+  private expectLineEnd(): void {
+    if (this.check("newline") || this.check("}") || this.check("eof")) return;
+    throw this.error(
+      `Expected a new line but found ${this.describe(this.peek())}`
+    );
+  }
+
+  /**
+   * Consumes the next token if it has the given type, otherwise throws.
+   *
+   * @private
+   * @param type - The expected token type
+   * @param expected - Description of what was expected, used in the error
+   * @returns The consumed token
+   */
+  private expect(type: TokenType, expected: string): Token {
+    if (this.check(type)) return this.advance();
+    throw this.error(
+      `Expected ${expected} but found ${this.describe(this.peek())}`
+    );
+  }
+
+  /**
+   * Consumes the next token if it has the given type.
+   *
+   * @private
+   * @param type - The token type to match
+   * @returns True if a token was consumed
+   */
+  private match(type: TokenType): boolean {
+    if (!this.check(type)) return false;
+    this.advance();
+    return true;
+  }
+
+  /**
+   * @private
+   * @param type - The token type to check
+   * @returns True if the next token has the given type
+   */
+  private check(type: TokenType): boolean {
+    return this.peek().type === type;
+  }
+
+  /**
+   * Returns true when the next token directly follows the previous one with no
+   * whitespace in between, e.g. the `(` in `@default(` or the `.` in `@db.ObjectId`.
+   *
+   * @private
+   */
+  private isAdjacent(): boolean {
+    return this.peek().start.offset === this.previous().end.offset;
+  }
 
-    return defaultStr;
+  /**
+   * @private
+   * @returns The consumed token
+   */
+  private advance(): Token {
+    const token = this.tokens[this.current];
+    if (token.type !== "eof") this.current++;
+    return token;
+  }
+
+  /**
+   * @private
+   * @returns The next token without consuming it
+   */
+  private peek(): Token {
+    return this.tokens[this.current];
+  }
+
+  /**
+   * @private
+   * @param distance - How many tokens ahead to look
+   * @returns The token at that distance, or the `eof` token
+   */
+  private peekAt(distance: number): Token {
+    return (
+      this.tokens[this.current + distance] ??
+      this.tokens[this.tokens.length - 1]
+    );
+  }
+
+  /**
+   * @private
+   * @returns The most recently consumed token
+   */
+  private previous(): Token {
+    return this.tokens[Math.max(this.current - 1, 0)];
+  }
+
+  /**
+   * Builds a source range from a start position to the end of the previous token.
+   *
+   * @private
+   * @param start - Where the node starts
+   * @returns The source range
+   */
+  private rangeFrom(start: SourcePosition): SourceRange {
+    return { file: this.source.path, start, end: this.previous().end };
+  }
+
+  /**
+   * Creates a syntax error located at the given token (defaults to the next token).
+   *
+   * @private
+   * @param reason - Description of the problem
+   * @param token - The offending token
+   * @returns The error, ready to be thrown
+   */
+  private error(reason: string, token: Token = this.peek()): PrismaSyntaxError {
+    return new PrismaSyntaxError(reason, this.source.path, token.start);
+  }
+
+  /**
+   * @private
+   * @param token - The token to describe
+   * @returns A readable description of the token for error messages
+   */
+  private describe(token: Token): string {
+    switch (token.type) {
+      case "eof":
+        return "end of file";
+      case "newline":
+        return "end of line";
+      case "string":
+        return `string ${JSON.stringify(token.value)}`;
+      case "docComment":
+        return "documentation comment";
+      default:
+        return `"${token.value}"`;
+    }
   }
 
   /**
@@ -320,4 +1045,22 @@ export class PrismaSchemaParser {
   isModel(typeName: string): boolean {
     return this.models.some((m) => m.name === typeName);
   }
+
+  /**
+   * Checks if a given type name corresponds to a defined composite type.
+   *
+   * @param typeName - The type name to check
+   * @returns True if the type is a composite type, false otherwise
+   *
+   * @example
+   * ```typescript
+   * const parser = new PrismaSchemaParser(schemaWithAddressType);
+   * parser.parse();
+   * parser.isCompositeType('Address'); // true
+   * parser.isCompositeType('User'); // false
+   * ```
+   */
+  isCompositeType(typeName: string): boolean {
+    return this.types.some((t) => t.name === typeName);
+  }
 }
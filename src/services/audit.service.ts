@@ -0,0 +1,327 @@
+import { Document, MongoClient } from "mongodb";
+import {
+  AuditOptions,
+  AuditReport,
+  AuditViolation,
+  AuditViolationKind,
+  JsonSchemaProperty,
+  PrismaField,
+  PrismaModel,
+  PrismaSchema,
+} from "../types";
+import { JsonSchemaGenerator } from "../generators/json-schema.generator";
+import { findCollection, getFieldKey } from "../utils/collection";
+import { resolveBsonType } from "../utils/bson";
+
+/** The `_bsontype` of the driver's value classes for each BSON type */
+const BSON_CLASS_NAMES: { [bsonType: string]: string } = {
+  int: "Int32",
+  long: "Long",
+  double: "Double",
+  decimal: "Decimal128",
+  objectId: "ObjectId",
+  binData: "Binary",
+  timestamp: "Timestamp",
+};
+
+/**
+ * Read-only check of live documents against the Prisma schema.
+ *
+ * Each document is compared with the JSON Schema produced by
+ * {@link JsonSchemaGenerator}: non-optional fields other than lists must be
+ * present, including fields with a `@default`, non-optional fields must not
+ * be null, enum fields must hold one of the enum values and every value must
+ * have the BSON type Prisma expects. Embedded composite types
+ * and lists are checked element by element. Documents are read with
+ * `promoteValues: false` so an `Int` stored as a double is reported.
+ *
+ * @example
+ * ```typescript
+ * const auditService = new AuditService("mongodb://localhost:27017", "staging", schema);
+ * const report = await auditService.auditModel(userModel, { limit: 10000 });
+ *
+ * // {
+ * //   model: "User",
+ * //   collection: "users",
+ * //   scannedCount: 10000,
+ * //   violatingCount: 3,
+ * //   violations: [
+ * //     { path: "status", kind: "enum", expected: "enum Status", count: 3, sampleIds: ["65f...", ...] }
+ * //   ]
+ * // }
+ * ```
+ */
+export class AuditService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+  /** The parsed Prisma schema */
+  private schema: PrismaSchema;
+  /** Generator for the JSON Schema each document is checked against */
+  private generator: JsonSchemaGenerator;
+
+  /**
+   * Creates a new audit service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the database to audit
+   * @param schema - The parsed Prisma schema
+   */
+  constructor(connectionString: string, dbName: string, schema: PrismaSchema) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+    this.schema = schema;
+    this.generator = new JsonSchemaGenerator(schema);
+  }
+
+  /**
+   * Scans (or samples) a model's collection and counts schema violations.
+   *
+   * @param model - The Prisma model
+   * @param options - Sampling settings
+   * @returns The audit report for the model
+   */
+  async auditModel(
+    model: PrismaModel,
+    options: AuditOptions = {}
+  ): Promise<AuditReport> {
+    const sampleSize = options.sampleSize ?? 3;
+    const jsonSchema = this.generator.generateSchema(model);
+    const report: AuditReport = {
+      model: model.name,
+      collection: null,
+      scannedCount: 0,
+      violatingCount: 0,
+      violations: [],
+    };
+    const violations = new Map<string, AuditViolation>();
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const collection = await findCollection(db, model);
+      if (!collection) return report;
+
+      report.collection = collection.collectionName;
+      const cursor =
+        options.limit !== undefined
+          ? collection.aggregate([{ $sample: { size: options.limit } }], {
+              promoteValues: false,
+            })
+          : collection.find({}, { promoteValues: false });
+
+      for await (const doc of cursor) {
+        report.scannedCount++;
+
+        const found: Omit<AuditViolation, "count" | "sampleIds">[] = [];
+        this.checkObject(doc, model.fields, jsonSchema, "", found);
+        if (found.length === 0) continue;
+
+        report.violatingCount++;
+        // Count each kind of violation once per document
+        const seen = new Set<string>();
+        for (const violation of found) {
+          const key = `${violation.path}\u0000${violation.kind}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          const entry = violations.get(key) ?? {
+            ...violation,
+            count: 0,
+            sampleIds: [],
+          };
+          entry.count++;
+          if (entry.sampleIds.length < sampleSize) {
+            entry.sampleIds.push(String(doc._id));
+          }
+          violations.set(key, entry);
+        }
+      }
+    } finally {
+      await this.client.close();
+    }
+
+    report.violations = [...violations.values()].sort(
+      (a, b) => b.count - a.count
+    );
+    return report;
+  }
+
+  /**
+   * Checks the fields of a document or embedded document.
+   *
+   * @private
+   * @param doc - The (embedded) document
+   * @param fields - Prisma fields of the model or composite type
+   * @param schema - The matching JSON Schema node
+   * @param prefix - Path of the document, empty for the root
+   * @param found - Collected violations
+   */
+  private checkObject(
+    doc: Document,
+    fields: PrismaField[],
+    schema: {
+      properties?: { [key: string]: JsonSchemaProperty };
+    },
+    prefix: string,
+    found: Omit<AuditViolation, "count" | "sampleIds">[]
+  ): void {
+    for (const field of fields) {
+      // IDs are enforced by MongoDB, relations are not stored
+      if (field.isId || this.isModel(field.type)) continue;
+
+      const property = schema.properties?.[field.name];
+      if (!property) continue;
+
+      const path = prefix ? `${prefix}.${field.name}` : field.name;
+      const value = doc[getFieldKey(field)];
+      const add = (kind: AuditViolationKind, expected: string) =>
+        found.push({ path, kind, expected });
+
+      // Prisma throws on reading a missing field even if it has a @default,
+      // which only applies on create; backfill writes those
+      if (value === undefined) {
+        if (!field.isOptional && !field.isArray) {
+          add(
+            "missing",
+            field.defaultValue === undefined
+              ? "required"
+              : "required, has @default"
+          );
+        }
+        continue;
+      }
+
+      if (value === null) {
+        if (!field.isOptional) add("null", "non-null");
+        continue;
+      }
+
+      if (!field.isArray) {
+        this.checkValue(value, field, property, path, found);
+      } else if (!Array.isArray(value)) {
+        add("type", `${this.describeType(field)}[]`);
+      } else {
+        for (const item of value) {
+          this.checkValue(
+            item,
+            field,
+            property.items ?? {},
+            `${path}[]`,
+            found
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks a single non-null value against its field type.
+   *
+   * @private
+   * @param value - The stored value
+   * @param field - The Prisma field
+   * @param property - The JSON Schema property for the value
+   * @param path - Path of the value
+   * @param found - Collected violations
+   */
+  private checkValue(
+    value: unknown,
+    field: PrismaField,
+    property: Partial<JsonSchemaProperty>,
+    path: string,
+    found: Omit<AuditViolation, "count" | "sampleIds">[]
+  ): void {
+    const expected = this.describeType(field);
+    const compositeType = this.schema.types.find((t) => t.name === field.type);
+
+    if (compositeType) {
+      if (!this.isPlainObject(value)) {
+        found.push({ path, kind: "type", expected });
+      } else {
+        this.checkObject(value, compositeType.fields, property, path, found);
+      }
+      return;
+    }
+
+    if (property.enum) {
+      if (typeof value !== "string") {
+        found.push({ path, kind: "type", expected });
+      } else if (!property.enum.includes(value)) {
+        found.push({ path, kind: "enum", expected });
+      }
+      return;
+    }
+
+    const bsonType = resolveBsonType(field);
+    if (bsonType && !this.matchesBsonType(value, bsonType)) {
+      found.push({ path, kind: "type", expected });
+    }
+  }
+
+  /**
+   * Checks a value read with `promoteValues: false` against a BSON type.
+   *
+   * @private
+   * @param value - The stored value
+   * @param bsonType - The expected BSON type
+   * @returns True if the value has that type
+   */
+  private matchesBsonType(value: unknown, bsonType: string): boolean {
+    switch (bsonType) {
+      case "string":
+        return typeof value === "string";
+      case "bool":
+        return typeof value === "boolean";
+      case "date":
+        return value instanceof Date;
+      default:
+        return (
+          typeof value === "object" &&
+          value !== null &&
+          (value as { _bsontype?: string })._bsontype ===
+            BSON_CLASS_NAMES[bsonType]
+        );
+    }
+  }
+
+  /**
+   * @private
+   * @param value - A stored value
+   * @returns True for embedded documents
+   */
+  private isPlainObject(value: unknown): value is Document {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !(value instanceof Date) &&
+      !("_bsontype" in value)
+    );
+  }
+
+  /**
+   * @private
+   * @param field - The Prisma field
+   * @returns The expected type for display, e.g. `int`, `enum Status` or `type Address`
+   */
+  private describeType(field: PrismaField): string {
+    if (this.schema.enums.some((e) => e.name === field.type)) {
+      return `enum ${field.type}`;
+    }
+    if (this.schema.types.some((t) => t.name === field.type)) {
+      return `type ${field.type}`;
+    }
+    return resolveBsonType(field) ?? field.type;
+  }
+
+  /**
+   * @private
+   * @param typeName - The type name to check
+   * @returns True if the type is a model, i.e. the field is a relation
+   */
+  private isModel(typeName: string): boolean {
+    return this.schema.models.some((m) => m.name === typeName);
+  }
+}
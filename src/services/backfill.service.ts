@@ -1,8 +1,63 @@
-import { Db, MongoClient } from "mongodb";
-import pluralize from "pluralize";
-import chalk from "chalk";
-import { kebabCase } from "change-case-all";
-import { JsonSchema, PrismaModel } from "../types";
+import { createHash, randomBytes } from "crypto";
+import { EventEmitter } from "events";
+import { setTimeout as sleep } from "timers/promises";
+import {
+  AnyBulkWriteOperation,
+  Collection,
+  Db,
+  Document,
+  Filter,
+  MongoBulkWriteError,
+  MongoClient,
+  MongoServerError,
+  ObjectId,
+  WriteConcernSettings,
+} from "mongodb";
+import {
+  BackfillCheckpoint,
+  BackfillEvents,
+  BackfillField,
+  BackfillImpactReport,
+  BackfillResult,
+  BackfillRun,
+  BackfillSkipReason,
+  BackfillStrategy,
+  BackfillTarget,
+  JsonSchema,
+  JsonSchemaProperty,
+  Logger,
+  MongoBackfillOptions,
+  PrismaModel,
+} from "../types";
+import { findCollection } from "../utils/collection";
+import { coerceBsonValue } from "../utils/bson";
+import {
+  formatDefault,
+  generateUniqueValue,
+  isFunctionDefault,
+  isGeneratedDefault,
+  isUniqueValueDefault,
+} from "../utils/defaults";
+import { BackfillCheckpointError } from "../errors/backfill-checkpoint.error";
+
+/** Collection holding one checkpoint per model for resumable backfills */
+export const BACKFILL_STATE_COLLECTION = "_pmm_backfill_state";
+
+/** Collection recording every backfill run that was backed up */
+export const RUNS_COLLECTION = "_pmm_runs";
+
+/** Prefix of the per-run collections holding original field values */
+export const BACKUP_COLLECTION_PREFIX = "_pmm_backups.";
+
+/**
+ * Creates a run ID: the UTC start time followed by a random suffix.
+ *
+ * @returns The run ID, e.g. `20240315120000-9f3a`
+ */
+export function createRunId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14);
+  return `${timestamp}-${randomBytes(2).toString("hex")}`;
+}
 
 /**
  * A service for backfilling MongoDB collections with default values from Prisma models.
@@ -12,15 +67,53 @@ import { JsonSchema, PrismaModel } from "../types";
  * when adding new fields with default values to existing Prisma models and needing to
  * retroactively apply those defaults to historical data.
  *
+ * Updates run on the server: top-level defaults are applied with a single aggregation
+ * pipeline `updateMany` using `$ifNull`, and defaults that need per-document logic (such as
+ * fields inside arrays of embedded documents) fall back to batched `bulkWrite` calls that
+ * only visit documents matching a `$exists: false` / `null` filter.
+ *
+ * Function defaults are generated during the backfill: `now()` becomes the time the
+ * service was created (or the ObjectId timestamp with `nowFromObjectId`), and `uuid()`,
+ * `cuid()`, `nanoid()` and `auto()` get a fresh value for every document and array element.
+ * `dbgenerated()` defaults are skipped.
+ *
+ * Every value is converted to the field's BSON type before it reaches `$set`, so a
+ * `DateTime` default is stored as a date, a `Float` as a double and a `BigInt` as a long.
+ *
  * The service uses intelligent collection name resolution, trying multiple naming conventions
  * to find the correct MongoDB collection for each Prisma model.
  *
+ * Each backfill returns a {@link BackfillResult} and emits `start`, `progress`, `skip`,
+ * `writeError` and `complete` events. Plain-text messages go to the `logger` option
+ * (`console` by default), which is itself just a listener of these events.
+ *
+ * With `checkpoints` the documents are processed in `_id` order, `batchSize` at a time,
+ * and the last `_id` of every finished range is saved in `_pmm_backfill_state`. With
+ * `resume` a later run continues after that `_id`, unless the defaults have changed.
+ * The checkpoint is deleted once the collection is done, so a model that finished is
+ * backfilled again in full. Ranges assume every `_id` in the collection has the same
+ * BSON type. Without checkpoints or throttling the strategy runs over the whole
+ * collection at once.
+ *
+ * For production traffic the ranges can be throttled: `maxDocsPerSecond` caps the write
+ * rate, `batchPauseMs` waits after every range and `maxReplicationLagMs` holds the next
+ * range while secondaries lag behind (checked with `replSetGetStatus`; hidden and
+ * delayed members are left out using `replSetGetConfig`). If the lag stays above the
+ * limit for `maxReplicationWaitMs`, the backfill fails instead of waiting forever.
+ * Throttling implies ranges even without checkpoints. `writeConcern` applies to every write.
+ *
+ * With `backup` the original values of the top-level fields about to be set are copied
+ * to `_pmm_backups.<runId>` before every write (absent fields stay absent in the copy),
+ * and the run is recorded in `_pmm_runs` so `RollbackService` can undo it.
+ *
  * @example
  * ```typescript
  * const backfillService = new MongoBackfillService(
  *   "mongodb://localhost:27017",
- *   "myapp"
+ *   "myapp",
+ *   { batchSize: 5000, logger: null }
  * );
+ * backfillService.on("progress", (event) => console.log(event.modifiedCount));
  *
  * const userModel = { name: "User", fields: [...], mapName: "users" };
  * const userSchema = {
@@ -30,25 +123,77 @@ import { JsonSchema, PrismaModel } from "../types";
  *   }
  * };
  *
- * await backfillService.backfillCollection(userModel, userSchema);
+ * const result = await backfillService.backfillCollection(userModel, userSchema);
  * // Will update all User documents missing 'status' or 'createdAt' fields
  * ```
  */
-export class MongoBackfillService {
+export class MongoBackfillService extends EventEmitter<BackfillEvents> {
   /** MongoDB client instance for database operations */
   private client: MongoClient;
   /** Name of the target database */
   private dbName: string;
+  /** Write strategy used for every collection */
+  private strategy: BackfillStrategy;
+  /** Number of documents per bulkWrite batch */
+  private batchSize: number;
+  /** Whether `now()` uses the ObjectId timestamp of each document */
+  private nowFromObjectId: boolean;
+  /** Value used for `now()` defaults, shared by every collection in a run */
+  private runStartedAt = new Date();
+  /** Value used for `now()` in the current backfill, the checkpoint start when resuming */
+  private nowValue = this.runStartedAt;
+  /** Whether documents are processed in checkpointed `_id` ranges */
+  private checkpoints: boolean;
+  /** Whether to continue from saved checkpoints */
+  private resume: boolean;
+  /** Upper limit on documents updated per second */
+  private maxDocsPerSecond?: number;
+  /** Pause after every range, in milliseconds */
+  private batchPauseMs: number;
+  /** Write concern for every write */
+  private writeConcern?: WriteConcernSettings;
+  /** Whether original values are backed up before they are changed */
+  private backup: boolean;
+  /** ID of the run, names the backup collection */
+  private runId: string;
+  /** Replication lag above which the next range waits, in milliseconds */
+  private maxReplicationLagMs?: number;
+  /** Wait between replication lag checks, in milliseconds */
+  private replicationLagCheckMs: number;
+  /** Longest total wait for replication lag before one range, in milliseconds */
+  private maxReplicationWaitMs: number;
 
   /**
    * Creates a new MongoDB backfill service instance.
    *
    * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
    * @param dbName - Name of the target database to perform backfill operations on
+   * @param options - Write strategy, batch size, `now()` handling and logger
    */
-  constructor(connectionString: string, dbName: string) {
+  constructor(
+    connectionString: string,
+    dbName: string,
+    options: MongoBackfillOptions = {}
+  ) {
+    super();
     this.client = new MongoClient(connectionString);
     this.dbName = dbName;
+    this.strategy = options.strategy ?? "auto";
+    this.batchSize = options.batchSize ?? 1000;
+    this.nowFromObjectId = options.nowFromObjectId ?? false;
+    this.resume = options.resume ?? false;
+    this.checkpoints = this.resume || (options.checkpoints ?? false);
+    this.maxDocsPerSecond = options.maxDocsPerSecond;
+    this.batchPauseMs = options.batchPauseMs ?? 0;
+    this.writeConcern = options.writeConcern;
+    this.maxReplicationLagMs = options.maxReplicationLagMs;
+    this.replicationLagCheckMs = options.replicationLagCheckMs ?? 5000;
+    this.maxReplicationWaitMs = options.maxReplicationWaitMs ?? 600000;
+    this.backup = options.backup ?? false;
+    this.runId = options.runId ?? createRunId();
+
+    const logger = options.logger === undefined ? console : options.logger;
+    if (logger) this.attachLogger(logger);
   }
 
   /**
@@ -58,31 +203,26 @@ export class MongoBackfillService {
    * 1. Identifies fields in the schema that have default values
    * 2. Connects to the MongoDB database
    * 3. Locates the appropriate collection for the model
-   * 4. Iterates through all documents in the collection
-   * 5. Updates documents that are missing fields or have null/undefined values
-   * 6. Provides detailed console output with colored progress information
+   * 4. Picks a write strategy (aggregation pipeline, per-field updateMany or batched bulkWrite)
+   * 5. Updates documents that are missing fields or have null/undefined values,
+   *    including fields inside embedded objects and arrays of embedded objects
+   * 6. Emits events along the way and returns a summary of what was written
    *
    * The method is safe to run multiple times as it only updates fields that are
-   * missing, null, or undefined - it won't overwrite existing values.
+   * missing, null, or undefined - it won't overwrite existing values. Documents the
+   * server refuses to update (for example because of a validator) are reported in
+   * `errors` and the backfill carries on with the rest.
    *
    * @param model - The Prisma model definition containing field information
    * @param schema - The JSON schema containing property definitions and default values
-   * @returns Promise that resolves when the backfill operation is complete
+   * @returns The backfill result, `skipped` if there are no defaults or no collection
    *
-   * @throws Will log errors and gracefully handle collection not found scenarios
+   * @throws {BsonCoercionError} If a default does not fit its field's type, before anything is written
+   * @throws {BackfillCheckpointError} When resuming and the defaults changed since the checkpoint
+   * @throws {Error} If `maxReplicationLagMs` is set but `replSetGetStatus` cannot be run
    *
    * @example
    * ```typescript
-   * const userModel = {
-   *   name: "User",
-   *   fields: [
-   *     { name: "id", type: "String", isId: true },
-   *     { name: "status", type: "String", defaultValue: "ACTIVE" },
-   *     { name: "createdAt", type: "DateTime" }
-   *   ],
-   *   mapName: "users"
-   * };
-   *
    * const userSchema = {
    *   type: "object",
    *   properties: {
@@ -92,154 +232,1211 @@ export class MongoBackfillService {
    *   required: ["status"]
    * };
    *
-   * await backfillService.backfillCollection(userModel, userSchema);
-   *
-   * // Console output:
-   * // - Backfilling User fields {status: "ACTIVE", isVerified: false}
-   * // Backfill completed for User, fields {status: "ACTIVE", isVerified: false}, updated 150 documents
+   * const result = await backfillService.backfillCollection(userModel, userSchema);
+   * // {
+   * //   model: "User",
+   * //   collection: "users",
+   * //   status: "completed",
+   * //   strategy: "pipeline",
+   * //   fields: [{ path: "status", value: "ACTIVE" }, { path: "isVerified", value: false }],
+   * //   matchedCount: 150,
+   * //   modifiedCount: 150,
+   * //   durationMs: 84,
+   * //   errors: []
+   * // }
    * ```
    */
   async backfillCollection(
     model: PrismaModel,
     schema: JsonSchema
+  ): Promise<BackfillResult> {
+    const startedAt = Date.now();
+    const targets = this.collectDefaultTargets(schema.properties, []);
+    const result: BackfillResult = {
+      model: model.name,
+      collection: null,
+      status: "skipped",
+      fields: targets.map((target) => ({
+        path: this.formatTargetPath(target.segments),
+        value: target.value,
+      })),
+      matchedCount: 0,
+      modifiedCount: 0,
+      durationMs: 0,
+      errors: [],
+    };
+
+    if (targets.length === 0) {
+      return this.skip(result, "noDefaults", startedAt);
+    }
+
+    // Fail on defaults that don't fit their field type before anything is written
+    this.nowValue = this.runStartedAt;
+    targets.forEach((target) => this.resolveValue(target));
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName, {
+        writeConcern: this.writeConcern,
+      });
+      const collection = await findCollection(db, model);
+
+      if (!collection) {
+        return this.skip(result, "collectionNotFound", startedAt);
+      }
+
+      // Fail before writing if the lag cannot be measured, e.g. on a standalone server
+      if (this.maxReplicationLagMs !== undefined) {
+        await this.measureReplicationLag();
+      }
+
+      const checkpoint = this.resume
+        ? await this.loadCheckpoint(db, model, targets)
+        : null;
+
+      const strategy = this.resolveStrategy(targets);
+      result.collection = collection.collectionName;
+      result.strategy = strategy;
+      this.emit("start", {
+        model: model.name,
+        collection: collection.collectionName,
+        strategy,
+        fields: result.fields,
+      });
+
+      if (this.backup) {
+        result.runId = this.runId;
+        await this.recordRun(db, collection, targets, result);
+      }
+
+      if (this.checkpoints || this.isThrottled()) {
+        await this.runRanges(db, collection, targets, result, checkpoint);
+      } else {
+        await this.runStrategy(db, collection, targets, result);
+      }
+
+      if (this.backup) await this.recordRun(db, collection, targets, result);
+    } finally {
+      await this.client.close();
+    }
+
+    result.status = "completed";
+    result.durationMs = Date.now() - startedAt;
+    this.emit("complete", result);
+    return result;
+  }
+
+  /**
+   * Runs the write strategy of a backfill over all documents, or only those
+   * matching a scope.
+   *
+   * @private
+   * @param db - The database holding the backup collection
+   * @param collection - The collection to update
+   * @param targets - The defaults to apply
+   * @param result - The result to add the counts and errors to
+   * @param scope - Extra filter limiting the documents, e.g. an `_id` range
+   */
+  private async runStrategy(
+    db: Db,
+    collection: Collection,
+    targets: BackfillTarget[],
+    result: BackfillResult,
+    scope: Filter<Document> = {}
   ): Promise<void> {
-    const fieldsWithDefaults = Object.entries(schema.properties).filter(
-      ([_, property]) => property.default !== undefined
+    if (this.backup) await this.backupDocuments(collection, targets, scope);
+
+    if (result.strategy === "pipeline") {
+      await this.runPipelineUpdate(collection, targets, result, scope);
+    } else if (result.strategy === "updateMany") {
+      await this.runFieldUpdates(collection, targets, result, scope);
+    } else {
+      await this.runBulkWrite(collection, targets, result, scope);
+    }
+  }
+
+  /**
+   * Copies the current values of the top-level fields a backfill sets, for the
+   * documents about to be updated, into `_pmm_backups.<runId>`. Runs on the
+   * server with `$merge`; a document already backed up in this run keeps its
+   * first copy, and fields that don't exist are left out of the copy.
+   *
+   * @private
+   * @param collection - The collection about to be updated
+   * @param targets - The defaults to apply
+   * @param scope - Extra filter limiting the documents
+   *
+   * @example
+   * ```typescript
+   * // users document { _id: 1, address: { city: null } } becomes, in _pmm_backups.<runId>:
+   * // { _id: { collection: "users", id: 1 }, values: { address: { city: null } } }
+   * ```
+   */
+  private async backupDocuments(
+    collection: Collection,
+    targets: BackfillTarget[],
+    scope: Filter<Document>
+  ): Promise<void> {
+    const values: Document = {};
+    for (const key of this.topLevelKeys(targets)) values[key] = `$${key}`;
+
+    await collection
+      .aggregate([
+        { $match: this.withScope(this.buildMissingFilter(targets), scope) },
+        {
+          $project: {
+            _id: { collection: collection.collectionName, id: "$_id" },
+            values,
+          },
+        },
+        {
+          $merge: {
+            into: `${BACKUP_COLLECTION_PREFIX}${this.runId}`,
+            whenMatched: "keepExisting",
+            whenNotMatched: "insert",
+          },
+        },
+      ])
+      .toArray();
+  }
+
+  /**
+   * Adds or updates the model's entry in the run record in `_pmm_runs`. Called
+   * before the first write, so an interrupted run can still be rolled back,
+   * and again with the final counts.
+   *
+   * @private
+   * @param db - The database holding the runs collection
+   * @param collection - The collection being backfilled
+   * @param targets - The defaults to apply
+   * @param result - The result of the running backfill
+   */
+  private async recordRun(
+    db: Db,
+    collection: Collection,
+    targets: BackfillTarget[],
+    result: BackfillResult
+  ): Promise<void> {
+    const runs = db.collection<BackfillRun>(RUNS_COLLECTION);
+    const now = new Date();
+    const entry = {
+      model: result.model,
+      collection: collection.collectionName,
+      fields: this.topLevelKeys(targets),
+      matchedCount: result.matchedCount,
+      modifiedCount: result.modifiedCount,
+    };
+
+    const updated = await runs.updateOne(
+      { _id: this.runId, "models.collection": collection.collectionName },
+      { $set: { updatedAt: now, "models.$": { ...entry, completedAt: now } } }
+    );
+    if (updated.matchedCount > 0) return;
+
+    await runs.updateOne(
+      { _id: this.runId },
+      {
+        $setOnInsert: { startedAt: this.runStartedAt },
+        $set: { updatedAt: now },
+        $push: { models: entry },
+      },
+      { upsert: true }
     );
+  }
+
+  /**
+   * @private
+   * @param targets - The defaults to apply
+   * @returns The distinct top-level document keys the targets write to
+   */
+  private topLevelKeys(targets: BackfillTarget[]): string[] {
+    return [...new Set(targets.map((target) => target.segments[0]))];
+  }
 
-    if (fieldsWithDefaults.length === 0) {
-      console.log(
-        `\nSkipping ${chalk.bold.cyan(model.name)} - ${chalk.yellow("no default values found")}`
+  /**
+   * Backfills a collection in `_id`-ordered ranges of up to `batchSize`
+   * documents that need a default, throttling between ranges and, with
+   * `checkpoints`, saving a checkpoint after every range and deleting it after
+   * the last. An interrupted run loses at most the range it was working on,
+   * which is rewritten safely on resume because only missing values are set.
+   *
+   * @private
+   * @param db - The database holding the state collection
+   * @param collection - The collection to update
+   * @param targets - The defaults to apply
+   * @param result - The result to add the counts and errors to
+   * @param checkpoint - The checkpoint to continue from, null to start over
+   */
+  private async runRanges(
+    db: Db,
+    collection: Collection,
+    targets: BackfillTarget[],
+    result: BackfillResult,
+    checkpoint: BackfillCheckpoint | null
+  ): Promise<void> {
+    const state = db.collection<BackfillCheckpoint>(BACKFILL_STATE_COLLECTION);
+    const saved: BackfillCheckpoint = checkpoint ?? {
+      _id: result.model,
+      collection: collection.collectionName,
+      defaultsHash: this.hashTargets(targets),
+      matchedCount: 0,
+      modifiedCount: 0,
+      startedAt: this.nowValue,
+      updatedAt: new Date(),
+    };
+    let lastId = saved.lastId;
+    if (lastId !== undefined) result.resumedFrom = String(lastId);
+
+    for (;;) {
+      const rangeStartedAt = Date.now();
+      const after: Filter<Document> =
+        lastId === undefined ? {} : { _id: { $gt: lastId } };
+      const boundary = await collection
+        .find(this.withScope(this.buildMissingFilter(targets), after), {
+          projection: { _id: 1 },
+          sort: { _id: 1 },
+          skip: this.batchSize - 1,
+          limit: 1,
+        })
+        .next();
+      const range: Filter<Document> = boundary
+        ? { $and: [after, { _id: { $lte: boundary._id } }] }
+        : after;
+
+      const matchedBefore = result.matchedCount;
+      const modifiedBefore = result.modifiedCount;
+      await this.runStrategy(db, collection, targets, result, range);
+
+      lastId = boundary?._id ?? lastId;
+      saved.lastId = lastId;
+      saved.matchedCount += result.matchedCount - matchedBefore;
+      saved.modifiedCount += result.modifiedCount - modifiedBefore;
+      saved.updatedAt = new Date();
+
+      if (!boundary) {
+        // A finished backfill has nothing to resume
+        if (this.checkpoints) await state.deleteOne({ _id: saved._id });
+        return;
+      }
+      if (this.checkpoints) {
+        await state.replaceOne({ _id: saved._id }, saved, { upsert: true });
+      }
+      await this.throttle(
+        result,
+        result.modifiedCount - modifiedBefore,
+        Date.now() - rangeStartedAt
       );
-      return;
     }
+  }
 
-    const defaultsObj = fieldsWithDefaults.reduce(
-      (acc, [fieldName, property]) => {
-        acc[fieldName] = property.default;
-        return acc;
-      },
-      {} as any
+  /**
+   * @private
+   * @returns True if any throttling option is set
+   */
+  private isThrottled(): boolean {
+    return (
+      this.maxDocsPerSecond !== undefined ||
+      this.batchPauseMs > 0 ||
+      this.maxReplicationLagMs !== undefined
     );
+  }
 
-    const defaultsStr = Object.entries(defaultsObj)
-      .map(
-        ([key, value]) =>
-          `${chalk.bold(key)}: ${chalk.dim(JSON.stringify(value))}`
-      )
-      .join(", ");
+  /**
+   * Waits before the next range: long enough to stay under
+   * `maxDocsPerSecond`, then `batchPauseMs`, then for as long as replication
+   * lag is above `maxReplicationLagMs`. Every wait emits `throttle`.
+   *
+   * @private
+   * @param result - The result of the running backfill
+   * @param documentCount - Documents updated in the range just written
+   * @param elapsedMs - How long the range took
+   * @throws {Error} If replication lag stays above the limit for `maxReplicationWaitMs`
+   */
+  private async throttle(
+    result: BackfillResult,
+    documentCount: number,
+    elapsedMs: number
+  ): Promise<void> {
+    const wait = async (
+      reason: "rate" | "pause" | "replicationLag",
+      waitMs: number,
+      replicationLagMs?: number
+    ) => {
+      this.emit("throttle", {
+        model: result.model,
+        collection: result.collection ?? "",
+        reason,
+        waitMs,
+        replicationLagMs,
+      });
+      await sleep(waitMs);
+    };
+
+    if (this.maxDocsPerSecond !== undefined) {
+      const minimumMs = (documentCount / this.maxDocsPerSecond) * 1000;
+      if (minimumMs > elapsedMs) await wait("rate", minimumMs - elapsedMs);
+    }
+
+    if (this.batchPauseMs > 0) await wait("pause", this.batchPauseMs);
+
+    if (this.maxReplicationLagMs !== undefined) {
+      let waitedMs = 0;
+      for (;;) {
+        const lagMs = await this.measureReplicationLag();
+        if (lagMs <= this.maxReplicationLagMs) break;
+        if (waitedMs >= this.maxReplicationWaitMs) {
+          throw new Error(
+            `Replication lag of ${lagMs}ms stayed above ${this.maxReplicationLagMs}ms for ${waitedMs}ms, stopping the backfill of ${result.model}`
+          );
+        }
+        await wait("replicationLag", this.replicationLagCheckMs, lagMs);
+        waitedMs += this.replicationLagCheckMs;
+      }
+    }
+  }
+
+  /**
+   * Measures how far the slowest healthy secondary is behind the primary.
+   * Hidden and delayed members are left out: a delayed member lags on
+   * purpose, and neither serves reads.
+   *
+   * @private
+   * @returns The lag in milliseconds, 0 without secondaries
+   * @throws {Error} If `replSetGetStatus` or `replSetGetConfig` fails, e.g. on a standalone server or without the `clusterMonitor` role
+   */
+  private async measureReplicationLag(): Promise<number> {
+    const admin = this.client.db("admin");
+    const run = async (command: string): Promise<Document> => {
+      try {
+        return await admin.command({ [command]: 1 });
+      } catch (error) {
+        throw new Error(
+          `Cannot check replication lag with ${command}: ${(error as Error).message}`
+        );
+      }
+    };
+    const status = await run("replSetGetStatus");
+    const config = await run("replSetGetConfig");
 
-    console.log(
-      `\n- Backfilling ${chalk.bold.cyan(model.name)} fields {${defaultsStr}}`
+    // slaveDelay is the name before MongoDB 5.0
+    const ignored = new Set(
+      ((config.config?.members ?? []) as Document[])
+        .filter(
+          (member) =>
+            member.hidden ||
+            (member.secondaryDelaySecs ?? member.slaveDelay ?? 0) > 0
+        )
+        .map((member) => member._id)
     );
 
+    const members: Document[] = status.members ?? [];
+    const primary = members.find((member) => member.state === 1);
+    const secondaries = members.filter(
+      (member) => member.state === 2 && !ignored.has(member._id)
+    );
+    if (!primary || secondaries.length === 0) return 0;
+
+    const slowest = Math.min(
+      ...secondaries.map((member) => member.optimeDate.getTime())
+    );
+    return Math.max(0, primary.optimeDate.getTime() - slowest);
+  }
+
+  /**
+   * Loads the checkpoint of a model and makes `now()` defaults use the time the
+   * interrupted backfill started, so every document gets the same value.
+   *
+   * @private
+   * @param db - The database holding the state collection
+   * @param model - The model being backfilled
+   * @param targets - The defaults to apply
+   * @returns The checkpoint, or null if the model has none
+   * @throws {BackfillCheckpointError} If the defaults changed since the checkpoint
+   */
+  private async loadCheckpoint(
+    db: Db,
+    model: PrismaModel,
+    targets: BackfillTarget[]
+  ): Promise<BackfillCheckpoint | null> {
+    const checkpoint = await db
+      .collection<BackfillCheckpoint>(BACKFILL_STATE_COLLECTION)
+      .findOne({ _id: model.name });
+    if (!checkpoint) return null;
+
+    if (checkpoint.defaultsHash !== this.hashTargets(targets)) {
+      throw new BackfillCheckpointError(model.name);
+    }
+    this.nowValue = checkpoint.startedAt;
+    return checkpoint;
+  }
+
+  /**
+   * @private
+   * @param targets - The defaults to apply
+   * @returns SHA-256 of the target paths, values and BSON types
+   */
+  private hashTargets(targets: BackfillTarget[]): string {
+    return createHash("sha256")
+      .update(
+        JSON.stringify(
+          targets.map(({ segments, value, bsonType }) => [
+            segments,
+            value,
+            bsonType ?? null,
+          ])
+        )
+      )
+      .digest("hex");
+  }
+
+  /**
+   * @private
+   * @param filter - A query filter
+   * @param scope - Extra conditions, may be empty
+   * @returns The filter limited to the scope
+   */
+  private withScope(
+    filter: Filter<Document>,
+    scope: Filter<Document>
+  ): Filter<Document> {
+    return Object.keys(scope).length > 0 ? { $and: [filter, scope] } : filter;
+  }
+
+  /**
+   * Works out what a backfill would change without writing anything.
+   *
+   * For every default value (including those inside embedded documents) this
+   * counts the documents where the field is missing or null with `countDocuments`
+   * and collects a few sample `_id`s. The model total is the number of documents
+   * missing at least one default, which is what {@link backfillCollection} would update.
+   *
+   * @param model - The Prisma model definition
+   * @param schema - The JSON schema containing default values
+   * @param sampleSize - How many `_id`s to sample per field
+   * @returns The impact report for the model
+   *
+   * @example
+   * ```typescript
+   * const report = await backfillService.countBackfillImpact(userModel, userSchema);
+   * // {
+   * //   model: "User",
+   * //   collection: "users",
+   * //   documentCount: 150,
+   * //   fields: [
+   * //     { path: "status", value: "ACTIVE", documentCount: 150, sampleIds: ["65f...", ...] }
+   * //   ]
+   * // }
+   * ```
+   */
+  async countBackfillImpact(
+    model: PrismaModel,
+    schema: JsonSchema,
+    sampleSize = 3
+  ): Promise<BackfillImpactReport> {
+    const targets = this.collectDefaultTargets(schema.properties, []);
+    const report: BackfillImpactReport = {
+      model: model.name,
+      collection: null,
+      documentCount: 0,
+      fields: [],
+    };
+
+    if (targets.length === 0) return report;
+    targets.forEach((target) => this.resolveValue(target));
+
     await this.client.connect();
-    const db = this.client.db(this.dbName);
-    const collection = await this.getCollection(db, model);
+    try {
+      const db = this.client.db(this.dbName);
+      const collection = await findCollection(db, model);
+      if (!collection) {
+        report.fields = targets.map((target) => ({
+          path: this.formatTargetPath(target.segments),
+          value: target.value,
+          documentCount: 0,
+          sampleIds: [],
+        }));
+        return report;
+      }
 
-    if (!collection) {
-      console.log(
-        `${chalk.red("Collection not found")} for model: ${chalk.bold(model.name)}`
+      report.collection = collection.collectionName;
+      report.documentCount = await collection.countDocuments(
+        this.buildMissingFilter(targets)
       );
+
+      for (const target of targets) {
+        const filter = this.buildTargetFilter(target.segments);
+        const documentCount = await collection.countDocuments(filter);
+        const samples =
+          documentCount > 0 && sampleSize > 0
+            ? await collection
+                .find(filter, { projection: { _id: 1 }, limit: sampleSize })
+                .toArray()
+            : [];
+
+        report.fields.push({
+          path: this.formatTargetPath(target.segments),
+          value: target.value,
+          documentCount,
+          sampleIds: samples.map((doc) => String(doc._id)),
+        });
+      }
+    } finally {
       await this.client.close();
-      return;
     }
 
-    const cursor = collection.find();
-    let updatedCount = 0;
+    return report;
+  }
+
+  /**
+   * Chooses the write strategy for a set of targets. The aggregation pipeline can
+   * only express top-level defaults, so embedded targets always use bulkWrite
+   * unless per-field updateMany was requested explicitly. Defaults that need a
+   * value per document (`uuid()`, `cuid()`, `nanoid()`, `auto()`) always use bulkWrite.
+   *
+   * @private
+   * @param targets - The defaults to apply
+   * @returns The strategy to run
+   */
+  private resolveStrategy(
+    targets: BackfillTarget[]
+  ): Exclude<BackfillStrategy, "auto"> {
+    const onlyTopLevel = targets.every(
+      (target) => target.segments.length === 1
+    );
+    const perDocument = targets.some(
+      (target) =>
+        isUniqueValueDefault(target.value) ||
+        (this.nowFromObjectId &&
+          this.isNowDefault(target.value) &&
+          target.segments.length > 1)
+    );
+
+    if (perDocument || this.strategy === "bulkWrite") return "bulkWrite";
+    if (this.strategy === "updateMany") {
+      return this.nowFromObjectId && this.hasNowDefault(targets)
+        ? "bulkWrite"
+        : "updateMany";
+    }
+
+    return onlyTopLevel ? "pipeline" : "bulkWrite";
+  }
+
+  /**
+   * Applies top-level defaults with a single aggregation-pipeline `updateMany`,
+   * using `$ifNull` so existing values are kept. With `nowFromObjectId`, `now()`
+   * defaults are computed on the server with `$toDate: "$_id"`.
+   *
+   * @private
+   * @param collection - The collection to update
+   * @param targets - Top-level defaults to apply
+   * @param result - The result to add the counts and errors to
+   * @param scope - Extra filter limiting the documents
+   *
+   * @example
+   * ```typescript
+   * // For defaults { status: "ACTIVE", score: 0 } this sends:
+   * // updateMany(
+   * //   { $or: [{ status: null }, { score: null }] },
+   * //   [{ $set: { status: { $ifNull: ["$status", { $literal: "ACTIVE" }] }, score: { ... } } }]
+   * // )
+   * ```
+   */
+  private async runPipelineUpdate(
+    collection: Collection,
+    targets: BackfillTarget[],
+    result: BackfillResult,
+    scope: Filter<Document>
+  ): Promise<void> {
+    const set: Document = {};
+    for (const target of targets) {
+      const [fieldName] = target.segments;
+      const value =
+        this.nowFromObjectId && this.isNowDefault(target.value)
+          ? {
+              $cond: [
+                { $eq: [{ $type: "$_id" }, "objectId"] },
+                { $toDate: "$_id" },
+                this.nowValue,
+              ],
+            }
+          : { $literal: this.resolveValue(target) };
+      set[fieldName] = { $ifNull: [`$${fieldName}`, value] };
+    }
+
+    try {
+      const update = await collection.updateMany(
+        this.withScope(this.buildMissingFilter(targets), scope),
+        [{ $set: set }]
+      );
+      result.matchedCount += update.matchedCount;
+      result.modifiedCount += update.modifiedCount;
+    } catch (error) {
+      this.recordWriteError(error, result);
+    }
+    this.emitProgress(result);
+  }
+
+  /**
+   * Applies each default with its own `updateMany`, filtered on documents where
+   * the field is missing or null. The number of updated documents is counted
+   * up front because a document can be touched by several of the updates.
+   *
+   * @private
+   * @param collection - The collection to update
+   * @param targets - The defaults to apply
+   * @param result - The result to add the counts and errors to
+   * @param scope - Extra filter limiting the documents
+   */
+  private async runFieldUpdates(
+    collection: Collection,
+    targets: BackfillTarget[],
+    result: BackfillResult,
+    scope: Filter<Document>
+  ): Promise<void> {
+    const missingCount = await collection.countDocuments(
+      this.withScope(this.buildMissingFilter(targets), scope)
+    );
+    result.matchedCount += missingCount;
+
+    for (const target of targets) {
+      const updatePath = this.buildUpdatePath(target.segments, "el");
+      try {
+        await collection.updateMany(
+          this.withScope(this.buildTargetFilter(target.segments), scope),
+          { $set: { [updatePath.path]: this.resolveValue(target) } },
+          updatePath.arrayFilters.length > 0
+            ? { arrayFilters: updatePath.arrayFilters }
+            : {}
+        );
+      } catch (error) {
+        this.recordWriteError(error, result);
+      }
+      this.emitProgress(result);
+    }
+
+    // A document can be touched by several updates, so count documents instead
+    const remainingCount = await collection.countDocuments(
+      this.withScope(this.buildMissingFilter(targets), scope)
+    );
+    result.modifiedCount += missingCount - remainingCount;
+  }
+
+  /**
+   * Visits only the documents missing a default and sends per-document updates
+   * in batches of `batchSize` with unordered `bulkWrite` calls. Generated values
+   * inside arrays are set per element by index so each element gets its own value.
+   *
+   * @private
+   * @param collection - The collection to update
+   * @param targets - The defaults to apply
+   * @param result - The result to add the counts and errors to
+   * @param scope - Extra filter limiting the documents
+   */
+  private async runBulkWrite(
+    collection: Collection,
+    targets: BackfillTarget[],
+    result: BackfillResult,
+    scope: Filter<Document>
+  ): Promise<void> {
+    const projection: Document = {};
+    for (const target of targets) {
+      projection[target.segments[0]] = 1;
+    }
+
+    const cursor = collection.find(
+      this.withScope(this.buildMissingFilter(targets), scope),
+      {
+        projection,
+        batchSize: this.batchSize,
+      }
+    );
+    let operations: AnyBulkWriteOperation[] = [];
+
+    const flush = async () => {
+      if (operations.length === 0) return;
+      try {
+        const write = await collection.bulkWrite(operations, {
+          ordered: false,
+        });
+        result.matchedCount += write.matchedCount;
+        result.modifiedCount += write.modifiedCount;
+      } catch (error) {
+        // Unordered writes keep going past failed documents
+        if (error instanceof MongoBulkWriteError) {
+          result.matchedCount += error.result.matchedCount;
+          result.modifiedCount += error.result.modifiedCount;
+        }
+        this.recordWriteError(error, result);
+      }
+      operations = [];
+      this.emitProgress(result);
+    };
+
+    for await (const doc of cursor) {
+      const update: Document = {};
+      const arrayFilters: Document[] = [];
 
-    while (await cursor.hasNext()) {
-      const doc = await cursor.next();
-      if (!doc) continue;
+      targets.forEach((target, index) => {
+        if (!this.isMissingAt(doc, target.segments)) return;
 
-      const update: any = {};
-      for (const [fieldName, property] of Object.entries(schema.properties)) {
         if (
-          property.default !== undefined &&
-          (!doc.hasOwnProperty(fieldName) ||
-            doc[fieldName] === null ||
-            doc[fieldName] === undefined)
+          isUniqueValueDefault(target.value) &&
+          target.segments.includes("[]")
         ) {
-          update[fieldName] = property.default;
+          for (const path of this.findMissingPaths(doc, target.segments)) {
+            update[path] = this.resolveValue(target, doc);
+          }
+          return;
         }
+
+        const updatePath = this.buildUpdatePath(target.segments, `el${index}`);
+        update[updatePath.path] = this.resolveValue(target, doc);
+        arrayFilters.push(...updatePath.arrayFilters);
+      });
+
+      if (Object.keys(update).length === 0) continue;
+
+      operations.push({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: { $set: update },
+          ...(arrayFilters.length > 0 ? { arrayFilters } : {}),
+        },
+      });
+
+      if (operations.length >= this.batchSize) await flush();
+    }
+
+    await flush();
+  }
+
+  /**
+   * Adds a server write error to the result and emits `writeError`. Errors that
+   * are not write errors, such as lost connections, are rethrown.
+   *
+   * @private
+   * @param error - The caught error
+   * @param result - The result of the running backfill
+   * @throws The error itself if it is not a `MongoServerError`
+   */
+  private recordWriteError(error: unknown, result: BackfillResult): void {
+    if (!(error instanceof MongoServerError)) throw error;
+
+    const writeErrors =
+      error instanceof MongoBulkWriteError
+        ? [error.writeErrors].flat().map((writeError) => ({
+            message: writeError.errmsg ?? error.message,
+            documentId: writeError.getOperation()?.q?._id?.toString(),
+          }))
+        : [{ message: error.message }];
+
+    for (const writeError of writeErrors) {
+      result.errors.push(writeError);
+      this.emit("writeError", {
+        model: result.model,
+        collection: result.collection ?? "",
+        ...writeError,
+      });
+    }
+  }
+
+  /**
+   * Emits the running totals of a backfill.
+   *
+   * @private
+   * @param result - The result of the running backfill
+   */
+  private emitProgress(result: BackfillResult): void {
+    if (!result.collection || !result.strategy) return;
+    this.emit("progress", {
+      model: result.model,
+      collection: result.collection,
+      strategy: result.strategy,
+      matchedCount: result.matchedCount,
+      modifiedCount: result.modifiedCount,
+    });
+  }
+
+  /**
+   * Marks a backfill as skipped and emits `skip`.
+   *
+   * @private
+   * @param result - The result of the skipped backfill
+   * @param reason - Why nothing was written
+   * @param startedAt - When the backfill started, in milliseconds
+   * @returns The result
+   */
+  private skip(
+    result: BackfillResult,
+    reason: BackfillSkipReason,
+    startedAt: number
+  ): BackfillResult {
+    result.skipReason = reason;
+    result.durationMs = Date.now() - startedAt;
+    this.emit("skip", { model: result.model, reason });
+    return result;
+  }
+
+  /**
+   * Writes plain-text messages for the backfill events to a logger.
+   *
+   * @private
+   * @param logger - Where the messages go
+   *
+   * @example
+   * ```typescript
+   * // - Backfilling User fields {status: "ACTIVE", isVerified: false}
+   * // Backfill completed for User, fields {status: "ACTIVE", isVerified: false}, updated 150 documents
+   * ```
+   */
+  private attachLogger(logger: Logger): void {
+    const formatFields = (fields: BackfillField[]) =>
+      fields
+        .map((field) => `${field.path}: ${formatDefault(field.value)}`)
+        .join(", ");
+
+    this.on("skip", (event) => {
+      if (event.reason === "noDefaults") {
+        logger.info(`Skipping ${event.model} - no default values found`);
+      } else {
+        logger.warn(`Collection not found for model: ${event.model}`);
       }
+    });
+    this.on("start", (event) => {
+      logger.info(
+        `- Backfilling ${event.model} fields {${formatFields(event.fields)}}`
+      );
+    });
+    this.on("throttle", (event) => {
+      if (event.reason !== "replicationLag") return;
+      logger.warn(
+        `Replication lag ${event.replicationLagMs}ms, waiting ${event.waitMs}ms before the next batch of ${event.model}`
+      );
+    });
+    this.on("writeError", (event) => {
+      logger.warn(
+        `Write error in ${event.collection}${event.documentId ? ` (_id ${event.documentId})` : ""}: ${event.message}`
+      );
+    });
+    this.on("complete", (result) => {
+      logger.info(
+        `Backfill completed for ${result.model}, fields {${formatFields(result.fields)}}, updated ${result.modifiedCount} documents`
+      );
+    });
+  }
+
+  /**
+   * Builds a filter matching documents that are missing at least one of the defaults.
+   *
+   * @private
+   * @param targets - The defaults to check
+   * @returns A `$or` filter over every target filter
+   */
+  private buildMissingFilter(targets: BackfillTarget[]): Filter<Document> {
+    return {
+      $or: targets.map((target) => this.buildTargetFilter(target.segments)),
+    };
+  }
 
-      if (Object.keys(update).length > 0) {
-        await collection.updateOne({ _id: doc._id }, { $set: update });
-        updatedCount++;
+  /**
+   * Builds a filter matching documents where the value at a target path is
+   * missing or null. A `null` equality match covers both `$exists: false` and
+   * explicit nulls, embedded objects must exist, and arrays of embedded
+   * documents are matched with `$elemMatch`.
+   *
+   * @private
+   * @param segments - The target path segments
+   * @returns The query filter
+   *
+   * @example
+   * ```typescript
+   * buildTargetFilter(["status"]);
+   * // { status: null }
+   *
+   * buildTargetFilter(["address", "city"]);
+   * // { address: { $type: "object" }, "address.city": null }
+   *
+   * buildTargetFilter(["items", "[]", "qty"]);
+   * // { items: { $elemMatch: { qty: null } } }
+   * ```
+   */
+  private buildTargetFilter(segments: string[]): Filter<Document> {
+    const groups = this.splitAtArrays(segments);
+
+    const buildMatch = (remaining: string[][]): Document => {
+      const [group, ...rest] = remaining;
+      const filter: Document = {};
+
+      for (let i = 1; i < group.length; i++) {
+        filter[group.slice(0, i).join(".")] = { $type: "object" };
+      }
+      filter[group.join(".")] =
+        rest.length === 0 ? null : { $elemMatch: buildMatch(rest) };
+
+      return filter;
+    };
+
+    return buildMatch(groups);
+  }
+
+  /**
+   * Collects every default value in a JSON schema, descending into embedded
+   * objects and arrays of embedded objects.
+   *
+   * @private
+   * @param properties - The properties of the (embedded) object schema
+   * @param prefix - Path segments leading to these properties
+   * @returns One target per field with a default value
+   *
+   * @example
+   * ```typescript
+   * // properties: { status: { default: "ACTIVE" }, items: { type: "array", items: { properties: { qty: { default: 1 } } } } }
+   * // Returns: [
+   * //   { segments: ["status"], value: "ACTIVE" },
+   * //   { segments: ["items", "[]", "qty"], value: 1 }
+   * // ]
+   *
+   * // properties: { createdAt: { "x-defaultFunction": { kind: "function", name: "now", args: [] } } }
+   * // Returns: [{ segments: ["createdAt"], value: { kind: "function", name: "now", args: [] } }]
+   * ```
+   */
+  private collectDefaultTargets(
+    properties: { [key: string]: JsonSchemaProperty },
+    prefix: string[]
+  ): BackfillTarget[] {
+    const targets: BackfillTarget[] = [];
+
+    for (const [fieldName, property] of Object.entries(properties)) {
+      // Write to the database key of mapped fields
+      const segments = [...prefix, property["x-mapName"] ?? fieldName];
+
+      const bsonType = property["x-bsonType"];
+      const defaultFunction = property["x-defaultFunction"];
+      if (property.default !== undefined) {
+        targets.push({ segments, value: property.default, bsonType });
+      } else if (defaultFunction && isGeneratedDefault(defaultFunction)) {
+        targets.push({ segments, value: defaultFunction, bsonType });
+      }
+
+      if (property.properties) {
+        targets.push(
+          ...this.collectDefaultTargets(property.properties, segments)
+        );
+      }
+
+      if (property.items?.properties) {
+        targets.push(
+          ...this.collectDefaultTargets(property.items.properties, [
+            ...segments,
+            "[]",
+          ])
+        );
       }
     }
 
-    await this.client.close();
+    return targets;
+  }
 
-    console.log(
-      `Backfill ${chalk.green("completed")} for ${chalk.bold.cyan(model.name)}, fields {${defaultsStr}}, updated ${chalk.bold.green(updatedCount)} documents`
-    );
+  /**
+   * Checks whether a document is missing the value at a target path. Embedded
+   * objects that are themselves missing or null are left alone, so optional
+   * composite fields are never created just to hold a default.
+   *
+   * @private
+   * @param value - The document or embedded value to inspect
+   * @param segments - Remaining path segments
+   * @returns True if at least one location along the path needs the default
+   */
+  private isMissingAt(value: unknown, segments: string[]): boolean {
+    const [head, ...rest] = segments;
+
+    if (head === "[]") {
+      return (
+        Array.isArray(value) &&
+        value.some((item) => this.isMissingAt(item, rest))
+      );
+    }
+
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      return false;
+    }
+
+    const nested = (value as Document)[head];
+    if (rest.length === 0) return nested === null || nested === undefined;
+
+    return this.isMissingAt(nested, rest);
   }
 
   /**
-   * Intelligently locates a MongoDB collection based on a Prisma model.
+   * Resolves the value to write for a default and converts it to the field's
+   * BSON type. `now()` is the run start (or the document's ObjectId timestamp
+   * with `nowFromObjectId`) and other function defaults are generated fresh.
    *
-   * This method attempts to find the correct collection using multiple naming strategies:
-   * 1. Exact model name or mapped name (if specified in @@map directive)
-   * 2. Lowercase version of the name
-   * 3. Pluralized version of the name
-   * 4. Pluralized lowercase version
-   * 5. Kebab-case version of the name
-   * 6. Pluralized kebab-case version
+   * @private
+   * @param target - The default to apply
+   * @param doc - The document being updated, if known
+   * @returns The BSON value to store
+   * @throws {BsonCoercionError} If the default does not fit the field's type
+   */
+  private resolveValue(target: BackfillTarget, doc?: Document): unknown {
+    const { value } = target;
+    let resolved: unknown = value;
+
+    if (this.isNowDefault(value)) {
+      resolved =
+        this.nowFromObjectId && doc?._id instanceof ObjectId
+          ? doc._id.getTimestamp()
+          : this.nowValue;
+    } else if (isFunctionDefault(value)) {
+      resolved = generateUniqueValue(value);
+    }
+
+    return coerceBsonValue(resolved, target.bsonType);
+  }
+
+  /**
+   * @private
+   * @param value - A literal or function default
+   * @returns True for `now()` defaults
+   */
+  private isNowDefault(value: unknown): boolean {
+    return isFunctionDefault(value) && value.name === "now";
+  }
+
+  /**
+   * @private
+   * @param targets - The defaults to apply
+   * @returns True if any target is a `now()` default
+   */
+  private hasNowDefault(targets: BackfillTarget[]): boolean {
+    return targets.some((target) => this.isNowDefault(target.value));
+  }
+
+  /**
+   * Lists the concrete dotted paths inside a document where a target value is
+   * missing, with array elements addressed by index.
    *
-   * The method tests each naming convention by attempting to access the collection's
-   * indexes, which is a lightweight way to verify the collection exists.
+   * @private
+   * @param value - The document or embedded value to inspect
+   * @param segments - Remaining path segments
+   * @param prefix - Path leading to `value`
+   * @returns The paths to set
+   *
+   * @example
+   * ```typescript
+   * // doc: { items: [{ token: "a" }, {}, { token: null }] }
+   * findMissingPaths(doc, ["items", "[]", "token"]);
+   * // ["items.1.token", "items.2.token"]
+   * ```
+   */
+  private findMissingPaths(
+    value: unknown,
+    segments: string[],
+    prefix: string[] = []
+  ): string[] {
+    const [head, ...rest] = segments;
+
+    if (head === "[]") {
+      if (!Array.isArray(value)) return [];
+      return value.flatMap((item, index) =>
+        this.findMissingPaths(item, rest, [...prefix, String(index)])
+      );
+    }
+
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      return [];
+    }
+
+    const nested = (value as Document)[head];
+    if (rest.length === 0) {
+      return nested === null || nested === undefined
+        ? [[...prefix, head].join(".")]
+        : [];
+    }
+
+    return this.findMissingPaths(nested, rest, [...prefix, head]);
+  }
+
+  /**
+   * Builds the `$set` path and array filters for a target. Arrays of embedded
+   * documents use filtered positional operators (`$[el0x0]`) so only elements
+   * missing the value are updated.
    *
    * @private
-   * @param db - The MongoDB database instance
-   * @param model - The Prisma model to find a collection for
-   * @returns Promise resolving to the MongoDB collection if found, null otherwise
+   * @param segments - The target path segments
+   * @param identifierPrefix - Prefix that keeps array filter identifiers unique per update
+   * @returns The update path and the array filters it requires
    *
    * @example
    * ```typescript
-   * // For a model named "UserProfile" with mapName "user_profiles"
-   * // Will try in order:
-   * // 1. "user_profiles" (mapName takes priority)
-   * // 2. "userprofiles" (lowercase)
-   * // 3. "user_profiless" (pluralized mapName)
-   * // 4. "UserProfiles" (pluralized original)
-   * // 5. "user-profiles" (kebab-case)
-   * // 6. "user-profiless" (pluralized kebab-case)
-   *
-   * const collection = await this.getCollection(db, model);
-   * if (collection) {
-   *   // Found the collection, can proceed with operations
-   * }
+   * buildUpdatePath(["address", "city"], "el0");
+   * // { path: "address.city", arrayFilters: [] }
+   *
+   * buildUpdatePath(["items", "[]", "qty"], "el1");
+   * // { path: "items.$[el1x0].qty", arrayFilters: [{ "el1x0.qty": null }] }
    * ```
    */
-  private async getCollection(db: Db, model: PrismaModel) {
-    // First try the mapped name if it exists
-    const collectionName = model.mapName || model.name;
-    const attempts = [
-      collectionName,
-      collectionName.toLowerCase(),
-      pluralize.plural(collectionName),
-      pluralize.plural(collectionName.toLowerCase()),
-      kebabCase(collectionName),
-      pluralize.plural(kebabCase(collectionName)),
-    ];
-
-    // Remove duplicates
-    const uniqueAttempts = [...new Set(attempts)];
-
-    for (const attempt of uniqueAttempts) {
-      try {
-        const collection = db.collection(attempt);
-        const stats = await collection.indexes();
-        if (stats) {
-          return collection;
-        }
-      } catch {
-        continue;
+  private buildUpdatePath(
+    segments: string[],
+    identifierPrefix: string
+  ): { path: string; arrayFilters: Document[] } {
+    const groups = this.splitAtArrays(segments);
+
+    const pathParts = [groups[0].join(".")];
+    const arrayFilters: Document[] = [];
+
+    for (let depth = 1; depth < groups.length; depth++) {
+      const identifier = `${identifierPrefix}x${depth - 1}`;
+      const group = groups[depth];
+      const isLeaf = depth === groups.length - 1;
+      const filter: Document = {};
+
+      // Intermediate embedded objects must exist for the value to be set
+      for (let i = 1; i < group.length; i++) {
+        filter[`${identifier}.${group.slice(0, i).join(".")}`] = {
+          $type: "object",
+        };
       }
+      filter[`${identifier}.${group.join(".")}`] = isLeaf
+        ? null
+        : { $type: "array" };
+
+      pathParts.push(`$[${identifier}]`, group.join("."));
+      arrayFilters.push(filter);
+    }
+
+    return { path: pathParts.join("."), arrayFilters };
+  }
+
+  /**
+   * Splits target path segments at every array step.
+   *
+   * @private
+   * @param segments - The target path segments
+   * @returns The object paths between array steps
+   *
+   * @example
+   * ```typescript
+   * splitAtArrays(["items", "[]", "dims", "w"]); // [["items"], ["dims", "w"]]
+   * ```
+   */
+  private splitAtArrays(segments: string[]): string[][] {
+    const groups: string[][] = [[]];
+    for (const segment of segments) {
+      if (segment === "[]") groups.push([]);
+      else groups[groups.length - 1].push(segment);
     }
+    return groups;
+  }
 
-    return null;
+  /**
+   * Formats target path segments for display, e.g. `items[].qty`.
+   *
+   * @private
+   * @param segments - The target path segments
+   * @returns The readable path
+   */
+  private formatTargetPath(segments: string[]): string {
+    return segments.join(".").replace(/\.\[\]/g, "[]");
   }
 }
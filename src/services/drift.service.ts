@@ -0,0 +1,174 @@
+import { MongoClient } from "mongodb";
+import {
+  DriftOptions,
+  DriftUnknownField,
+  ModelDrift,
+  PrismaModel,
+  PrismaSchema,
+} from "../types";
+import { findCollection, getFieldKey } from "../utils/collection";
+
+/**
+ * Compares the top-level keys stored in each collection with the fields of
+ * its model.
+ *
+ * Keys are counted on the server by unwinding `$objectToArray` of every
+ * document, or of a `$sample` when a limit is given. Keys no field maps to
+ * are unknown fields, usually left behind by older app versions; fields whose
+ * key no document holds are missing fields. Relation fields are ignored
+ * because they are not stored. Collections that no model maps to are listed
+ * by {@link DriftService.findUnmappedCollections}.
+ *
+ * @example
+ * ```typescript
+ * const driftService = new DriftService("mongodb://localhost:27017", "myapp", schema);
+ * const drift = await driftService.checkModel(userModel, { limit: 10000 });
+ *
+ * // {
+ * //   model: "User",
+ * //   collection: "users",
+ * //   scannedCount: 10000,
+ * //   unknownFields: [{ key: "legacyPlan", count: 412, sampleIds: ["65f...", ...] }],
+ * //   missingFields: [{ field: "nickname", key: "nick_name" }]
+ * // }
+ * ```
+ */
+export class DriftService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+  /** The parsed Prisma schema */
+  private schema: PrismaSchema;
+
+  /**
+   * Creates a new drift service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the database to check
+   * @param schema - The parsed Prisma schema
+   */
+  constructor(connectionString: string, dbName: string, schema: PrismaSchema) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+    this.schema = schema;
+  }
+
+  /**
+   * Counts the stored keys of a model's collection and compares them with the
+   * model's fields.
+   *
+   * @param model - The Prisma model
+   * @param options - Sampling settings
+   * @returns The unknown and missing fields, most frequent unknown fields first
+   */
+  async checkModel(
+    model: PrismaModel,
+    options: DriftOptions = {}
+  ): Promise<ModelDrift> {
+    const drift: ModelDrift = {
+      model: model.name,
+      collection: null,
+      scannedCount: 0,
+      unknownFields: [],
+      missingFields: [],
+    };
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const collection = await findCollection(db, model);
+      if (!collection) return drift;
+
+      drift.collection = collection.collectionName;
+      const [counts] = await collection
+        .aggregate<{
+          scanned: { count: number }[];
+          keys: { _id: string; count: number }[];
+        }>([
+          ...(options.limit !== undefined
+            ? [{ $sample: { size: options.limit } }]
+            : []),
+          {
+            $facet: {
+              scanned: [{ $count: "count" }],
+              keys: [
+                { $project: { keys: { $objectToArray: "$$ROOT" } } },
+                { $unwind: "$keys" },
+                { $group: { _id: "$keys.k", count: { $sum: 1 } } },
+              ],
+            },
+          },
+        ])
+        .toArray();
+      drift.scannedCount = counts.scanned[0]?.count ?? 0;
+
+      const storedFields = model.fields.filter((field) => !field.relation);
+      const schemaKeys = new Set(storedFields.map((f) => getFieldKey(f)));
+      const storedKeys = new Set(counts.keys.map((key) => key._id));
+
+      for (const key of counts.keys) {
+        if (schemaKeys.has(key._id)) continue;
+        const unknown: DriftUnknownField = {
+          key: key._id,
+          count: key.count,
+          sampleIds: [],
+        };
+        // Keys containing dots cannot be queried as a path
+        if (!key._id.includes(".") && (options.sampleSize ?? 3) > 0) {
+          const samples = await collection
+            .find({ [key._id]: { $exists: true } })
+            .project({ _id: 1 })
+            .limit(options.sampleSize ?? 3)
+            .toArray();
+          unknown.sampleIds = samples.map((doc) => String(doc._id));
+        }
+        drift.unknownFields.push(unknown);
+      }
+      drift.unknownFields.sort((a, b) => b.count - a.count);
+
+      if (drift.scannedCount > 0) {
+        drift.missingFields = storedFields
+          .filter((field) => !storedKeys.has(getFieldKey(field)))
+          .map((field) => ({ field: field.name, key: getFieldKey(field) }));
+      }
+    } finally {
+      await this.client.close();
+    }
+
+    return drift;
+  }
+
+  /**
+   * Lists the collections that no model of the schema maps to, leaving out
+   * `system.*` collections and the `_pmm_*` collections of this tool.
+   *
+   * @returns The collection names, sorted
+   */
+  async findUnmappedCollections(): Promise<string[]> {
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const mapped = new Set<string>();
+      for (const model of this.schema.models) {
+        const collection = await findCollection(db, model);
+        if (collection) mapped.add(collection.collectionName);
+      }
+
+      const collections = await db
+        .listCollections({ type: "collection" }, { nameOnly: true })
+        .toArray();
+      return collections
+        .map((collection) => collection.name)
+        .filter(
+          (name) =>
+            !mapped.has(name) &&
+            !name.startsWith("system.") &&
+            !name.startsWith("_pmm_")
+        )
+        .sort();
+    } finally {
+      await this.client.close();
+    }
+  }
+}
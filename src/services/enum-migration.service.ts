@@ -0,0 +1,367 @@
+import { Collection, Document, MongoClient } from "mongodb";
+import {
+  EnumFieldMigration,
+  EnumMigrationOptions,
+  EnumMigrationResult,
+  EnumValueMapping,
+  PrismaField,
+  PrismaSchema,
+} from "../types";
+import { MigrationError } from "../errors/migration.error";
+import {
+  findCollection,
+  getEnumValueKey,
+  getFieldKey,
+  toEnumValueKey,
+} from "../utils/collection";
+
+/**
+ * A field somewhere in a model that holds values of the migrated enum.
+ * `segments` is the stored path, where `"[]"` steps into array elements.
+ */
+interface EnumUsage {
+  field: PrismaField;
+  segments: string[];
+}
+
+/**
+ * Rewrites stored enum values after values were renamed, split or removed,
+ * so documents holding old values don't make Prisma throw on read.
+ *
+ * Every field using the enum is migrated, in every model, including list
+ * fields and fields inside embedded composite types. Each mapped value is
+ * rewritten with its own update, so a mapping whose target is itself
+ * rewritten (a chain like `A → B, B → C` or a swap) is refused: documents
+ * would end up with the wrong value. Values are compared and
+ * written as they are stored, i.e. by their `@map` name where one is given;
+ * mapping targets may name the enum value either way. Before anything is
+ * written, each field is checked for stored values that are neither valid
+ * enum values nor in the mapping; if there are any, the migration is refused
+ * so no document is left with a value Prisma cannot read.
+ *
+ * @example
+ * ```typescript
+ * const enumService = new EnumMigrationService("mongodb://localhost:27017", "myapp", schema);
+ * const result = await enumService.migrateEnum("OrderStatus", {
+ *   PENDING: "PENDING_REVIEW",
+ *   LEGACY: null, // the field's @default
+ * });
+ *
+ * // { enum: "OrderStatus", refused: false, fields: [
+ * //   { model: "Order", collection: "orders", path: "status",
+ * //     updates: [{ from: "PENDING", to: "PENDING_REVIEW", documentCount: 42 }, ...], unmapped: [] }
+ * // ] }
+ * ```
+ */
+export class EnumMigrationService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+  /** The parsed (new) Prisma schema */
+  private schema: PrismaSchema;
+
+  /**
+   * Creates a new enum migration service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the target database
+   * @param schema - The parsed Prisma schema holding the new enum values
+   */
+  constructor(connectionString: string, dbName: string, schema: PrismaSchema) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+    this.schema = schema;
+  }
+
+  /**
+   * Rewrites old values of an enum in every field that uses it.
+   *
+   * @param enumName - Name of the enum in the schema
+   * @param mapping - Old stored value to new value; `null` stands for the field
+   *   default, and removes the value from list fields
+   * @param options - Set `dryRun` to only count what would change
+   * @returns Per-field summary, with `refused` set if unmapped values were found
+   * @throws {MigrationError} If the enum doesn't exist, a mapping target is not
+   *   an enum value or is rewritten itself, or a value is mapped to the default
+   *   of a field without one
+   */
+  async migrateEnum(
+    enumName: string,
+    mapping: EnumValueMapping,
+    options: EnumMigrationOptions = {}
+  ): Promise<EnumMigrationResult> {
+    const enumDef = this.schema.enums.find((e) => e.name === enumName);
+    if (!enumDef) {
+      throw new MigrationError(`Enum "${enumName}" not found in the schema`);
+    }
+
+    const storedValues = enumDef.values.map(getEnumValueKey);
+    for (const [from, to] of Object.entries(mapping)) {
+      if (to !== null && !storedValues.includes(toEnumValueKey(enumDef, to))) {
+        throw new MigrationError(
+          `Cannot map "${from}" to "${to}": not a value of enum ${enumName}`
+        );
+      }
+    }
+
+    const result: EnumMigrationResult = {
+      enum: enumName,
+      fields: [],
+      refused: false,
+    };
+    const known = new Set([...storedValues, ...Object.keys(mapping)]);
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const pending: {
+        collection: Collection;
+        usage: EnumUsage;
+        migration: EnumFieldMigration;
+        targets: [string, string | null][];
+      }[] = [];
+
+      // Check every field before writing anything
+      for (const model of this.schema.models) {
+        const usages = this.findUsages(model.fields, enumName, [], []);
+        if (usages.length === 0) continue;
+
+        const collection = await findCollection(db, model);
+        for (const usage of usages) {
+          const migration: EnumFieldMigration = {
+            model: model.name,
+            collection: collection?.collectionName ?? null,
+            path: usage.segments.join(".").replace(/\.\[\]/g, "[]"),
+            updates: [],
+            unmapped: [],
+          };
+          result.fields.push(migration);
+          if (!collection) continue;
+
+          // null removes list elements, and is the field default otherwise
+          const isListElement =
+            usage.segments[usage.segments.length - 1] === "[]";
+          const targets = Object.entries(mapping).map(
+            ([from, to]): [string, string | null] => {
+              const target =
+                to ??
+                (isListElement
+                  ? null
+                  : this.resolveDefault(usage.field, migration));
+              return [from, target && toEnumValueKey(enumDef, target)];
+            }
+          );
+          this.assertNoChains(targets, migration);
+
+          const queryPath = this.queryPath(usage.segments);
+          const stored = await collection.distinct(queryPath);
+          for (const value of stored) {
+            if (value === null || known.has(value)) continue;
+            migration.unmapped.push({
+              value,
+              documentCount: await collection.countDocuments({
+                [queryPath]: value,
+              }),
+            });
+          }
+
+          pending.push({ collection, usage, migration, targets });
+        }
+      }
+
+      if (result.fields.some((field) => field.unmapped.length > 0)) {
+        result.refused = true;
+        return result;
+      }
+
+      for (const { collection, usage, migration, targets } of pending) {
+        for (const [from, to] of targets) {
+          if (from === to) continue;
+
+          migration.updates.push({
+            from,
+            to,
+            documentCount: await this.rewriteValue(
+              collection,
+              usage.segments,
+              from,
+              to,
+              options.dryRun ?? false
+            ),
+          });
+        }
+      }
+    } finally {
+      await this.client.close();
+    }
+
+    return result;
+  }
+
+  /**
+   * Replaces one stored value. Scalars are set directly, values inside arrays
+   * use a filtered positional operator so only matching elements change, and
+   * list elements mapped to `null` are pulled from their list.
+   *
+   * @private
+   * @param collection - The model's collection
+   * @param segments - Stored path of the field
+   * @param from - The old value
+   * @param to - The new value
+   * @param dryRun - Only count matching documents
+   * @returns Number of documents updated (or matching, in a dry run)
+   *
+   * @example
+   * ```typescript
+   * // ["tags", "[]"]              → $set "tags.$[value]" with arrayFilters [{ value: "OLD" }]
+   * // ["items", "[]", "status"]   → $set "items.$[value].status" with arrayFilters [{ "value.status": "OLD" }]
+   * // ["tags", "[]"], to null     → $pull { tags: "OLD" }
+   * ```
+   */
+  private async rewriteValue(
+    collection: Collection,
+    segments: string[],
+    from: string,
+    to: string | null,
+    dryRun: boolean
+  ): Promise<number> {
+    const filter = { [this.queryPath(segments)]: from };
+    if (dryRun) return collection.countDocuments(filter);
+
+    const last = segments.lastIndexOf("[]");
+    if (last === -1) {
+      const update = await collection.updateMany(filter, {
+        $set: { [segments.join(".")]: to },
+      });
+      return update.modifiedCount;
+    }
+
+    if (to === null && last === segments.length - 1) {
+      const listPath = segments
+        .slice(0, -1)
+        .map((segment) => (segment === "[]" ? "$[]" : segment))
+        .join(".");
+      const pull: Document = { [listPath]: from };
+      const update = await collection.updateMany(filter, { $pull: pull });
+      return update.modifiedCount;
+    }
+
+    // Earlier arrays are traversed with $[], the last one is filtered
+    const path = segments
+      .map((segment, index) =>
+        segment !== "[]" ? segment : index === last ? "$[value]" : "$[]"
+      )
+      .join(".");
+    const rest = segments.slice(last + 1).join(".");
+    const arrayFilter: Document = { [rest ? `value.${rest}` : "value"]: from };
+
+    const update = await collection.updateMany(
+      filter,
+      { $set: { [path]: to } },
+      { arrayFilters: [arrayFilter] }
+    );
+    return update.modifiedCount;
+  }
+
+  /**
+   * Refuses mappings that would rewrite a value twice. Values are rewritten
+   * one after the other, so with `A → B, B → C` documents holding `A` would
+   * end up with `C`, and with a swap every document would hold the same value.
+   *
+   * @private
+   * @param targets - Old stored value and resolved new value of the field
+   * @param migration - The field summary, for error messages
+   * @throws {MigrationError} If a new value is also an old value that changes
+   */
+  private assertNoChains(
+    targets: [string, string | null][],
+    migration: EnumFieldMigration
+  ): void {
+    const rewritten = new Set(
+      targets.filter(([from, to]) => from !== to).map(([from]) => from)
+    );
+
+    for (const [from, to] of targets) {
+      if (from !== to && to !== null && rewritten.has(to)) {
+        throw new MigrationError(
+          `Cannot map "${from}" to "${to}" in ${migration.model}.${migration.path}: "${to}" is rewritten too, migrate in two runs instead`
+        );
+      }
+    }
+  }
+
+  /**
+   * Collects every stored path holding values of the enum, descending into
+   * composite types.
+   *
+   * @private
+   * @param fields - Fields of the model or composite type
+   * @param enumName - The enum being migrated
+   * @param prefix - Stored path leading to these fields
+   * @param typeStack - Composite types currently being expanded, to stop on recursive types
+   * @returns The enum usages
+   */
+  private findUsages(
+    fields: PrismaField[],
+    enumName: string,
+    prefix: string[],
+    typeStack: string[]
+  ): EnumUsage[] {
+    const usages: EnumUsage[] = [];
+
+    for (const field of fields) {
+      const segments = [...prefix, getFieldKey(field)];
+      if (field.isArray) segments.push("[]");
+
+      if (field.type === enumName) {
+        usages.push({ field, segments });
+        continue;
+      }
+
+      const compositeType = this.schema.types.find(
+        (t) => t.name === field.type
+      );
+      if (compositeType && !typeStack.includes(compositeType.name)) {
+        usages.push(
+          ...this.findUsages(compositeType.fields, enumName, segments, [
+            ...typeStack,
+            compositeType.name,
+          ])
+        );
+      }
+    }
+
+    return usages;
+  }
+
+  /**
+   * Resolves the value a `null` mapping stands for.
+   *
+   * @private
+   * @param field - The enum field
+   * @param migration - The field summary, for error messages
+   * @returns The field's `@default`, or null for optional fields without one
+   * @throws {MigrationError} If a required field has no default
+   */
+  private resolveDefault(
+    field: PrismaField,
+    migration: EnumFieldMigration
+  ): string | null {
+    if (typeof field.defaultValue === "string") return field.defaultValue;
+    if (field.isOptional) return null;
+
+    throw new MigrationError(
+      `${migration.model}.${migration.path} has no @default to map removed values to`
+    );
+  }
+
+  /**
+   * @private
+   * @param segments - Stored path segments
+   * @returns The dotted query path, which matches array elements implicitly
+   */
+  private queryPath(segments: string[]): string {
+    return segments.filter((segment) => segment !== "[]").join(".");
+  }
+}
@@ -0,0 +1,151 @@
+import { MongoClient } from "mongodb";
+import { FieldRenameOptions, FieldRenameResult, PrismaModel } from "../types";
+import { MigrationError } from "../errors/migration.error";
+import { findCollection } from "../utils/collection";
+
+/**
+ * Renames a field in every document of a model's collection with a single
+ * server-side `$rename`, e.g. after `fullName` became `name` or a field's
+ * `@map` changed.
+ *
+ * Documents that already hold the new key are conflicts. By default the
+ * rename is refused when there are any, so no value is silently overwritten;
+ * they can instead be skipped or overwritten explicitly.
+ *
+ * @example
+ * ```typescript
+ * const renameService = new FieldRenameService("mongodb://localhost:27017", "myapp");
+ * const result = await renameService.renameField(userModel, "fullName", "name", { onConflict: "skip" });
+ *
+ * // { model: "User", collection: "users", from: "fullName", to: "name", matchedCount: 150,
+ * //   conflictCount: 2, conflictSampleIds: ["65f...", "65f..."], renamedCount: 148, aborted: false }
+ * ```
+ */
+export class FieldRenameService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+
+  /**
+   * Creates a new field rename service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the target database
+   */
+  constructor(connectionString: string, dbName: string) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+  }
+
+  /**
+   * Renames a stored key in a model's collection.
+   *
+   * @param model - The Prisma model
+   * @param from - The old database key (may be a dotted path into embedded documents)
+   * @param to - The new database key
+   * @param options - Conflict handling and dry-run settings
+   * @returns Counts of matched, conflicting and renamed documents
+   * @throws {MigrationError} If the keys cannot be renamed with `$rename`
+   */
+  async renameField(
+    model: PrismaModel,
+    from: string,
+    to: string,
+    options: FieldRenameOptions = {}
+  ): Promise<FieldRenameResult> {
+    this.validateKeys(from, to);
+
+    const onConflict = options.onConflict ?? "abort";
+    const result: FieldRenameResult = {
+      model: model.name,
+      collection: null,
+      from,
+      to,
+      matchedCount: 0,
+      conflictCount: 0,
+      conflictSampleIds: [],
+      renamedCount: 0,
+      aborted: false,
+    };
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const collection = await findCollection(db, model);
+      if (!collection) return result;
+
+      result.collection = collection.collectionName;
+      result.matchedCount = await collection.countDocuments({
+        [from]: { $exists: true },
+      });
+
+      const conflictFilter = {
+        [from]: { $exists: true },
+        [to]: { $exists: true },
+      };
+      result.conflictCount = await collection.countDocuments(conflictFilter);
+      if (result.conflictCount > 0) {
+        const samples = await collection
+          .find(conflictFilter, {
+            projection: { _id: 1 },
+            limit: options.sampleSize ?? 3,
+          })
+          .toArray();
+        result.conflictSampleIds = samples.map((doc) => String(doc._id));
+      }
+
+      if (result.conflictCount > 0 && onConflict === "abort") {
+        result.aborted = true;
+        return result;
+      }
+
+      const filter =
+        onConflict === "overwrite"
+          ? { [from]: { $exists: true } }
+          : { [from]: { $exists: true }, [to]: { $exists: false } };
+
+      if (options.dryRun) {
+        result.renamedCount = await collection.countDocuments(filter);
+      } else {
+        const update = await collection.updateMany(filter, {
+          $rename: { [from]: to },
+        });
+        result.renamedCount = update.modifiedCount;
+      }
+    } finally {
+      await this.client.close();
+    }
+
+    return result;
+  }
+
+  /**
+   * Rejects renames that `$rename` cannot perform.
+   *
+   * @private
+   * @param from - The old database key
+   * @param to - The new database key
+   * @throws {MigrationError} For identical keys, `_id`, operators or nested paths of each other
+   */
+  private validateKeys(from: string, to: string): void {
+    if (from === to) {
+      throw new MigrationError(`Cannot rename "${from}" to itself`);
+    }
+
+    for (const key of [from, to]) {
+      if (key === "_id" || key.startsWith("_id.")) {
+        throw new MigrationError("The _id field cannot be renamed");
+      }
+      if (key === "" || key.startsWith("$") || key.split(".").includes("")) {
+        throw new MigrationError(`Invalid field name "${key}"`);
+      }
+    }
+
+    if (to.startsWith(`${from}.`) || from.startsWith(`${to}.`)) {
+      throw new MigrationError(
+        `Cannot rename "${from}" to "${to}" because one contains the other`
+      );
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import { Collection, Db, MongoClient } from "mongodb";
+import {
+  IndexConflict,
+  IndexSpec,
+  IndexSyncOptions,
+  IndexSyncResult,
+  PrismaIndex,
+  PrismaModel,
+} from "../types";
+import { findCollection, getFieldKey } from "../utils/collection";
+
+/**
+ * Keeps MongoDB indexes in sync with the `@unique`, `@@index`, `@@unique` and
+ * `@@id` attributes of the Prisma schema.
+ *
+ * Declared indexes are compared with `collection.indexes()` by key and
+ * uniqueness. Missing indexes are created using the `map:` name or Prisma's
+ * naming convention (`User_email_key`, `Post_authorId_idx`), and indexes that
+ * no longer match the schema can optionally be dropped. Before a unique index
+ * is created the collection is checked for duplicate values, so a deploy never
+ * fails halfway through an index build.
+ *
+ * @example
+ * ```typescript
+ * const indexService = new IndexService("mongodb://localhost:27017", "myapp");
+ * const results = await indexService.syncIndexes(schema.models, { dryRun: true });
+ *
+ * // [{ model: "User", collection: "users", create: [{ name: "User_email_key", key: { email: 1 }, unique: true }], ... }]
+ * ```
+ */
+export class IndexService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+
+  /**
+   * Creates a new index service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the target database
+   */
+  constructor(connectionString: string, dbName: string) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+  }
+
+  /**
+   * Compares and (unless `dryRun`) synchronizes the indexes of every model.
+   *
+   * @param models - The models to synchronize
+   * @param options - Drop, dry-run and duplicate sampling settings
+   * @returns One result per model
+   */
+  async syncIndexes(
+    models: PrismaModel[],
+    options: IndexSyncOptions = {}
+  ): Promise<IndexSyncResult[]> {
+    const results: IndexSyncResult[] = [];
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      for (const model of models) {
+        results.push(await this.syncModelIndexes(db, model, options));
+      }
+    } finally {
+      await this.client.close();
+    }
+
+    return results;
+  }
+
+  /**
+   * Synchronizes the indexes of a single model.
+   *
+   * @private
+   * @param db - The MongoDB database instance
+   * @param model - The model
+   * @param options - Drop, dry-run and duplicate sampling settings
+   * @returns The sync result for the model
+   */
+  private async syncModelIndexes(
+    db: Db,
+    model: PrismaModel,
+    options: IndexSyncOptions
+  ): Promise<IndexSyncResult> {
+    const collection =
+      (await findCollection(db, model)) ??
+      db.collection(model.collection || model.mapName || model.name);
+    const existing = await this.listIndexes(collection);
+    const desired = model.indexes
+      .filter((index) => index.type !== "id")
+      .map((index) => this.toIndexSpec(model, index));
+
+    const result: IndexSyncResult = {
+      model: model.name,
+      collection: collection.collectionName,
+      create: [],
+      drop: [],
+      extra: [],
+      conflicts: [],
+    };
+
+    const matches = (a: IndexSpec, b: IndexSpec) =>
+      a.unique === b.unique && JSON.stringify(a.key) === JSON.stringify(b.key);
+
+    // Indexes in the database that the schema doesn't declare
+    for (const index of existing) {
+      if (index.name === "_id_") continue;
+      if (desired.some((spec) => matches(spec, index))) continue;
+
+      if (options.drop) result.drop.push(index.name);
+      else result.extra.push(index.name);
+    }
+
+    for (const spec of desired) {
+      if (existing.some((index) => matches(spec, index))) continue;
+
+      if (result.extra.includes(spec.name)) {
+        result.conflicts.push({
+          index: spec.name,
+          reason:
+            "an index with this name but a different definition exists, use --drop to replace it",
+        });
+        continue;
+      }
+
+      if (spec.unique) {
+        const conflict = await this.findDuplicates(
+          collection,
+          spec,
+          options.sampleSize ?? 10
+        );
+        if (conflict) {
+          result.conflicts.push(conflict);
+          continue;
+        }
+      }
+
+      result.create.push(spec);
+    }
+
+    if (!options.dryRun) {
+      for (const name of result.drop) {
+        await collection.dropIndex(name);
+      }
+      for (const spec of result.create) {
+        await collection.createIndex(spec.key, {
+          name: spec.name,
+          unique: spec.unique,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Lists the current indexes, treating a missing collection as having none.
+   *
+   * @private
+   * @param collection - The collection
+   * @returns Existing indexes in {@link IndexSpec} shape
+   */
+  private async listIndexes(collection: Collection): Promise<IndexSpec[]> {
+    try {
+      const indexes = await collection.indexes();
+      return indexes.map((index) => ({
+        name: index.name ?? "",
+        key: index.key as IndexSpec["key"],
+        unique: index.unique === true,
+      }));
+    } catch {
+      // The collection does not exist yet
+      return [];
+    }
+  }
+
+  /**
+   * Finds documents sharing the same values for the fields of a unique index.
+   * Missing fields count as `null`, as they do for MongoDB unique indexes.
+   *
+   * @private
+   * @param collection - The collection
+   * @param spec - The unique index about to be created
+   * @param sampleSize - Maximum number of duplicate groups to report
+   * @returns The conflict, or null if the values are unique
+   */
+  private async findDuplicates(
+    collection: Collection,
+    spec: IndexSpec,
+    sampleSize: number
+  ): Promise<IndexConflict | null> {
+    const groupKey: { [field: string]: string } = {};
+    for (const field of Object.keys(spec.key)) {
+      groupKey[field.replace(/\./g, "_")] = `$${field}`;
+    }
+
+    const duplicates = await collection
+      .aggregate(
+        [
+          {
+            $group: {
+              _id: groupKey,
+              count: { $sum: 1 },
+              ids: { $push: "$_id" },
+            },
+          },
+          { $match: { count: { $gt: 1 } } },
+          { $sort: { count: -1 } },
+          { $limit: sampleSize },
+          {
+            $project: {
+              count: 1,
+              ids: { $slice: ["$ids", sampleSize] },
+            },
+          },
+        ],
+        { allowDiskUse: true }
+      )
+      .toArray();
+
+    if (duplicates.length === 0) return null;
+
+    return {
+      index: spec.name,
+      reason: "duplicate values exist for a unique index",
+      duplicates: duplicates.map((group) => ({
+        value: group._id,
+        count: group.count,
+        ids: group.ids.map((id: unknown) => String(id)),
+      })),
+    };
+  }
+
+  /**
+   * Converts a Prisma index declaration into an index specification.
+   *
+   * @private
+   * @param model - The model declaring the index
+   * @param index - The declared index
+   * @returns The index name, key and uniqueness
+   *
+   * @example
+   * ```typescript
+   * // @@unique([email, tenantId]) on User
+   * // → { name: "User_email_tenantId_key", key: { email: 1, tenantId: 1 }, unique: true }
+   * ```
+   */
+  private toIndexSpec(model: PrismaModel, index: PrismaIndex): IndexSpec {
+    const key: IndexSpec["key"] = {};
+    for (const field of index.fields) {
+      const definition = model.fields.find((f) => f.name === field.name);
+      key[definition ? getFieldKey(definition) : field.name] =
+        field.sort === "Desc" ? -1 : 1;
+    }
+
+    const suffix = index.type === "unique" ? "key" : "idx";
+    return {
+      name:
+        index.mapName ??
+        `${model.name}_${index.fields.map((f) => f.name).join("_")}_${suffix}`,
+      key,
+      unique: index.type === "unique",
+    };
+  }
+}
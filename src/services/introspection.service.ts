@@ -0,0 +1,733 @@
+import { Db, Document, MongoClient, ObjectId } from "mongodb";
+import pluralize from "pluralize";
+import { camelCase, pascalCase } from "change-case-all";
+import {
+  IntrospectOptions,
+  IntrospectionConflict,
+  IntrospectionResult,
+  PrismaCompositeType,
+  PrismaEnum,
+  PrismaField,
+  PrismaModel,
+} from "../types";
+
+/** Sampled ObjectId values kept per field to find the collection they point to */
+const REFERENCE_SAMPLE_SIZE = 20;
+
+/** BSON types of numbers, which are widened to one type instead of conflicting */
+const NUMERIC_BSON_TYPES = ["int", "long", "double"];
+
+/** Prisma type and native type attribute for each stored BSON type */
+const BSON_PRISMA_TYPES: {
+  [bsonType: string]: { type: string; attribute?: string };
+} = {
+  string: { type: "String" },
+  objectId: { type: "String", attribute: "@db.ObjectId" },
+  int: { type: "Int" },
+  long: { type: "BigInt" },
+  double: { type: "Float" },
+  decimal: { type: "Decimal" },
+  bool: { type: "Boolean" },
+  date: { type: "DateTime" },
+  timestamp: { type: "DateTime", attribute: "@db.Timestamp" },
+  binData: { type: "Bytes" },
+};
+
+/** The BSON type of each of the driver's value classes */
+const BSON_CLASS_TYPES: { [className: string]: string } = {
+  Int32: "int",
+  Long: "long",
+  Double: "double",
+  Decimal128: "decimal",
+  ObjectId: "objectId",
+  Binary: "binData",
+  Timestamp: "timestamp",
+};
+
+/** Names Prisma accepts for fields and enum values */
+const IDENTIFIER = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** What was seen of one key across sampled documents or embedded documents */
+interface KeyStats {
+  /** Values seen, including nulls */
+  count: number;
+  nullCount: number;
+  /** Non-null values seen per BSON type */
+  types: Map<string, number>;
+  /** Distinct strings, collected until there are more than the enum threshold */
+  strings: Set<string>;
+  /** Keys of the embedded documents */
+  object?: ObjectStats;
+  /** Elements of the arrays */
+  elements?: KeyStats;
+  /** Distinct sampled ObjectId values */
+  objectIds: ObjectId[];
+}
+
+/** Keys of a set of documents, in the order they were first seen */
+interface ObjectStats {
+  count: number;
+  keys: Map<string, KeyStats>;
+}
+
+/** A top-level ObjectId field and the model whose `_id`s its values match */
+interface Reference {
+  model: PrismaModel;
+  field: PrismaField;
+  target: PrismaModel;
+}
+
+/**
+ * Infers a Prisma schema from the documents of existing MongoDB collections.
+ *
+ * Each collection is sampled with `$sample` and becomes a model mapped to it
+ * with `@@map`. Field types come from the stored BSON types: embedded
+ * documents become composite `type` blocks, arrays become lists, numbers mixing
+ * `int`, `long` and `double` are widened, and strings with few distinct values
+ * become enums. A field is optional unless every sampled document holds a
+ * non-null value. When a field holds several other types, the most common one
+ * is used and the conflict is returned as a comment for the field.
+ *
+ * ObjectId fields are looked up in the sampled collections: a single id whose
+ * values match the `_id`s of a collection gets a relation field and a
+ * back-relation on the referenced model; lists of ids get a comment naming the
+ * referenced model.
+ *
+ * @example
+ * ```typescript
+ * const introspectionService = new IntrospectionService("mongodb://localhost:27017", "legacy");
+ * const result = await introspectionService.introspect({ sampleSize: 500 });
+ * const source = new PrismaSchemaGenerator(result.schema).generate(result.comments);
+ *
+ * // model Post {
+ * //   id       String @id @default(auto()) @map("_id") @db.ObjectId
+ * //   // 20 of 20 sampled ids found in "users"
+ * //   authorId String @db.ObjectId
+ * //   author   User   @relation(fields: [authorId], references: [id])
+ * //   status   PostStatus
+ * //
+ * //   @@map("posts")
+ * // }
+ * ```
+ */
+export class IntrospectionService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+  /** Models inferred so far */
+  private models: PrismaModel[] = [];
+  /** Composite types inferred so far */
+  private types: PrismaCompositeType[] = [];
+  /** Enums inferred so far */
+  private enums: PrismaEnum[] = [];
+  /** Names of every model, type and enum, so new names don't collide */
+  private blockNames = new Set<string>();
+  /** Maximum distinct values of an enum, 0 to disable enums */
+  private enumThreshold = 10;
+  /** Fields with conflicting types */
+  private conflicts: IntrospectionConflict[] = [];
+  /** Comments by `Block` or `Block.field` */
+  private comments: { [path: string]: string[] } = {};
+
+  /**
+   * Creates a new introspection service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the database to introspect
+   */
+  constructor(connectionString: string, dbName: string) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+  }
+
+  /**
+   * Samples the collections and infers a schema from their documents.
+   *
+   * @param options - Sample size, enum threshold and collections
+   * @returns The inferred schema with comments and conflicts
+   */
+  async introspect(
+    options: IntrospectOptions = {}
+  ): Promise<IntrospectionResult> {
+    this.models = [];
+    this.types = [];
+    this.enums = [];
+    this.blockNames = new Set();
+    this.enumThreshold = options.enumThreshold ?? 10;
+    this.conflicts = [];
+    this.comments = {};
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const collections =
+        options.collections ??
+        (
+          await db
+            .listCollections({ type: "collection" }, { nameOnly: true })
+            .toArray()
+        )
+          .map((collection) => collection.name)
+          .filter(
+            (name) => !name.startsWith("system.") && !name.startsWith("_pmm_")
+          )
+          .sort();
+
+      // Sample first so every model name is taken before types and enums are named
+      const sampled: { model: PrismaModel; stats: ObjectStats }[] = [];
+      for (const collection of collections) {
+        const documents = await db
+          .collection(collection)
+          .aggregate([{ $sample: { size: options.sampleSize ?? 1000 } }], {
+            promoteValues: false,
+          })
+          .toArray();
+        const model: PrismaModel = {
+          name: this.uniqueName(pascalCase(pluralize.singular(collection))),
+          fields: [],
+          mapName: collection,
+          indexes: [],
+        };
+        sampled.push({ model, stats: this.collectStats(documents) });
+        this.models.push(model);
+      }
+
+      const sampledCounts: { [model: string]: number } = {};
+      const referenceValues = new Map<PrismaField, ObjectId[]>();
+      for (const { model, stats } of sampled) {
+        sampledCounts[model.name] = stats.count;
+        if (stats.count === 0) {
+          this.comment(model.name, "No documents sampled");
+        }
+        model.fields = this.inferFields(model.name, stats, true);
+
+        for (const field of model.fields) {
+          const keyStats = stats.keys.get(field.mapName ?? field.name);
+          if (field.isId || !field.attributes.includes("@db.ObjectId")) {
+            continue;
+          }
+          const values = field.isArray
+            ? keyStats?.elements?.objectIds
+            : keyStats?.objectIds;
+          if (values?.length) referenceValues.set(field, values);
+        }
+      }
+
+      await this.inferReferences(db, referenceValues);
+
+      return {
+        schema: { models: this.models, enums: this.enums, types: this.types },
+        sampledCounts,
+        conflicts: this.conflicts,
+        comments: this.comments,
+      };
+    } finally {
+      await this.client.close();
+    }
+  }
+
+  /**
+   * Collects key statistics from sampled documents.
+   *
+   * @private
+   * @param documents - Documents read with `promoteValues: false`
+   * @returns The statistics of their keys
+   */
+  private collectStats(documents: Document[]): ObjectStats {
+    const stats: ObjectStats = { count: 0, keys: new Map() };
+    for (const document of documents) this.addObject(stats, document);
+    return stats;
+  }
+
+  /**
+   * @private
+   * @param stats - Statistics of a set of documents
+   * @param document - Another document of the set
+   */
+  private addObject(stats: ObjectStats, document: Document): void {
+    stats.count++;
+    for (const [key, value] of Object.entries(document)) {
+      let keyStats = stats.keys.get(key);
+      if (!keyStats) {
+        keyStats = this.createKeyStats();
+        stats.keys.set(key, keyStats);
+      }
+      this.addValue(keyStats, value);
+    }
+  }
+
+  /**
+   * @private
+   * @param stats - Statistics of a key
+   * @param value - Another value of the key
+   */
+  private addValue(stats: KeyStats, value: unknown): void {
+    stats.count++;
+    if (value === null || value === undefined) {
+      stats.nullCount++;
+      return;
+    }
+
+    const bsonType = this.bsonTypeOf(value);
+    stats.types.set(bsonType, (stats.types.get(bsonType) ?? 0) + 1);
+
+    if (bsonType === "string" && stats.strings.size <= this.enumThreshold) {
+      stats.strings.add(value as string);
+    } else if (bsonType === "objectId") {
+      const id = value as ObjectId;
+      if (
+        stats.objectIds.length < REFERENCE_SAMPLE_SIZE &&
+        !stats.objectIds.some((other) => other.equals(id))
+      ) {
+        stats.objectIds.push(id);
+      }
+    } else if (bsonType === "object") {
+      stats.object ??= { count: 0, keys: new Map() };
+      this.addObject(stats.object, value as Document);
+    } else if (bsonType === "array") {
+      stats.elements ??= this.createKeyStats();
+      for (const element of value as unknown[]) {
+        this.addValue(stats.elements, element);
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @returns Empty key statistics
+   */
+  private createKeyStats(): KeyStats {
+    return {
+      count: 0,
+      nullCount: 0,
+      types: new Map(),
+      strings: new Set(),
+      objectIds: [],
+    };
+  }
+
+  /**
+   * Infers the fields of a model or composite type. The `_id` of a model
+   * becomes its `id` field, or a default ObjectId id is added.
+   *
+   * @private
+   * @param blockName - The model or composite type
+   * @param stats - Statistics of its documents
+   * @param isModel - True for models, whose `_id` is the ID field
+   * @returns The fields, ID first
+   */
+  private inferFields(
+    blockName: string,
+    stats: ObjectStats,
+    isModel: boolean
+  ): PrismaField[] {
+    const fields: PrismaField[] = [];
+    const idStats = isModel ? stats.keys.get("_id") : undefined;
+
+    if (isModel) {
+      const id = idStats
+        ? this.inferField(blockName, "id", "_id", idStats, stats.count)
+        : undefined;
+      // Documents always have an _id; without samples assume an ObjectId
+      const isObjectId = !id || id.attributes.includes("@db.ObjectId");
+      fields.push({
+        name: "id",
+        type: id?.type ?? "String",
+        isOptional: false,
+        isArray: false,
+        isId: true,
+        isUnique: false,
+        mapName: "_id",
+        attributes: isObjectId
+          ? ["@id", "@default(auto())", '@map("_id")', "@db.ObjectId"]
+          : ["@id", ...(id?.attributes ?? [])],
+      });
+    }
+
+    for (const [key, keyStats] of stats.keys) {
+      if (keyStats === idStats) continue;
+      const name = this.uniqueFieldName(fields, this.fieldName(key));
+      fields.push(this.inferField(blockName, name, key, keyStats, stats.count));
+    }
+
+    return fields;
+  }
+
+  /**
+   * Infers one field from the statistics of its key.
+   *
+   * @private
+   * @param blockName - The model or composite type
+   * @param name - The field name
+   * @param key - The stored key
+   * @param stats - Statistics of the key
+   * @param total - Number of documents the key could appear in
+   * @returns The field
+   */
+  private inferField(
+    blockName: string,
+    name: string,
+    key: string,
+    stats: KeyStats,
+    total: number
+  ): PrismaField {
+    const field: PrismaField = {
+      name,
+      type: "Json",
+      isOptional: stats.count - stats.nullCount < total,
+      isArray: false,
+      isId: false,
+      isUnique: false,
+      mapName: name !== key ? key : undefined,
+      attributes: [],
+    };
+    const native: string[] = [];
+
+    let values = stats;
+    let bsonType = this.chooseType(blockName, name, stats);
+    if (bsonType === "array") {
+      const elementType = stats.elements
+        ? this.chooseType(blockName, name, stats.elements)
+        : undefined;
+      if (elementType && elementType !== "array") {
+        // Prisma lists cannot be optional; a missing list reads as empty
+        field.isArray = true;
+        field.isOptional = false;
+        values = stats.elements as KeyStats;
+        bsonType = elementType;
+      } else {
+        bsonType = undefined;
+        this.comment(
+          `${blockName}.${name}`,
+          elementType
+            ? "Nested arrays are typed as Json"
+            : "Only empty arrays were sampled"
+        );
+      }
+    } else if (!bsonType && stats.count > 0) {
+      this.comment(`${blockName}.${name}`, "Only null values were sampled");
+    }
+
+    if (bsonType === "object" && values.object?.keys.size) {
+      const typeName = pascalCase(
+        `${blockName} ${field.isArray ? pluralize.singular(name) : name}`
+      );
+      field.type = this.inferCompositeType(typeName, values.object);
+    } else if (bsonType === "string") {
+      field.type = this.inferEnum(blockName, name, values) ?? "String";
+    } else if (bsonType && BSON_PRISMA_TYPES[bsonType]) {
+      const { type, attribute } = BSON_PRISMA_TYPES[bsonType];
+      field.type = type;
+      if (attribute) native.push(attribute);
+    } else if (bsonType && bsonType !== "object") {
+      this.comment(`${blockName}.${name}`, `Stored as ${bsonType}`);
+    }
+
+    field.attributes = [
+      ...(field.mapName ? [`@map(${JSON.stringify(key)})`] : []),
+      ...native,
+    ];
+    return field;
+  }
+
+  /**
+   * Picks the BSON type a field is typed from: the most common one, with
+   * `int`, `long` and `double` counted together as the widest of them. Other
+   * types are recorded as a conflict.
+   *
+   * @private
+   * @param blockName - The model or composite type
+   * @param name - The field name
+   * @param stats - Statistics of the values
+   * @returns The BSON type, or undefined when only nulls were seen
+   *
+   * @example
+   * ```typescript
+   * // { int: 90, double: 10 }  → "double"
+   * // { string: 95, int: 5 }   → "string", conflict "string (95), int (5)"
+   * ```
+   */
+  private chooseType(
+    blockName: string,
+    name: string,
+    stats: KeyStats
+  ): string | undefined {
+    const counts = [...stats.types].sort((a, b) => b[1] - a[1]);
+    if (counts.length === 0) return undefined;
+
+    const widened = ["double", "long", "int"].find((type) =>
+      stats.types.has(type)
+    );
+    const groups = new Map<string, number>();
+    for (const [type, count] of counts) {
+      const group = NUMERIC_BSON_TYPES.includes(type)
+        ? (widened as string)
+        : type;
+      groups.set(group, (groups.get(group) ?? 0) + count);
+    }
+
+    const [[chosen]] = [...groups].sort((a, b) => b[1] - a[1]);
+    if (groups.size > 1) {
+      const types = counts.map(([bsonType, count]) => ({ bsonType, count }));
+      this.conflicts.push({
+        model: blockName,
+        field: name,
+        chosenBsonType: chosen,
+        types,
+      });
+      this.comment(
+        `${blockName}.${name}`,
+        `Conflicting types in sample: ${types.map((type) => `${type.bsonType} (${type.count})`).join(", ")}`
+      );
+    }
+    return chosen;
+  }
+
+  /**
+   * Infers a composite type from the keys of embedded documents.
+   *
+   * @private
+   * @param name - Preferred type name
+   * @param stats - Statistics of the embedded documents
+   * @returns The type name
+   */
+  private inferCompositeType(name: string, stats: ObjectStats): string {
+    const type: PrismaCompositeType = {
+      name: this.uniqueName(name),
+      fields: [],
+    };
+    this.types.push(type);
+    type.fields = this.inferFields(type.name, stats, false);
+    return type.name;
+  }
+
+  /**
+   * Turns a string field into an enum when it has between two and the
+   * threshold distinct values, each seen at least twice on average and each a
+   * valid enum value. Fields with
+   * the same values share one enum.
+   *
+   * @private
+   * @param blockName - The model or composite type
+   * @param name - The field name
+   * @param stats - Statistics of the values
+   * @returns The enum name, or undefined if the field doesn't look like an enum
+   */
+  private inferEnum(
+    blockName: string,
+    name: string,
+    stats: KeyStats
+  ): string | undefined {
+    const values = [...stats.strings].sort();
+    if (
+      values.length < 2 ||
+      values.length > this.enumThreshold ||
+      (stats.types.get("string") ?? 0) < values.length * 2 ||
+      !values.every((value) => IDENTIFIER.test(value))
+    ) {
+      return undefined;
+    }
+
+    const existing = this.enums.find(
+      (prismaEnum) =>
+        prismaEnum.values.map((value) => value.name).join() === values.join()
+    );
+    if (existing) return existing.name;
+
+    const prismaEnum = {
+      name: this.uniqueName(pascalCase(`${blockName} ${name}`)),
+      values: values.map((value) => ({ name: value })),
+    };
+    this.enums.push(prismaEnum);
+    return prismaEnum.name;
+  }
+
+  /**
+   * Finds the model whose `_id`s match the sampled values of each ObjectId
+   * field. Single ids get a relation field and a back-relation; lists of ids
+   * only get a comment, because MongoDB many-to-many relations need ids on
+   * both sides.
+   *
+   * @private
+   * @param db - The database
+   * @param referenceValues - Sampled ObjectIds of each top-level ObjectId field
+   */
+  private async inferReferences(
+    db: Db,
+    referenceValues: Map<PrismaField, ObjectId[]>
+  ): Promise<void> {
+    const references: Reference[] = [];
+
+    for (const model of this.models) {
+      for (const field of model.fields) {
+        const values = referenceValues.get(field);
+        if (!values) continue;
+
+        let best: { target: PrismaModel; found: number } | undefined;
+        for (const target of this.models) {
+          const found = await db
+            .collection(target.mapName as string)
+            .countDocuments({ _id: { $in: values } });
+          if (found > (best?.found ?? 0)) best = { target, found };
+        }
+        if (!best) continue;
+
+        this.comment(
+          `${model.name}.${field.name}`,
+          field.isArray
+            ? `References ${best.target.name}: ${best.found} of ${values.length} sampled ids found in "${best.target.mapName}"`
+            : `${best.found} of ${values.length} sampled ids found in "${best.target.mapName}"`
+        );
+        if (!field.isArray) {
+          references.push({ model, field, target: best.target });
+        }
+      }
+    }
+
+    for (const reference of references) {
+      const named =
+        reference.model === reference.target ||
+        references.filter(
+          (other) =>
+            other.model === reference.model && other.target === reference.target
+        ).length > 1;
+      this.addRelation(reference, named);
+    }
+  }
+
+  /**
+   * Adds the relation field next to a foreign key, and its back-relation list
+   * to the referenced model.
+   *
+   * @private
+   * @param reference - The foreign key and the model it references
+   * @param named - Whether the relation needs a name, for self-relations and repeated pairs
+   *
+   * @example
+   * ```typescript
+   * // Post.authorId → User:
+   * //   Post: author User @relation(fields: [authorId], references: [id])
+   * //   User: posts  Post[]
+   * ```
+   */
+  private addRelation(
+    { model, field, target }: Reference,
+    named: boolean
+  ): void {
+    const stripped = field.name.replace(/_?[iI]d$/, "");
+    const name = this.uniqueFieldName(
+      model.fields,
+      stripped && stripped !== field.name ? stripped : `${field.name}Ref`
+    );
+    const relationName = named
+      ? pascalCase(`${model.name} ${name}`)
+      : undefined;
+    const references = target.fields.find((f) => f.isId)?.name ?? "id";
+
+    model.fields.splice(model.fields.indexOf(field) + 1, 0, {
+      name,
+      type: target.name,
+      isOptional: field.isOptional,
+      isArray: false,
+      isId: false,
+      isUnique: false,
+      relation: {
+        model: target.name,
+        name: relationName,
+        fields: [field.name],
+        references: [references],
+      },
+      attributes: [
+        `@relation(${relationName ? `${JSON.stringify(relationName)}, ` : ""}fields: [${field.name}], references: [${references}])`,
+      ],
+    });
+
+    const backName = camelCase(pluralize.plural(model.name));
+    target.fields.push({
+      name: this.uniqueFieldName(
+        target.fields,
+        named ? `${backName}By${pascalCase(name)}` : backName
+      ),
+      type: model.name,
+      isOptional: false,
+      isArray: true,
+      isId: false,
+      isUnique: false,
+      relation: {
+        model: model.name,
+        name: relationName,
+        fields: [],
+        references: [],
+      },
+      attributes: relationName
+        ? [`@relation(${JSON.stringify(relationName)})`]
+        : [],
+    });
+  }
+
+  /**
+   * @private
+   * @param value - A value read with `promoteValues: false`
+   * @returns Its BSON type, e.g. `string`, `int`, `objectId`, `object` or `array`
+   */
+  private bsonTypeOf(value: unknown): string {
+    if (typeof value === "string") return "string";
+    if (typeof value === "boolean") return "bool";
+    if (typeof value === "number") return "double";
+    if (value instanceof Date) return "date";
+    if (Array.isArray(value)) return "array";
+
+    const className = (value as { _bsontype?: string })._bsontype;
+    if (!className) return "object";
+    return BSON_CLASS_TYPES[className] ?? camelCase(className);
+  }
+
+  /**
+   * @private
+   * @param key - A stored key
+   * @returns A valid Prisma field name for it, e.g. `createdAt` for `created-at`
+   */
+  private fieldName(key: string): string {
+    if (IDENTIFIER.test(key)) return key;
+    const name = camelCase(key);
+    return IDENTIFIER.test(name) ? name : `field${pascalCase(name)}`;
+  }
+
+  /**
+   * @private
+   * @param fields - Fields of the block
+   * @param name - Preferred field name
+   * @returns The name, with a number appended if a field already has it
+   */
+  private uniqueFieldName(fields: PrismaField[], name: string): string {
+    let unique = name;
+    for (let n = 2; fields.some((field) => field.name === unique); n++) {
+      unique = `${name}${n}`;
+    }
+    return unique;
+  }
+
+  /**
+   * @private
+   * @param name - Preferred model, type or enum name
+   * @returns The name, with a number appended if a block already has it
+   */
+  private uniqueName(name: string): string {
+    let unique = name;
+    for (let n = 2; this.blockNames.has(unique); n++) {
+      unique = `${name}${n}`;
+    }
+    this.blockNames.add(unique);
+    return unique;
+  }
+
+  /**
+   * @private
+   * @param path - `Block` or `Block.field`
+   * @param text - The comment
+   */
+  private comment(path: string, text: string): void {
+    (this.comments[path] ??= []).push(text);
+  }
+}
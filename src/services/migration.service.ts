@@ -0,0 +1,531 @@
+import { createHash, randomUUID } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync,
+} from "fs";
+import { hostname } from "os";
+import { basename, extname, join, resolve } from "path";
+import { Collection, MongoClient, MongoServerError } from "mongodb";
+import { snakeCase } from "change-case-all";
+import {
+  MigrationContext,
+  MigrationModule,
+  MigrationRecord,
+  MigrationServiceOptions,
+  MigrationStatus,
+  PrismaSchema,
+} from "../types";
+import { MigrationError, MigrationLockError } from "../errors/migration.error";
+import { importModule } from "../utils/module";
+
+/** Collection holding applied migrations and the lock document */
+export const MIGRATIONS_COLLECTION = "_pmm_migrations";
+
+/** `_id` of the lock document inside {@link MIGRATIONS_COLLECTION} */
+const LOCK_ID = "lock";
+
+/** File extensions recognised as migrations */
+const MIGRATION_EXTENSIONS = [".ts", ".mts", ".js", ".mjs"];
+
+interface LockDocument {
+  _id: string;
+  kind: "lock";
+  owner: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+/** Documents of {@link MIGRATIONS_COLLECTION} */
+type MigrationsDocument = MigrationRecord | LockDocument;
+
+/**
+ * Manages versioned data migrations for MongoDB.
+ *
+ * Migrations are files named `<timestamp>_<name>.ts` exporting `up` and `down`
+ * functions that receive a {@link MigrationContext}. Applied migrations are
+ * recorded with a SHA-256 checksum in the `_pmm_migrations` collection, and a
+ * lock document in the same collection prevents two deploys from running
+ * migrations at the same time. The lock is renewed while migrations run, so it
+ * only expires when its holder stops without releasing it.
+ *
+ * TypeScript migration files are transpiled on the fly with the project's own
+ * `typescript` package, next to the source, so they can import installed
+ * packages and other files of the project.
+ *
+ * @example
+ * ```typescript
+ * const migrations = new MigrationService(
+ *   "mongodb://localhost:27017",
+ *   "myapp",
+ *   "prisma/migrations"
+ * );
+ *
+ * MigrationService.createMigration("prisma/migrations", "add user status");
+ * // prisma/migrations/20240101120000_add_user_status.ts
+ *
+ * const applied = await migrations.up(schema);
+ * const status = await migrations.status();
+ * ```
+ */
+export class MigrationService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+  /** Directory containing the migration files */
+  private migrationsDir: string;
+  /** How long the lock outlives its last renewal before it may be taken over */
+  private lockTimeoutMs: number;
+  /** Identifies this process in the lock document */
+  private owner = `${hostname()}:${process.pid}:${randomUUID()}`;
+
+  /**
+   * Creates a new migration service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the target database
+   * @param migrationsDir - Directory containing the migration files
+   * @param options - Lock settings
+   */
+  constructor(
+    connectionString: string,
+    dbName: string,
+    migrationsDir: string,
+    options: MigrationServiceOptions = {}
+  ) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+    this.migrationsDir = resolve(migrationsDir);
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 30 * 60 * 1000;
+  }
+
+  /**
+   * Scaffolds a new timestamped migration file with empty `up` and `down` functions.
+   *
+   * This does not touch the database, so it is static and needs no connection.
+   *
+   * @param migrationsDir - Directory containing the migration files
+   * @param name - Free-form migration name, converted to snake_case
+   * @returns The absolute path of the created file
+   *
+   * @example
+   * ```typescript
+   * MigrationService.createMigration("prisma/migrations", "Backfill order totals");
+   * // → prisma/migrations/20240101120000_backfill_order_totals.ts
+   * ```
+   */
+  static createMigration(migrationsDir: string, name: string): string {
+    const slug = snakeCase(name);
+    if (!slug) {
+      throw new MigrationError(`Invalid migration name "${name}"`);
+    }
+
+    const directory = resolve(migrationsDir);
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[-:T]/g, "")
+      .slice(0, 14);
+    const file = join(directory, `${timestamp}_${slug}.ts`);
+
+    if (!existsSync(directory)) {
+      mkdirSync(directory, { recursive: true });
+    }
+
+    writeFileSync(
+      file,
+      `import type { MigrationContext } from "prisma-mongo-migrator";
+
+export async function up({ db, schema }: MigrationContext): Promise<void> {
+  // Write your migration here, e.g.:
+  // await db.collection("users").updateMany({}, { $set: { status: "ACTIVE" } });
+}
+
+export async function down({ db, schema }: MigrationContext): Promise<void> {
+  // Revert the changes made by up()
+}
+`
+    );
+
+    return file;
+  }
+
+  /**
+   * Lists every migration file and applied record with its state.
+   *
+   * @returns Migrations sorted by name, i.e. by timestamp
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.client.connect();
+    try {
+      const records = await this.getRecords(this.getCollection());
+      return this.computeStatus(records);
+    } finally {
+      await this.client.close();
+    }
+  }
+
+  /**
+   * Applies all pending migrations in order while holding the migration lock.
+   *
+   * Refuses to run if an applied migration file was modified or deleted, since
+   * the recorded history would no longer match the code.
+   *
+   * @param schema - The parsed Prisma schema passed to each migration
+   * @returns Names of the applied migrations
+   * @throws {MigrationLockError} If another process holds the lock
+   * @throws {MigrationError} If the history does not match the files, a migration fails or the lock is lost
+   */
+  async up(schema: PrismaSchema): Promise<string[]> {
+    return this.withLock(async (collection, assertLocked) => {
+      const records = await this.getRecords(collection);
+      const statuses = this.computeStatus(records);
+
+      const drifted = statuses.filter(
+        (status) => status.state === "modified" || status.state === "missing"
+      );
+      if (drifted.length > 0) {
+        throw new MigrationError(
+          `Applied migrations no longer match their files: ${drifted
+            .map((status) => `${status.name} (${status.state})`)
+            .join(", ")}`
+        );
+      }
+
+      const applied: string[] = [];
+      for (const status of statuses) {
+        if (status.state !== "pending" || !status.file) continue;
+        assertLocked();
+
+        const migration = await this.loadMigration(status.file);
+        const startedAt = Date.now();
+
+        try {
+          await migration.up(this.createContext(schema));
+        } catch (error) {
+          throw new MigrationError(
+            `Migration ${status.name} failed: ${(error as Error).message}`
+          );
+        }
+
+        await collection.insertOne({
+          _id: status.name,
+          kind: "migration",
+          checksum: this.checksum(status.file),
+          appliedAt: new Date(),
+          durationMs: Date.now() - startedAt,
+        });
+        applied.push(status.name);
+      }
+
+      return applied;
+    });
+  }
+
+  /**
+   * Reverts the most recently applied migrations while holding the migration lock.
+   *
+   * @param schema - The parsed Prisma schema passed to each migration
+   * @param steps - How many migrations to revert, defaults to 1
+   * @returns Names of the reverted migrations, most recent first
+   * @throws {MigrationLockError} If another process holds the lock
+   * @throws {MigrationError} If `steps` is not a positive integer, a migration file is missing, has no `down` or fails, or the lock is lost
+   */
+  async down(schema: PrismaSchema, steps = 1): Promise<string[]> {
+    // slice(-0) and slice(NaN) would select every applied migration
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new MigrationError(
+        `Cannot revert ${steps} migrations: steps must be a positive integer`
+      );
+    }
+
+    return this.withLock(async (collection, assertLocked) => {
+      const records = await this.getRecords(collection);
+      const statuses = this.computeStatus(records);
+      const toRevert = records.slice(-steps).reverse();
+      const reverted: string[] = [];
+
+      for (const record of toRevert) {
+        assertLocked();
+        const status = statuses.find((s) => s.name === record._id);
+        if (!status?.file) {
+          throw new MigrationError(
+            `Cannot revert ${record._id}: migration file not found`
+          );
+        }
+
+        const migration = await this.loadMigration(status.file);
+        if (!migration.down) {
+          throw new MigrationError(
+            `Cannot revert ${record._id}: it does not export a down() function`
+          );
+        }
+
+        try {
+          await migration.down(this.createContext(schema));
+        } catch (error) {
+          throw new MigrationError(
+            `Reverting ${record._id} failed: ${(error as Error).message}`
+          );
+        }
+
+        await collection.deleteOne({ _id: record._id, kind: "migration" });
+        reverted.push(record._id);
+      }
+
+      return reverted;
+    });
+  }
+
+  /**
+   * Connects, takes the lock, runs the callback and always releases the lock
+   * and closes the connection afterwards. The lock's expiry is pushed back
+   * every third of `lockTimeoutMs` while the callback runs.
+   *
+   * If a renewal fails, another process may take the lock over, so the run
+   * must not go on: the callback gets a check to call before each migration,
+   * and the run fails even if the callback already finished.
+   *
+   * @private
+   * @param callback - Work to do while holding the lock, with a check that throws once the lock is lost
+   * @returns The callback result
+   * @throws {MigrationError} If renewing the lock failed while the callback ran
+   */
+  private async withLock<T>(
+    callback: (
+      collection: Collection<MigrationsDocument>,
+      assertLocked: () => void
+    ) => Promise<T>
+  ): Promise<T> {
+    await this.client.connect();
+    const collection = this.getCollection();
+
+    try {
+      await this.acquireLock(collection);
+      let lockError: MigrationError | undefined;
+      const assertLocked = () => {
+        if (lockError) throw lockError;
+      };
+      const renewal = setInterval(() => {
+        this.renewLock(collection).catch((error) => {
+          lockError ??= new MigrationError(
+            `Lost the migration lock: ${(error as Error).message}`
+          );
+          clearInterval(renewal);
+        });
+      }, this.lockTimeoutMs / 3);
+      try {
+        const result = await callback(collection, assertLocked);
+        assertLocked();
+        return result;
+      } finally {
+        clearInterval(renewal);
+        await collection.deleteOne({ _id: LOCK_ID, owner: this.owner });
+      }
+    } finally {
+      await this.client.close();
+    }
+  }
+
+  /**
+   * Inserts the lock document, or takes over an expired one.
+   *
+   * @private
+   * @param collection - The migrations collection
+   * @throws {MigrationLockError} If a valid lock is held by another process
+   */
+  private async acquireLock(
+    collection: Collection<MigrationsDocument>
+  ): Promise<void> {
+    const now = new Date();
+    const lock: LockDocument = {
+      _id: LOCK_ID,
+      kind: "lock",
+      owner: this.owner,
+      acquiredAt: now,
+      expiresAt: new Date(now.getTime() + this.lockTimeoutMs),
+    };
+
+    try {
+      await collection.insertOne(lock);
+      return;
+    } catch (error) {
+      if (!(error instanceof MongoServerError) || error.code !== 11000) {
+        throw error;
+      }
+    }
+
+    // A lock exists: take it over only if it has expired
+    const takenOver = await collection.findOneAndUpdate(
+      { _id: LOCK_ID, expiresAt: { $lt: now } },
+      { $set: lock }
+    );
+    if (takenOver) return;
+
+    const current = (await collection.findOne({
+      _id: LOCK_ID,
+    })) as LockDocument | null;
+    throw new MigrationLockError(
+      current?.owner ?? "unknown",
+      current?.expiresAt ?? now
+    );
+  }
+
+  /**
+   * Moves the expiry of the lock held by this process `lockTimeoutMs` ahead.
+   *
+   * @private
+   * @param collection - The migrations collection
+   * @throws {MigrationError} If this process no longer holds the lock
+   */
+  private async renewLock(
+    collection: Collection<MigrationsDocument>
+  ): Promise<void> {
+    const renewed = await collection.updateOne(
+      { _id: LOCK_ID, owner: this.owner },
+      { $set: { expiresAt: new Date(Date.now() + this.lockTimeoutMs) } }
+    );
+    if (renewed.matchedCount === 0) {
+      throw new MigrationError(
+        "it was released or taken over by another process"
+      );
+    }
+  }
+
+  /**
+   * @private
+   * @returns The `_pmm_migrations` collection
+   */
+  private getCollection(): Collection<MigrationsDocument> {
+    return this.client
+      .db(this.dbName)
+      .collection<MigrationsDocument>(MIGRATIONS_COLLECTION);
+  }
+
+  /**
+   * @private
+   * @param collection - The migrations collection
+   * @returns Applied migration records, oldest first
+   */
+  private async getRecords(
+    collection: Collection<MigrationsDocument>
+  ): Promise<MigrationRecord[]> {
+    return (await collection
+      .find({ kind: "migration" })
+      .sort({ _id: 1 })
+      .toArray()) as MigrationRecord[];
+  }
+
+  /**
+   * Matches migration files against applied records.
+   *
+   * @private
+   * @param records - Applied migration records
+   * @returns The state of every known migration, sorted by name
+   */
+  private computeStatus(records: MigrationRecord[]): MigrationStatus[] {
+    const files = this.findMigrationFiles();
+    const names = new Set([
+      ...files.keys(),
+      ...records.map((record) => record._id),
+    ]);
+
+    return [...names].sort().map((name) => {
+      const file = files.get(name) ?? null;
+      const record = records.find((r) => r._id === name);
+
+      if (!record) return { name, file, state: "pending" };
+      if (!file) {
+        return { name, file, state: "missing", appliedAt: record.appliedAt };
+      }
+
+      return {
+        name,
+        file,
+        state: this.checksum(file) === record.checksum ? "applied" : "modified",
+        appliedAt: record.appliedAt,
+      };
+    });
+  }
+
+  /**
+   * @private
+   * @returns Migration files in the migrations directory, keyed by migration name
+   */
+  private findMigrationFiles(): Map<string, string> {
+    const files = new Map<string, string>();
+    if (!existsSync(this.migrationsDir)) return files;
+
+    for (const entry of readdirSync(this.migrationsDir, {
+      withFileTypes: true,
+    })) {
+      const extension = extname(entry.name);
+      // Hidden files include TypeScript migrations being transpiled
+      if (
+        !entry.isFile() ||
+        !MIGRATION_EXTENSIONS.includes(extension) ||
+        entry.name.endsWith(".d.ts") ||
+        entry.name.startsWith(".")
+      ) {
+        continue;
+      }
+      files.set(
+        basename(entry.name, extension),
+        join(this.migrationsDir, entry.name)
+      );
+    }
+
+    return files;
+  }
+
+  /**
+   * Imports a migration file, transpiling TypeScript first.
+   *
+   * @private
+   * @param file - Absolute path of the migration file
+   * @returns The migration module
+   * @throws {MigrationError} If the file cannot be loaded or has no `up` function
+   */
+  private async loadMigration(file: string): Promise<MigrationModule> {
+    let migration: Partial<MigrationModule>;
+    try {
+      migration = await importModule(file);
+    } catch (error) {
+      throw new MigrationError(
+        `Failed to load ${basename(file)}: ${(error as Error).message}`
+      );
+    }
+
+    if (typeof migration.up !== "function") {
+      throw new MigrationError(
+        `${basename(file)} does not export an up() function`
+      );
+    }
+
+    return migration as MigrationModule;
+  }
+
+  /**
+   * @private
+   * @param schema - The parsed Prisma schema
+   * @returns The context passed to `up`/`down`
+   */
+  private createContext(schema: PrismaSchema): MigrationContext {
+    return {
+      db: this.client.db(this.dbName),
+      client: this.client,
+      schema,
+    };
+  }
+
+  /**
+   * @private
+   * @param file - Path of the migration file
+   * @returns SHA-256 hex digest of the file contents
+   */
+  private checksum(file: string): string {
+    return createHash("sha256").update(readFileSync(file)).digest("hex");
+  }
+}
@@ -0,0 +1,176 @@
+import { Document, MongoClient } from "mongodb";
+import { BackfillRun, PruneOptions, PruneResult, PrismaModel } from "../types";
+import { findCollection } from "../utils/collection";
+import {
+  BACKUP_COLLECTION_PREFIX,
+  RUNS_COLLECTION,
+  createRunId,
+} from "./backfill.service";
+
+/**
+ * Removes stored top-level keys that no longer belong to the schema with a
+ * single server-side `$unset`.
+ *
+ * Before anything is removed, the documents holding each key and the BSON
+ * size of the removed values are counted (MongoDB 4.4 or later, for
+ * `$bsonSize`). With `backup`, the values are first copied to
+ * `_pmm_backups.<runId>` and the run is recorded in `_pmm_runs` in the same
+ * format as backfill runs, so `pmm rollback <runId>` puts them back.
+ *
+ * @example
+ * ```typescript
+ * const pruneService = new PruneService("mongodb://localhost:27017", "myapp");
+ * const result = await pruneService.pruneModel(userModel, ["legacyPlan"], { backup: true });
+ *
+ * // { model: "User", collection: "users", keys: [{ key: "legacyPlan", count: 412 }],
+ * //   matchedCount: 412, modifiedCount: 412, bytes: 9476, runId: "20240315120000-9f3a" }
+ * ```
+ */
+export class PruneService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+
+  /**
+   * Creates a new prune service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the target database
+   */
+  constructor(connectionString: string, dbName: string) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+  }
+
+  /**
+   * Removes keys from every document of a model's collection.
+   *
+   * @param model - The Prisma model
+   * @param keys - Top-level stored keys to remove
+   * @param options - Dry-run and backup settings
+   * @returns Document and byte counts
+   */
+  async pruneModel(
+    model: PrismaModel,
+    keys: string[],
+    options: PruneOptions = {}
+  ): Promise<PruneResult> {
+    const result: PruneResult = {
+      model: model.name,
+      collection: null,
+      keys: keys.map((key) => ({ key, count: 0 })),
+      matchedCount: 0,
+      modifiedCount: 0,
+      bytes: 0,
+    };
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const collection = await findCollection(db, model);
+      if (!collection || keys.length === 0) {
+        result.collection = collection?.collectionName ?? null;
+        return result;
+      }
+
+      result.collection = collection.collectionName;
+      const filter = { $or: keys.map((key) => ({ [key]: { $exists: true } })) };
+      const values: Document = {};
+      const keyCounts: Document = {};
+      keys.forEach((key, i) => {
+        values[key] = `$${key}`;
+        keyCounts[`key${i}`] = {
+          $sum: { $cond: [{ $eq: [{ $type: `$${key}` }, "missing"] }, 0, 1] },
+        };
+      });
+
+      // An object of the removed keys is 5 bytes larger than the keys themselves
+      const [counts] = await collection
+        .aggregate([
+          { $match: filter },
+          {
+            $group: {
+              _id: null,
+              documents: { $sum: 1 },
+              bytes: { $sum: { $subtract: [{ $bsonSize: values }, 5] } },
+              ...keyCounts,
+            },
+          },
+        ])
+        .toArray();
+      if (!counts) return result;
+
+      result.matchedCount = counts.documents;
+      result.bytes = counts.bytes;
+      result.keys.forEach((entry, i) => (entry.count = counts[`key${i}`]));
+      if (options.dryRun) return result;
+
+      const runs = db.collection<BackfillRun>(RUNS_COLLECTION);
+      if (options.backup) {
+        result.runId = options.runId ?? createRunId();
+        await collection
+          .aggregate([
+            { $match: filter },
+            {
+              $project: {
+                _id: { collection: collection.collectionName, id: "$_id" },
+                values,
+              },
+            },
+            {
+              $merge: {
+                into: `${BACKUP_COLLECTION_PREFIX}${result.runId}`,
+                whenMatched: "keepExisting",
+                whenNotMatched: "insert",
+              },
+            },
+          ])
+          .toArray();
+
+        // Recorded before the write, so an interrupted prune can be rolled back
+        const now = new Date();
+        await runs.updateOne(
+          { _id: result.runId },
+          {
+            $setOnInsert: { startedAt: now },
+            $set: { updatedAt: now },
+            $push: {
+              models: {
+                model: model.name,
+                collection: collection.collectionName,
+                fields: keys,
+                matchedCount: result.matchedCount,
+                modifiedCount: 0,
+              },
+            },
+          },
+          { upsert: true }
+        );
+      }
+
+      const unset: Document = {};
+      for (const key of keys) unset[key] = "";
+      const update = await collection.updateMany(filter, { $unset: unset });
+      result.modifiedCount = update.modifiedCount;
+
+      if (result.runId) {
+        const now = new Date();
+        await runs.updateOne(
+          { _id: result.runId, "models.collection": collection.collectionName },
+          {
+            $set: {
+              updatedAt: now,
+              "models.$.modifiedCount": result.modifiedCount,
+              "models.$.completedAt": now,
+            },
+          }
+        );
+      }
+    } finally {
+      await this.client.close();
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,322 @@
+import {
+  AnyBulkWriteOperation,
+  Collection,
+  Document,
+  MongoClient,
+} from "mongodb";
+import {
+  PrismaField,
+  PrismaModel,
+  PrismaSchema,
+  RelationCheckOptions,
+  RelationCheckResult,
+  RelationFixAction,
+} from "../types";
+import { findCollection, getFieldKey } from "../utils/collection";
+
+/** Orphaned documents read per cursor batch and fixed per bulkWrite call */
+const FIX_BATCH_SIZE = 1000;
+
+/**
+ * Finds orphaned foreign keys: values of a relation's `fields` with no
+ * matching document in the referenced collection, for both single references
+ * (`authorId`) and list-of-ids relations (`tagIds String[]`).
+ *
+ * Orphans are found on the server with `$lookup` (MongoDB 5.0 or later). With
+ * `fix`, single references are set to null or their documents deleted,
+ * following the relation's `onDelete` (`SetNull` or `Cascade`) unless an
+ * action is given, and orphaned ids are pulled from id lists. Each fix only
+ * touches documents whose key still holds the orphaned value. Relations with
+ * several `fields` (compound foreign keys) and relations whose referenced
+ * collection cannot be found are not checked.
+ *
+ * @example
+ * ```typescript
+ * const relationService = new RelationService("mongodb://localhost:27017", "myapp", schema);
+ * const results = await relationService.checkModel(postModel, { fix: true });
+ *
+ * // [{ model: "Post", collection: "posts", field: "author", foreignKey: "authorId", isList: false,
+ * //    referencedModel: "User", referencedCollection: "users", orphanCount: 3,
+ * //    sampleIds: ["65f..."], sampleOrphans: ["65e..."], fix: { action: "setNull", modifiedCount: 3 } }]
+ * ```
+ */
+export class RelationService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+  /** Parsed Prisma schema, used to resolve referenced models */
+  private schema: PrismaSchema;
+
+  /**
+   * Creates a new relation service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the target database
+   * @param schema - The parsed Prisma schema
+   */
+  constructor(connectionString: string, dbName: string, schema: PrismaSchema) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+    this.schema = schema;
+  }
+
+  /**
+   * Checks every relation of a model that stores a foreign key.
+   *
+   * @param model - The model holding the foreign keys
+   * @param options - Fix and sample settings
+   * @returns One result per relation field with `fields`
+   */
+  async checkModel(
+    model: PrismaModel,
+    options: RelationCheckOptions = {}
+  ): Promise<RelationCheckResult[]> {
+    const results: RelationCheckResult[] = [];
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const collection = await findCollection(db, model);
+
+      for (const field of model.fields) {
+        if (field.relation?.fields.length !== 1) continue;
+        const foreignKeyField = model.fields.find(
+          (f) => f.name === field.relation?.fields[0]
+        );
+        const referencedModel = this.schema.models.find(
+          (m) => m.name === field.relation?.model
+        );
+        const referencedField = referencedModel?.fields.find(
+          (f) => f.name === field.relation?.references[0]
+        );
+        if (!foreignKeyField || !referencedModel || !referencedField) continue;
+
+        const referencedCollection = await findCollection(db, referencedModel);
+        const result: RelationCheckResult = {
+          model: model.name,
+          collection: collection?.collectionName ?? null,
+          field: field.name,
+          foreignKey: getFieldKey(foreignKeyField),
+          isList: foreignKeyField.isArray,
+          referencedModel: referencedModel.name,
+          referencedCollection: referencedCollection?.collectionName ?? null,
+          orphanCount: 0,
+          sampleIds: [],
+          sampleOrphans: [],
+        };
+        results.push(result);
+        // Without the referenced collection every key would look orphaned
+        if (!collection || !referencedCollection) continue;
+
+        const pipeline = this.buildOrphanPipeline(
+          result,
+          referencedCollection.collectionName,
+          getFieldKey(referencedField)
+        );
+        await this.countOrphans(
+          collection,
+          result,
+          pipeline,
+          options.sampleSize ?? 5
+        );
+
+        if (options.fix && result.orphanCount > 0) {
+          result.fix = await this.fixOrphans(
+            collection,
+            result,
+            pipeline,
+            foreignKeyField,
+            options.fix === true
+              ? this.actionFromOnDelete(field, foreignKeyField)
+              : options.fix
+          );
+        }
+      }
+    } finally {
+      await this.client.close();
+    }
+
+    return results;
+  }
+
+  /**
+   * Builds the aggregation returning, for each document with orphaned keys,
+   * its `_id` and the orphaned values in `orphans`.
+   *
+   * @private
+   * @param result - The relation being checked
+   * @param referencedCollection - Collection the keys point into
+   * @param referencedKey - Stored key the foreign key references, usually `_id`
+   * @returns The pipeline stages
+   *
+   * @example
+   * ```typescript
+   * // posts.tagIds → tags._id
+   * // [{ $match: { tagIds: { $type: "array", $ne: [] } } },
+   * //  { $lookup: { from: "tags", localField: "tagIds", foreignField: "_id", pipeline: [...], as: "_pmm_refs" } },
+   * //  { $project: { orphans: { $setDifference: ["$tagIds", "$_pmm_refs._id"] } } },
+   * //  { $match: { "orphans.0": { $exists: true } } }]
+   * ```
+   */
+  private buildOrphanPipeline(
+    result: RelationCheckResult,
+    referencedCollection: string,
+    referencedKey: string
+  ): Document[] {
+    const { foreignKey, isList } = result;
+    const lookup = {
+      $lookup: {
+        from: referencedCollection,
+        localField: foreignKey,
+        foreignField: referencedKey,
+        pipeline: [{ $project: { [referencedKey]: 1 } }],
+        as: "_pmm_refs",
+      },
+    };
+
+    if (!isList) {
+      return [
+        { $match: { [foreignKey]: { $ne: null } } },
+        lookup,
+        { $match: { _pmm_refs: { $size: 0 } } },
+        { $project: { orphans: [`$${foreignKey}`] } },
+      ];
+    }
+
+    return [
+      { $match: { [foreignKey]: { $type: "array", $ne: [] } } },
+      lookup,
+      {
+        $project: {
+          orphans: {
+            $setDifference: [`$${foreignKey}`, `$_pmm_refs.${referencedKey}`],
+          },
+        },
+      },
+      { $match: { "orphans.0": { $exists: true } } },
+    ];
+  }
+
+  /**
+   * Counts the documents with orphaned keys and collects samples.
+   *
+   * @private
+   * @param collection - The collection holding the foreign keys
+   * @param result - The result to fill in
+   * @param pipeline - The orphan pipeline
+   * @param sampleSize - How many samples to collect
+   */
+  private async countOrphans(
+    collection: Collection,
+    result: RelationCheckResult,
+    pipeline: Document[],
+    sampleSize: number
+  ): Promise<void> {
+    const [count] = await collection
+      .aggregate([...pipeline, { $count: "orphanCount" }])
+      .toArray();
+    result.orphanCount = count?.orphanCount ?? 0;
+    if (result.orphanCount === 0 || sampleSize <= 0) return;
+
+    const samples = await collection
+      .aggregate([...pipeline, { $limit: sampleSize }])
+      .toArray();
+    result.sampleIds = samples.map((doc) => String(doc._id));
+    result.sampleOrphans = [
+      ...new Set(samples.flatMap((doc) => doc.orphans.map(String))),
+    ].slice(0, sampleSize) as string[];
+  }
+
+  /**
+   * Picks the fix for a single reference from the relation's `onDelete`. An
+   * optional relation without `onDelete` defaults to `SetNull`, like Prisma.
+   *
+   * @private
+   * @param field - The relation field
+   * @param foreignKeyField - The field holding the foreign key
+   * @returns The action, or the reason no fix applies
+   */
+  private actionFromOnDelete(
+    field: PrismaField,
+    foreignKeyField: PrismaField
+  ): RelationFixAction | { skipped: string } {
+    const onDelete = field.relation?.onDelete;
+    if (onDelete === "Cascade") return "delete";
+    if (onDelete === "SetNull") return "setNull";
+    if (!onDelete && foreignKeyField.isOptional) return "setNull";
+    return {
+      skipped: onDelete
+        ? `onDelete: ${onDelete} has no fix`
+        : "required relation without onDelete",
+    };
+  }
+
+  /**
+   * Fixes the documents returned by the orphan pipeline. Id lists always have
+   * the orphaned ids pulled; single references are set to null or deleted.
+   * Documents are read and written `FIX_BATCH_SIZE` at a time.
+   *
+   * @private
+   * @param collection - The collection holding the foreign keys
+   * @param result - The relation being fixed
+   * @param pipeline - The orphan pipeline
+   * @param foreignKeyField - The field holding the foreign key
+   * @param action - The fix to apply, or the reason to skip
+   * @returns What was done
+   */
+  private async fixOrphans(
+    collection: Collection,
+    result: RelationCheckResult,
+    pipeline: Document[],
+    foreignKeyField: PrismaField,
+    action: RelationFixAction | { skipped: string }
+  ): Promise<NonNullable<RelationCheckResult["fix"]>> {
+    const { foreignKey, isList } = result;
+    const applied = isList ? "pull" : action;
+    if (typeof applied === "object") return applied;
+    if (applied === "setNull" && !foreignKeyField.isOptional) {
+      return { skipped: `${foreignKeyField.name} is required` };
+    }
+
+    let operations: AnyBulkWriteOperation[] = [];
+    let modifiedCount = 0;
+
+    const flush = async () => {
+      if (operations.length === 0) return;
+      const write = await collection.bulkWrite(operations, { ordered: false });
+      modifiedCount += write.modifiedCount + write.deletedCount;
+      operations = [];
+    };
+
+    // Every write only applies while the orphan is still stored, so a
+    // document the cursor returns again after its fix is left alone
+    const orphans = collection.aggregate(pipeline, {
+      batchSize: FIX_BATCH_SIZE,
+    });
+    for await (const doc of orphans) {
+      const [orphan] = doc.orphans;
+      if (applied === "pull") {
+        const pull: Document = { [foreignKey]: { $in: doc.orphans } };
+        operations.push({
+          updateOne: { filter: { _id: doc._id }, update: { $pull: pull } },
+        });
+      } else if (applied === "setNull") {
+        operations.push({
+          updateOne: {
+            filter: { _id: doc._id, [foreignKey]: orphan },
+            update: { $set: { [foreignKey]: null } },
+          },
+        });
+      } else {
+        operations.push({
+          deleteOne: { filter: { _id: doc._id, [foreignKey]: orphan } },
+        });
+      }
+      if (operations.length >= FIX_BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    return { action: applied, modifiedCount };
+  }
+}
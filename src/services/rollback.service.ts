@@ -0,0 +1,175 @@
+import { AnyBulkWriteOperation, Document, MongoClient } from "mongodb";
+import { BackfillRun, RollbackOptions, RollbackResult } from "../types";
+import { MigrationError } from "../errors/migration.error";
+import { BACKUP_COLLECTION_PREFIX, RUNS_COLLECTION } from "./backfill.service";
+
+/** Documents restored per bulkWrite call */
+const ROLLBACK_BATCH_SIZE = 1000;
+
+/**
+ * Lists backed-up backfill runs and restores the documents of a run from its
+ * backup collection.
+ *
+ * A backfill run with `backup` enabled copies the original values of every
+ * top-level field it is about to set into `_pmm_backups.<runId>`. Rolling the
+ * run back puts those values back exactly: fields that held a value (including
+ * `null`) get it again, and fields that didn't exist are unset. Changes made
+ * to the same fields after the backfill are overwritten, so a run that was
+ * already rolled back is refused unless `force` is set.
+ *
+ * @example
+ * ```typescript
+ * const rollbackService = new RollbackService("mongodb://localhost:27017", "myapp");
+ * const [latest] = await rollbackService.listRuns();
+ * const result = await rollbackService.rollback(latest._id);
+ *
+ * // { runId: "20240315120000-9f3a", collections: [{ model: "User", collection: "users", restoredCount: 150 }] }
+ * ```
+ */
+export class RollbackService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+
+  /**
+   * Creates a new rollback service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the target database
+   */
+  constructor(connectionString: string, dbName: string) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+  }
+
+  /**
+   * Lists the recorded backfill runs.
+   *
+   * @returns The runs, newest first
+   */
+  async listRuns(): Promise<BackfillRun[]> {
+    await this.client.connect();
+    try {
+      return await this.client
+        .db(this.dbName)
+        .collection<BackfillRun>(RUNS_COLLECTION)
+        .find()
+        .sort({ startedAt: -1 })
+        .toArray();
+    } finally {
+      await this.client.close();
+    }
+  }
+
+  /**
+   * Restores the fields a backfill run changed to their original values.
+   *
+   * @param runId - ID of the run to roll back
+   * @param options - Dry-run and force settings
+   * @returns The number of restored documents per collection
+   * @throws {MigrationError} If the run is not recorded in `_pmm_runs`, or was
+   *   already rolled back and `force` is not set
+   */
+  async rollback(
+    runId: string,
+    options: RollbackOptions = {}
+  ): Promise<RollbackResult> {
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const runs = db.collection<BackfillRun>(RUNS_COLLECTION);
+      const run = await runs.findOne({ _id: runId });
+      if (!run) {
+        throw new MigrationError(`Backfill run ${runId} not found`);
+      }
+      if (run.rolledBackAt && !options.force) {
+        throw new MigrationError(
+          `Backfill run ${runId} was already rolled back at ${run.rolledBackAt.toISOString()}, use --force to roll it back again`
+        );
+      }
+
+      const backups = db.collection(`${BACKUP_COLLECTION_PREFIX}${runId}`);
+      const result: RollbackResult = { runId, collections: [] };
+
+      for (const entry of run.models) {
+        const filter = { "_id.collection": entry.collection };
+        let restoredCount = 0;
+
+        if (options.dryRun) {
+          restoredCount = await backups.countDocuments(filter);
+        } else {
+          const collection = db.collection(entry.collection);
+          let operations: AnyBulkWriteOperation[] = [];
+
+          const flush = async () => {
+            if (operations.length === 0) return;
+            const write = await collection.bulkWrite(operations, {
+              ordered: false,
+            });
+            // Documents deleted since the backfill are not restored
+            restoredCount += write.matchedCount;
+            operations = [];
+          };
+
+          for await (const backup of backups.find(filter)) {
+            operations.push({
+              updateOne: {
+                filter: { _id: backup._id.id },
+                update: this.buildRestoreUpdate(entry.fields, backup.values),
+              },
+            });
+            if (operations.length >= ROLLBACK_BATCH_SIZE) await flush();
+          }
+          await flush();
+        }
+
+        result.collections.push({
+          model: entry.model,
+          collection: entry.collection,
+          restoredCount,
+        });
+      }
+
+      if (!options.dryRun) {
+        await runs.updateOne(
+          { _id: runId },
+          { $set: { rolledBackAt: new Date() } }
+        );
+      }
+      return result;
+    } finally {
+      await this.client.close();
+    }
+  }
+
+  /**
+   * Builds the update restoring a document: backed-up values are set again and
+   * fields missing from the backup are unset.
+   *
+   * @private
+   * @param fields - Top-level keys the run wrote to
+   * @param values - The original values from the backup document
+   * @returns The update document
+   *
+   * @example
+   * ```typescript
+   * buildRestoreUpdate(["status", "score"], { score: null });
+   * // { $set: { score: null }, $unset: { status: "" } }
+   * ```
+   */
+  private buildRestoreUpdate(fields: string[], values: Document): Document {
+    const set: Document = {};
+    const unset: Document = {};
+
+    for (const field of fields) {
+      if (field in values) set[field] = values[field];
+      else unset[field] = "";
+    }
+
+    return {
+      ...(Object.keys(set).length > 0 ? { $set: set } : {}),
+      ...(Object.keys(unset).length > 0 ? { $unset: unset } : {}),
+    };
+  }
+}
@@ -0,0 +1,291 @@
+import {
+  PrismaCompositeType,
+  PrismaField,
+  PrismaModel,
+  PrismaSchema,
+  SchemaChange,
+  SchemaDiff,
+} from "../types";
+import { getEnumValueKey, getFieldKey } from "../utils/collection";
+
+/**
+ * Compares two parsed Prisma schemas and produces a structured migration plan.
+ *
+ * The plan lists added fields (with their defaults), removed fields, type and
+ * optionality changes, added and removed enum values, fields whose `@map`
+ * database key changed, and models whose `@@map` collection name changed.
+ * Composite types are compared like models.
+ *
+ * @example
+ * ```typescript
+ * const from = new PrismaSchemaParser(oldContent).parse();
+ * const to = new PrismaSchemaParser(newContent).parse();
+ *
+ * const diff = new SchemaDiffService(from, to).diff("HEAD~1", "prisma");
+ * // {
+ * //   from: "HEAD~1",
+ * //   to: "prisma",
+ * //   changes: [
+ * //     { kind: "fieldAdded", model: "User", field: "status", type: "Status", isOptional: false, defaultValue: "ACTIVE" },
+ * //     { kind: "collectionRenamed", model: "Post", from: "posts", to: "articles" }
+ * //   ]
+ * // }
+ * ```
+ */
+export class SchemaDiffService {
+  /** The old schema version */
+  private from: PrismaSchema;
+  /** The new schema version */
+  private to: PrismaSchema;
+
+  /**
+   * Creates a new schema diff instance.
+   *
+   * @param from - The old schema version
+   * @param to - The new schema version
+   */
+  constructor(from: PrismaSchema, to: PrismaSchema) {
+    this.from = from;
+    this.to = to;
+  }
+
+  /**
+   * Computes every change between the two schema versions.
+   *
+   * @param fromLabel - Description of the old schema source, kept in the result
+   * @param toLabel - Description of the new schema source, kept in the result
+   * @returns The schema diff
+   */
+  diff(fromLabel = "from", toLabel = "to"): SchemaDiff {
+    return {
+      from: fromLabel,
+      to: toLabel,
+      changes: [
+        ...this.diffModels(this.from.models, this.to.models),
+        ...this.diffModels(this.from.types, this.to.types),
+        ...this.diffEnums(),
+      ],
+    };
+  }
+
+  /**
+   * Compares models or composite types by name.
+   *
+   * @private
+   * @param fromModels - Models or composite types of the old schema
+   * @param toModels - Models or composite types of the new schema
+   * @returns Model-level and field-level changes
+   */
+  private diffModels(
+    fromModels: (PrismaModel | PrismaCompositeType)[],
+    toModels: (PrismaModel | PrismaCompositeType)[]
+  ): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+
+    for (const toModel of toModels) {
+      const fromModel = fromModels.find((m) => m.name === toModel.name);
+
+      if (!fromModel) {
+        if (this.isModel(toModel)) {
+          changes.push({
+            kind: "modelAdded",
+            model: toModel.name,
+            collection: this.collectionName(toModel),
+          });
+        }
+        continue;
+      }
+
+      if (this.isModel(toModel)) {
+        const fromCollection = this.collectionName(fromModel);
+        const toCollection = this.collectionName(toModel);
+        if (fromCollection !== toCollection) {
+          changes.push({
+            kind: "collectionRenamed",
+            model: toModel.name,
+            from: fromCollection,
+            to: toCollection,
+          });
+        }
+      }
+
+      changes.push(...this.diffFields(toModel.name, fromModel, toModel));
+    }
+
+    for (const fromModel of fromModels) {
+      if (
+        this.isModel(fromModel) &&
+        !toModels.some((m) => m.name === fromModel.name)
+      ) {
+        changes.push({
+          kind: "modelRemoved",
+          model: fromModel.name,
+          collection: this.collectionName(fromModel),
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Compares the fields of one model or composite type.
+   *
+   * @private
+   * @param model - Name of the model or composite type
+   * @param fromModel - Old definition
+   * @param toModel - New definition
+   * @returns Field-level changes
+   */
+  private diffFields(
+    model: string,
+    fromModel: PrismaModel | PrismaCompositeType,
+    toModel: PrismaModel | PrismaCompositeType
+  ): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+
+    for (const toField of toModel.fields) {
+      const fromField = fromModel.fields.find((f) => f.name === toField.name);
+
+      if (!fromField) {
+        changes.push({
+          kind: "fieldAdded",
+          model,
+          field: toField.name,
+          type: this.formatType(toField),
+          isOptional: toField.isOptional,
+          defaultValue: toField.defaultValue,
+        });
+        continue;
+      }
+
+      const fromKey = getFieldKey(fromField);
+      const toKey = getFieldKey(toField);
+      if (fromKey !== toKey) {
+        changes.push({
+          kind: "fieldRenamed",
+          model,
+          field: toField.name,
+          from: fromKey,
+          to: toKey,
+        });
+      }
+
+      const fromType = this.formatType(fromField);
+      const toType = this.formatType(toField);
+      if (fromType !== toType) {
+        changes.push({
+          kind: "fieldTypeChanged",
+          model,
+          field: toField.name,
+          from: fromType,
+          to: toType,
+        });
+      }
+
+      if (fromField.isOptional !== toField.isOptional) {
+        changes.push({
+          kind: "fieldOptionalityChanged",
+          model,
+          field: toField.name,
+          isOptional: toField.isOptional,
+        });
+      }
+    }
+
+    for (const fromField of fromModel.fields) {
+      if (!toModel.fields.some((f) => f.name === fromField.name)) {
+        changes.push({
+          kind: "fieldRemoved",
+          model,
+          field: fromField.name,
+          type: this.formatType(fromField),
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Compares enums and their values. Values are compared as they are stored,
+   * so changing a value's `@map` shows as the old value removed and the new
+   * one added.
+   *
+   * @private
+   * @returns Enum-level and value-level changes
+   */
+  private diffEnums(): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+
+    for (const toEnum of this.to.enums) {
+      const fromEnum = this.from.enums.find((e) => e.name === toEnum.name);
+
+      if (!fromEnum) {
+        changes.push({
+          kind: "enumAdded",
+          enum: toEnum.name,
+          values: toEnum.values.map(getEnumValueKey),
+        });
+        continue;
+      }
+
+      const toValues = toEnum.values.map(getEnumValueKey);
+      const fromValues = fromEnum.values.map(getEnumValueKey);
+      for (const value of toValues) {
+        if (!fromValues.includes(value)) {
+          changes.push({ kind: "enumValueAdded", enum: toEnum.name, value });
+        }
+      }
+      for (const value of fromValues) {
+        if (!toValues.includes(value)) {
+          changes.push({ kind: "enumValueRemoved", enum: toEnum.name, value });
+        }
+      }
+    }
+
+    for (const fromEnum of this.from.enums) {
+      if (!this.to.enums.some((e) => e.name === fromEnum.name)) {
+        changes.push({
+          kind: "enumRemoved",
+          enum: fromEnum.name,
+          values: fromEnum.values.map(getEnumValueKey),
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * @private
+   * @param model - A model or composite type
+   * @returns True for models, which map to collections
+   */
+  private isModel(
+    model: PrismaModel | PrismaCompositeType
+  ): model is PrismaModel {
+    return (
+      this.from.models.includes(model as PrismaModel) ||
+      this.to.models.includes(model as PrismaModel)
+    );
+  }
+
+  /**
+   * @private
+   * @param model - The model
+   * @returns The `@@map` name, or the model name when not mapped
+   */
+  private collectionName(model: PrismaModel | PrismaCompositeType): string {
+    return ("mapName" in model && model.mapName) || model.name;
+  }
+
+  /**
+   * @private
+   * @param field - The field
+   * @returns The field type with list marker, e.g. `String[]`
+   */
+  private formatType(field: PrismaField): string {
+    return field.isArray ? `${field.type}[]` : field.type;
+  }
+}
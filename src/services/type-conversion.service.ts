@@ -0,0 +1,400 @@
+import { Collection, Document, MongoClient } from "mongodb";
+import {
+  FieldConversionResult,
+  PrismaField,
+  PrismaModel,
+  PrismaSchema,
+  TypeConversionFailure,
+  TypeConversionOptions,
+  TypeConversionResult,
+} from "../types";
+import {
+  findCollection,
+  getEnumValueKey,
+  getFieldKey,
+} from "../utils/collection";
+import { resolveBsonType } from "../utils/bson";
+
+/** Marker produced by conversion expressions when a value cannot be converted */
+const CONVERSION_FAILED = { __pmmConversionFailed: true };
+
+/** Failed documents kept per field unless `maxFailures` is given */
+const DEFAULT_MAX_FAILURES = 1000;
+
+/**
+ * Converts stored values whose BSON type no longer matches the Prisma schema,
+ * for example after a field changed from `String` to `Int` or from a scalar to
+ * a list.
+ *
+ * Every conversion runs on the server as an aggregation-pipeline `updateMany`:
+ * - numbers and strings are converted with `$convert`, and `Int`/`BigInt`
+ *   targets only accept whole numbers so no fraction is silently dropped
+ * - strings are parsed as dates for `DateTime` fields
+ * - `"true"`/`"false"` and `0`/`1` become booleans
+ * - strings must be one of the enum values for enum fields
+ * - a scalar stored in a list field is wrapped in an array, converting it too
+ *
+ * Documents whose value cannot be converted are never written; they are
+ * counted, and the first `maxFailures` per field are returned so they can be
+ * reviewed and fixed by hand.
+ *
+ * @example
+ * ```typescript
+ * const conversionService = new TypeConversionService("mongodb://localhost:27017", "myapp", schema);
+ * const result = await conversionService.convertModel(orderModel);
+ *
+ * // {
+ * //   model: "Order",
+ * //   collection: "orders",
+ * //   fields: [
+ * //     { field: "quantity", expectedType: "int", mismatchedCount: 12, convertedCount: 11, failedCount: 1, failures: [{ _id: ..., value: "two" }] }
+ * //   ]
+ * // }
+ * ```
+ */
+export class TypeConversionService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+  /** The parsed Prisma schema, used to resolve enums and relations */
+  private schema: PrismaSchema;
+
+  /**
+   * Creates a new type conversion service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the target database
+   * @param schema - The parsed Prisma schema
+   */
+  constructor(connectionString: string, dbName: string, schema: PrismaSchema) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+    this.schema = schema;
+  }
+
+  /**
+   * Finds and converts mismatched values for every convertible field of a
+   * model. IDs, relations, composite types and `Json` fields are skipped.
+   *
+   * @param model - The Prisma model
+   * @param options - Set `dryRun` to only count what would change, and
+   *   `maxFailures` to keep fewer failed documents per field
+   * @returns Per-field counts and the first documents that could not be converted
+   */
+  async convertModel(
+    model: PrismaModel,
+    options: TypeConversionOptions = {}
+  ): Promise<TypeConversionResult> {
+    const result: TypeConversionResult = {
+      model: model.name,
+      collection: null,
+      fields: [],
+    };
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+      const collection = await findCollection(db, model);
+      if (!collection) return result;
+
+      result.collection = collection.collectionName;
+      for (const field of model.fields) {
+        if (field.isId || !this.getExpectedType(field)) continue;
+        result.fields.push(await this.convertField(collection, field, options));
+      }
+    } finally {
+      await this.client.close();
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts one field: counts mismatched documents and the ones that cannot
+   * be converted, collects the first of those, then updates the rest.
+   *
+   * @private
+   * @param collection - The model's collection
+   * @param field - The field to convert
+   * @param options - Conversion options
+   * @returns The field result
+   */
+  private async convertField(
+    collection: Collection,
+    field: PrismaField,
+    options: TypeConversionOptions
+  ): Promise<FieldConversionResult> {
+    const key = getFieldKey(field);
+    const input = `$${key}`;
+    const mismatch = this.buildMismatchExpression(field, input);
+    const conversion = this.buildConversionExpression(field, input);
+    const failed = field.isArray
+      ? { $in: [{ $literal: CONVERSION_FAILED }, conversion] }
+      : { $eq: [conversion, { $literal: CONVERSION_FAILED }] };
+
+    const mismatchedCount = await collection.countDocuments({
+      $expr: mismatch,
+    });
+
+    const failedFilter = { $expr: { $and: [mismatch, failed] } };
+    const failedCount =
+      mismatchedCount > 0 ? await collection.countDocuments(failedFilter) : 0;
+
+    const failures: TypeConversionFailure[] = [];
+    if (failedCount > 0) {
+      const cursor = collection.aggregate([
+        { $match: failedFilter },
+        { $limit: options.maxFailures ?? DEFAULT_MAX_FAILURES },
+        { $project: { _id: 1, value: input } },
+      ]);
+      for await (const doc of cursor) {
+        failures.push({ _id: doc._id, value: doc.value });
+      }
+    }
+
+    let convertedCount = mismatchedCount - failedCount;
+    if (!options.dryRun && convertedCount > 0) {
+      const update = await collection.updateMany(
+        { $expr: { $and: [mismatch, { $not: [failed] }] } },
+        [{ $set: { [key]: conversion } }]
+      );
+      convertedCount = update.modifiedCount;
+    }
+
+    return {
+      field: field.name,
+      expectedType: this.formatExpectedType(field),
+      mismatchedCount,
+      convertedCount,
+      failedCount,
+      failures,
+    };
+  }
+
+  /**
+   * Builds an expression that is true when the stored value does not have the
+   * field's type. Missing and null values are never mismatches.
+   *
+   * @private
+   * @param field - The Prisma field
+   * @param input - Expression for the stored value, e.g. `"$quantity"`
+   * @returns The aggregation expression
+   */
+  private buildMismatchExpression(field: PrismaField, input: string): Document {
+    const present = {
+      $not: [{ $in: [{ $type: input }, ["missing", "null"]] }],
+    };
+
+    if (!field.isArray) {
+      return { $and: [present, this.buildValueMismatch(field, input)] };
+    }
+
+    return {
+      $and: [
+        present,
+        {
+          $or: [
+            { $not: [{ $isArray: input }] },
+            {
+              $anyElementTrue: [
+                {
+                  $map: {
+                    input,
+                    as: "item",
+                    in: this.buildValueMismatch(field, "$$item"),
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * @private
+   * @param field - The Prisma field
+   * @param input - Expression for a single value
+   * @returns An expression that is true when the value has the wrong type or is not an enum value
+   */
+  private buildValueMismatch(field: PrismaField, input: string): Document {
+    const expectedType = this.getExpectedType(field);
+    const typeMismatch = { $ne: [{ $type: input }, expectedType] };
+    const enumDef = this.schema.enums.find((e) => e.name === field.type);
+
+    return enumDef
+      ? {
+          $or: [
+            typeMismatch,
+            { $not: [{ $in: [input, enumDef.values.map(getEnumValueKey)] }] },
+          ],
+        }
+      : typeMismatch;
+  }
+
+  /**
+   * Builds the expression that converts the stored value, wrapping scalars
+   * stored in list fields in an array.
+   *
+   * @private
+   * @param field - The Prisma field
+   * @param input - Expression for the stored value
+   * @returns An expression yielding the converted value, containing
+   *   {@link CONVERSION_FAILED} wherever a value could not be converted
+   */
+  private buildConversionExpression(
+    field: PrismaField,
+    input: string
+  ): Document {
+    if (!field.isArray) return this.buildScalarConversion(field, input);
+
+    return {
+      $cond: [
+        { $isArray: input },
+        {
+          $map: {
+            input,
+            as: "item",
+            in: this.buildScalarConversion(field, "$$item"),
+          },
+        },
+        [this.buildScalarConversion(field, input)],
+      ],
+    };
+  }
+
+  /**
+   * Builds the conversion of a single value to the field's type.
+   *
+   * @private
+   * @param field - The Prisma field
+   * @param input - Expression for a single value
+   * @returns The conversion expression
+   *
+   * @example
+   * ```typescript
+   * // DateTime
+   * // → { $convert: { input: "$createdAt", to: "date", onError: <failed>, onNull: null } }
+   * ```
+   */
+  private buildScalarConversion(field: PrismaField, input: string): Document {
+    const failed = { $literal: CONVERSION_FAILED };
+    const convert = (to: string, value: unknown = input) => ({
+      $convert: { input: value, to, onError: failed, onNull: null },
+    });
+
+    const enumDef = this.schema.enums.find((e) => e.name === field.type);
+    if (enumDef) {
+      return {
+        $let: {
+          vars: { text: convert("string") },
+          in: {
+            $cond: [
+              { $in: ["$$text", enumDef.values.map(getEnumValueKey)] },
+              "$$text",
+              failed,
+            ],
+          },
+        },
+      };
+    }
+
+    const bsonType = this.getExpectedType(field);
+    switch (bsonType) {
+      case "string":
+      case "double":
+      case "decimal":
+      case "objectId":
+        return convert(bsonType);
+
+      case "int":
+      case "long":
+        // Only whole numbers, so 2.5 is reported instead of truncated to 2
+        return {
+          $let: {
+            vars: {
+              number: {
+                $convert: {
+                  input,
+                  to: "double",
+                  onError: null,
+                  onNull: null,
+                },
+              },
+            },
+            in: {
+              $cond: [
+                {
+                  $and: [
+                    { $ne: ["$$number", null] },
+                    { $eq: ["$$number", { $trunc: "$$number" }] },
+                  ],
+                },
+                convert(bsonType, "$$number"),
+                failed,
+              ],
+            },
+          },
+        };
+
+      case "date":
+        // $convert only turns longs, doubles and strings into dates
+        return convert("date", {
+          $cond: [
+            { $eq: [{ $type: input }, "int"] },
+            { $toLong: input },
+            input,
+          ],
+        });
+
+      case "bool":
+        return {
+          $switch: {
+            branches: [
+              { case: { $eq: [{ $type: input }, "bool"] }, then: input },
+              {
+                case: { $in: [input, ["true", "TRUE", "True", 1]] },
+                then: true,
+              },
+              {
+                case: { $in: [input, ["false", "FALSE", "False", 0]] },
+                then: false,
+              },
+            ],
+            default: failed,
+          },
+        };
+
+      default:
+        // binData and timestamp values cannot be produced with $convert
+        return {
+          $cond: [{ $eq: [{ $type: input }, bsonType] }, input, failed],
+        };
+    }
+  }
+
+  /**
+   * Resolves the BSON type a field's values should be stored as.
+   *
+   * @private
+   * @param field - The Prisma field
+   * @returns The BSON type (`string` for enums), or undefined for fields that are not converted
+   */
+  private getExpectedType(field: PrismaField): string | undefined {
+    if (this.schema.enums.some((e) => e.name === field.type)) return "string";
+    return resolveBsonType(field);
+  }
+
+  /**
+   * @private
+   * @param field - The Prisma field
+   * @returns The expected type for display, e.g. `int`, `date[]` or `enum Status`
+   */
+  private formatExpectedType(field: PrismaField): string {
+    const isEnum = this.schema.enums.some((e) => e.name === field.type);
+    const type = isEnum ? `enum ${field.type}` : this.getExpectedType(field);
+    return field.isArray ? `${type}[]` : `${type}`;
+  }
+}
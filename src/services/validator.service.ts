@@ -0,0 +1,128 @@
+import { MongoClient } from "mongodb";
+import {
+  MongoValidator,
+  PrismaModel,
+  ValidatorApplyOptions,
+  ValidatorApplyResult,
+} from "../types";
+import { findCollection } from "../utils/collection";
+
+/**
+ * Installs `$jsonSchema` validators on MongoDB collections.
+ *
+ * Existing collections are updated with `collMod`; collections that don't exist
+ * yet are created with `createCollection` under the configured collection name,
+ * the model's `@@map` name or the model name. With `dryRun` nothing is changed
+ * and the result only describes the validator that would be installed next to
+ * the current one.
+ *
+ * @example
+ * ```typescript
+ * const generator = new MongoValidatorGenerator(schema);
+ * const service = new ValidatorService("mongodb://localhost:27017", "myapp");
+ *
+ * const results = await service.applyValidators(
+ *   schema.models.map((model) => ({ model, validator: generator.generateValidator(model) })),
+ *   { validationLevel: "moderate", validationAction: "warn" }
+ * );
+ * ```
+ */
+export class ValidatorService {
+  /** MongoDB client instance for database operations */
+  private client: MongoClient;
+  /** Name of the target database */
+  private dbName: string;
+
+  /**
+   * Creates a new validator service instance.
+   *
+   * @param connectionString - MongoDB connection string (e.g., "mongodb://localhost:27017")
+   * @param dbName - Name of the target database
+   */
+  constructor(connectionString: string, dbName: string) {
+    this.client = new MongoClient(connectionString);
+    this.dbName = dbName;
+  }
+
+  /**
+   * Installs a validator on the collection of every given model.
+   *
+   * @param entries - Models with the validator to install for each
+   * @param options - Validation level/action and dry-run flag
+   * @returns One result per model, in the given order
+   */
+  async applyValidators(
+    entries: { model: PrismaModel; validator: MongoValidator }[],
+    options: ValidatorApplyOptions = {}
+  ): Promise<ValidatorApplyResult[]> {
+    const validationLevel = options.validationLevel ?? "strict";
+    const validationAction = options.validationAction ?? "error";
+    const results: ValidatorApplyResult[] = [];
+
+    await this.client.connect();
+    try {
+      const db = this.client.db(this.dbName);
+
+      for (const { model, validator } of entries) {
+        const collection = await findCollection(db, model);
+
+        if (!collection) {
+          const name = model.collection || model.mapName || model.name;
+          if (!options.dryRun) {
+            await db.createCollection(name, {
+              validator,
+              validationLevel,
+              validationAction,
+            });
+          }
+          results.push({
+            model: model.name,
+            collection: name,
+            action: "create",
+            current: null,
+            validator,
+            applied: !options.dryRun,
+          });
+          continue;
+        }
+
+        const [info] = await db
+          .listCollections(
+            { name: collection.collectionName },
+            { nameOnly: false }
+          )
+          .toArray();
+        const collectionOptions = info?.options ?? {};
+        const current: MongoValidator | null =
+          collectionOptions.validator ?? null;
+
+        const unchanged =
+          JSON.stringify(current) === JSON.stringify(validator) &&
+          (collectionOptions.validationLevel ?? "strict") === validationLevel &&
+          (collectionOptions.validationAction ?? "error") === validationAction;
+
+        if (!unchanged && !options.dryRun) {
+          await db.command({
+            collMod: collection.collectionName,
+            validator,
+            validationLevel,
+            validationAction,
+          });
+        }
+
+        results.push({
+          model: model.name,
+          collection: collection.collectionName,
+          action: unchanged ? "unchanged" : "update",
+          current,
+          validator,
+          applied: !unchanged && !options.dryRun,
+        });
+      }
+    } finally {
+      await this.client.close();
+    }
+
+    return results;
+  }
+}
@@ -1,36 +1,116 @@
+import { Db, MongoClient, WriteConcernSettings } from "mongodb";
+
 export interface PrismaField {
   name: string;
   type: string;
   isOptional: boolean;
   isArray: boolean;
+  /** Literal default, or a {@link PrismaFunctionDefault} for `@default(now())` etc. */
   defaultValue?: any;
   isId?: boolean;
   isUnique?: boolean;
+  /** Database key from `@map("...")`, if it differs from the field name */
+  mapName?: string;
+  /** Set on fields whose type is another model */
+  relation?: PrismaRelation;
   attributes: string[];
 }
 
+/** Referential actions of `@relation(onDelete: ..., onUpdate: ...)` */
+export type ReferentialAction =
+  "Cascade" | "Restrict" | "NoAction" | "SetNull" | "SetDefault";
+
+/**
+ * Relation metadata of a field whose type is a model. `fields` and
+ * `references` are empty on the back-relation side, which stores nothing.
+ */
+export interface PrismaRelation {
+  /** The related model */
+  model: string;
+  /** Relation name, needed to tell apart several relations between two models */
+  name?: string;
+  /** Scalar fields of this model holding the foreign key */
+  fields: string[];
+  /** Fields of the related model the foreign key points to */
+  references: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+/**
+ * A function default such as `now()`, `uuid()` or `dbgenerated("...")`, with
+ * its evaluated arguments.
+ */
+export interface PrismaFunctionDefault {
+  kind: "function";
+  name: string;
+  args: any[];
+}
+
+export interface PrismaIndexField {
+  name: string;
+  sort?: "Asc" | "Desc";
+}
+
+/**
+ * An index declared with `@unique`, `@@index`, `@@unique` or `@@id`.
+ */
+export interface PrismaIndex {
+  type: "index" | "unique" | "id";
+  fields: PrismaIndexField[];
+  /** Database index name from the `map:` argument, if given */
+  mapName?: string;
+}
+
 export interface PrismaModel {
   name: string;
   fields: PrismaField[];
   mapName?: string;
+  indexes: PrismaIndex[];
+  /** Exact collection name from the project config, used without guessing */
+  collection?: string;
 }
 
 export interface PrismaEnum {
   name: string;
-  values: string[];
+  values: PrismaEnumValue[];
+}
+
+export interface PrismaEnumValue {
+  name: string;
+  /** Value stored in documents from `@map("...")`, if it differs from the name */
+  mapName?: string;
+}
+
+export interface PrismaCompositeType {
+  name: string;
+  fields: PrismaField[];
 }
 
 export interface PrismaSchema {
   models: PrismaModel[];
   enums: PrismaEnum[];
+  types: PrismaCompositeType[];
 }
 
+/**
+ * A JSON Schema property. The `x-` keywords are extensions read by the
+ * backfill, outside the JSON Schema vocabulary.
+ */
 export interface JsonSchemaProperty {
   type: string;
   default?: any;
-  items?: { type: string };
+  /** Function default, kept apart from `default` because it has no literal value */
+  "x-defaultFunction"?: PrismaFunctionDefault;
+  /** BSON type the default is written as, e.g. `date` or `double` */
+  "x-bsonType"?: string;
+  /** Database key from the field's `@map("...")` */
+  "x-mapName"?: string;
+  items?: JsonSchemaProperty;
   format?: string;
   enum?: string[];
+  properties?: { [key: string]: JsonSchemaProperty };
+  required?: string[];
 }
 
 export interface JsonSchema {
@@ -38,3 +118,1005 @@ export interface JsonSchema {
   properties: { [key: string]: JsonSchemaProperty };
   required: string[];
 }
+
+/** A file produced by a {@link SchemaGenerator}, relative to the output directory */
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * An output target of `pmm generate`: JSON Schema, TypeScript interfaces or
+ * Zod schemas. Enums and composite types are always generated in full.
+ */
+export interface SchemaGenerator {
+  /**
+   * @param models - Models to generate, defaults to every model of the schema
+   * @returns The files to write
+   */
+  generateFiles(models?: PrismaModel[]): GeneratedFile[];
+}
+
+/** `--target` of `pmm generate` */
+export type GenerateTarget = "json" | "ts" | "zod";
+
+/**
+ * A default value somewhere inside a document. `segments` is the path from the
+ * document root, where `"[]"` steps into every element of an array of embedded
+ * documents, e.g. `["items", "[]", "quantity"]`. `value` is either a literal or
+ * a {@link PrismaFunctionDefault} whose value is generated during the backfill.
+ */
+export interface BackfillTarget {
+  segments: string[];
+  value: unknown;
+  /** BSON type the value is converted to before it is written */
+  bsonType?: string;
+}
+
+/**
+ * A position inside a Prisma schema source file. Lines and columns are 1-based,
+ * offsets are 0-based character indexes into the source text.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface SourceRange {
+  file: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface PrismaSourceFile {
+  path: string;
+  content: string;
+}
+
+export type ExpressionNode =
+  | { kind: "string"; value: string; range: SourceRange }
+  | { kind: "number"; value: number; raw: string; range: SourceRange }
+  | { kind: "boolean"; value: boolean; range: SourceRange }
+  | { kind: "identifier"; name: string; range: SourceRange }
+  | { kind: "array"; items: ExpressionNode[]; range: SourceRange }
+  | {
+      kind: "function";
+      name: string;
+      args: AttributeArgumentNode[];
+      range: SourceRange;
+    };
+
+export interface AttributeArgumentNode {
+  name?: string;
+  value: ExpressionNode;
+  range: SourceRange;
+}
+
+export interface AttributeNode {
+  kind: "attribute";
+  /** Attribute name without the leading `@`/`@@`, e.g. "default" or "db.ObjectId" */
+  name: string;
+  isBlockAttribute: boolean;
+  args: AttributeArgumentNode[];
+  /** The attribute exactly as written in the source */
+  text: string;
+  range: SourceRange;
+}
+
+export interface FieldTypeNode {
+  name: string;
+  isArray: boolean;
+  isOptional: boolean;
+  /** Set for `Unsupported("...")` types */
+  unsupported?: string;
+  range: SourceRange;
+}
+
+export interface FieldNode {
+  kind: "field";
+  name: string;
+  type: FieldTypeNode;
+  attributes: AttributeNode[];
+  documentation?: string;
+  range: SourceRange;
+}
+
+export interface ModelNode {
+  kind: "model" | "type";
+  name: string;
+  fields: FieldNode[];
+  attributes: AttributeNode[];
+  documentation?: string;
+  range: SourceRange;
+}
+
+export interface EnumValueNode {
+  kind: "enumValue";
+  name: string;
+  attributes: AttributeNode[];
+  documentation?: string;
+  range: SourceRange;
+}
+
+export interface EnumNode {
+  kind: "enum";
+  name: string;
+  values: EnumValueNode[];
+  attributes: AttributeNode[];
+  documentation?: string;
+  range: SourceRange;
+}
+
+export interface ConfigPropertyNode {
+  kind: "property";
+  key: string;
+  value: ExpressionNode;
+  range: SourceRange;
+}
+
+export interface ConfigBlockNode {
+  kind: "datasource" | "generator";
+  name: string;
+  properties: ConfigPropertyNode[];
+  documentation?: string;
+  range: SourceRange;
+}
+
+export type BlockNode = ModelNode | EnumNode | ConfigBlockNode;
+
+export interface SchemaAst {
+  blocks: BlockNode[];
+}
+
+/**
+ * How `MongoBackfillService` writes defaults:
+ * - `auto`: `pipeline` when every default is a top-level field, `bulkWrite` otherwise
+ * - `pipeline`: one `updateMany` with an aggregation pipeline using `$ifNull`
+ * - `updateMany`: one `updateMany` per default field, filtered on missing/null values
+ * - `bulkWrite`: per-document updates sent in batches with `bulkWrite`
+ */
+export type BackfillStrategy = "auto" | "pipeline" | "updateMany" | "bulkWrite";
+
+export interface MongoBackfillOptions {
+  /** Write strategy, defaults to `auto` */
+  strategy?: BackfillStrategy;
+  /** Number of documents per `bulkWrite` batch, defaults to 1000 */
+  batchSize?: number;
+  /**
+   * Fill `now()` defaults with the creation time stored in each document's
+   * ObjectId `_id` instead of the time the backfill started
+   */
+  nowFromObjectId?: boolean;
+  /**
+   * Where the service writes its plain-text progress messages, defaults to
+   * `console`. Pass `null` to silence it and render the events instead.
+   */
+  logger?: Logger | null;
+  /**
+   * Process documents in `_id` order, `batchSize` at a time, and save a
+   * checkpoint after every range in `_pmm_backfill_state`
+   */
+  checkpoints?: boolean;
+  /** Continue from the saved checkpoint of each model, implies `checkpoints` */
+  resume?: boolean;
+  /** Upper limit on documents updated per second */
+  maxDocsPerSecond?: number;
+  /** Pause after every batch, in milliseconds */
+  batchPauseMs?: number;
+  /** Write concern for every write, e.g. `{ w: "majority", wtimeoutMS: 5000 }` */
+  writeConcern?: WriteConcernSettings;
+  /**
+   * Wait before the next batch while the slowest secondary is more than this
+   * many milliseconds behind the primary, measured with `replSetGetStatus`
+   */
+  maxReplicationLagMs?: number;
+  /** Wait between replication lag checks while backing off, defaults to 5000 */
+  replicationLagCheckMs?: number;
+  /**
+   * Fail the backfill when replication lag stays above `maxReplicationLagMs`
+   * for this many milliseconds before one range, defaults to 600000 (10 minutes)
+   */
+  maxReplicationWaitMs?: number;
+  /**
+   * Save the original values of the fields being set in `_pmm_backups.<runId>`
+   * before every write and record the run in `_pmm_runs`, so it can be rolled back
+   */
+  backup?: boolean;
+  /** Run ID shared by every backfill of this service, generated if omitted */
+  runId?: string;
+}
+
+/** A model backfilled in a run, inside {@link BackfillRun} */
+export interface BackfillRunModel {
+  model: string;
+  collection: string;
+  /** Top-level document keys whose original values are in the backup */
+  fields: string[];
+  matchedCount: number;
+  modifiedCount: number;
+  completedAt?: Date;
+}
+
+/** A backfill run recorded in `_pmm_runs` */
+export interface BackfillRun {
+  /** Run ID, also the suffix of the backup collection */
+  _id: string;
+  startedAt: Date;
+  updatedAt: Date;
+  models: BackfillRunModel[];
+  rolledBackAt?: Date;
+}
+
+export interface RollbackOptions {
+  /** Only count the documents that would be restored */
+  dryRun?: boolean;
+  /** Roll back a run again even though it was already rolled back */
+  force?: boolean;
+}
+
+export interface RollbackResult {
+  runId: string;
+  collections: {
+    model: string;
+    collection: string;
+    /**
+     * Documents restored, not counting those deleted since the backfill (or,
+     * in a dry run, backed-up documents that would be restored)
+     */
+    restoredCount: number;
+  }[];
+}
+
+/**
+ * Progress of a checkpointed backfill, one document per model in
+ * `_pmm_backfill_state` until the model's backfill finishes
+ */
+export interface BackfillCheckpoint {
+  /** Model name */
+  _id: string;
+  collection: string;
+  /** SHA-256 of the defaults being applied, a resume is refused if it changes */
+  defaultsHash: string;
+  /** `_id` of the last document in the last finished range */
+  lastId?: any;
+  /** Totals over every run since the backfill started */
+  matchedCount: number;
+  modifiedCount: number;
+  /** Start of the first run, also the value of `now()` defaults */
+  startedAt: Date;
+  updatedAt: Date;
+}
+
+/** Destination for library log messages, `console` fits */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+/** A default applied by a backfill */
+export interface BackfillField {
+  /** Readable field path, e.g. `status` or `items[].qty` */
+  path: string;
+  /** Literal default or function default */
+  value: any;
+}
+
+/** A document or batch that failed to update, the backfill continues without it */
+export interface BackfillWriteError {
+  message: string;
+  /** `_id` of the failed document, when the server reports it */
+  documentId?: string;
+}
+
+export interface BackfillResult {
+  model: string;
+  /** Collection name, or null if the collection was not found */
+  collection: string | null;
+  /** `skipped` when there are no defaults or no collection */
+  status: "completed" | "skipped";
+  skipReason?: BackfillSkipReason;
+  /** The write strategy used, if anything was written */
+  strategy?: Exclude<BackfillStrategy, "auto">;
+  fields: BackfillField[];
+  /** Documents missing at least one default */
+  matchedCount: number;
+  /** Documents actually updated */
+  modifiedCount: number;
+  durationMs: number;
+  errors: BackfillWriteError[];
+  /** `_id` the backfill continued after, when it was resumed from a checkpoint */
+  resumedFrom?: string;
+  /** Run ID, set when the original values were backed up */
+  runId?: string;
+}
+
+export interface BackfillStartEvent {
+  model: string;
+  collection: string;
+  strategy: Exclude<BackfillStrategy, "auto">;
+  fields: BackfillField[];
+}
+
+/** Running totals, emitted after every write round trip */
+export interface BackfillProgressEvent {
+  model: string;
+  collection: string;
+  strategy: Exclude<BackfillStrategy, "auto">;
+  matchedCount: number;
+  modifiedCount: number;
+}
+
+export type BackfillSkipReason = "noDefaults" | "collectionNotFound";
+
+export interface BackfillSkipEvent {
+  model: string;
+  reason: BackfillSkipReason;
+}
+
+/** A wait between batches because of a rate limit, pause or replication lag */
+export interface BackfillThrottleEvent {
+  model: string;
+  collection: string;
+  reason: "rate" | "pause" | "replicationLag";
+  waitMs: number;
+  /** Measured lag, for `replicationLag` waits */
+  replicationLagMs?: number;
+}
+
+export interface BackfillWriteErrorEvent extends BackfillWriteError {
+  model: string;
+  collection: string;
+}
+
+/** Events emitted by `MongoBackfillService` */
+export interface BackfillEvents {
+  start: [event: BackfillStartEvent];
+  progress: [event: BackfillProgressEvent];
+  skip: [event: BackfillSkipEvent];
+  writeError: [event: BackfillWriteErrorEvent];
+  throttle: [event: BackfillThrottleEvent];
+  complete: [result: BackfillResult];
+}
+
+export interface BackfillFieldImpact {
+  /** Readable field path, e.g. `status` or `items[].qty` */
+  path: string;
+  value: any;
+  /** Documents where the field is missing or null */
+  documentCount: number;
+  /** A few `_id`s of affected documents, as strings */
+  sampleIds: string[];
+}
+
+export interface BackfillImpactReport {
+  model: string;
+  /** Resolved collection name, null if no collection was found (field counts are then 0) */
+  collection: string | null;
+  /** Documents missing at least one default, i.e. what a backfill would update */
+  documentCount: number;
+  fields: BackfillFieldImpact[];
+}
+
+/**
+ * Passed to the `up` and `down` functions of every migration file.
+ */
+export interface MigrationContext {
+  /** The target database */
+  db: Db;
+  /** The connected client, e.g. to start a session for transactions */
+  client: MongoClient;
+  /** The parsed Prisma schema at the time the migration runs */
+  schema: PrismaSchema;
+}
+
+export interface MigrationModule {
+  up: (context: MigrationContext) => Promise<void> | void;
+  down?: (context: MigrationContext) => Promise<void> | void;
+}
+
+/**
+ * A migration recorded in the `_pmm_migrations` collection.
+ */
+export interface MigrationRecord {
+  /** Migration name, the file name without extension */
+  _id: string;
+  kind: "migration";
+  /** SHA-256 of the migration file when it was applied */
+  checksum: string;
+  appliedAt: Date;
+  durationMs: number;
+}
+
+export interface MigrationStatus {
+  name: string;
+  /** Absolute file path, null if the file of an applied migration is gone */
+  file: string | null;
+  /**
+   * - `pending`: not applied yet
+   * - `applied`: applied and unchanged
+   * - `modified`: applied, but the file changed since
+   * - `missing`: applied, but the file no longer exists
+   */
+  state: "pending" | "applied" | "modified" | "missing";
+  appliedAt?: Date;
+}
+
+export interface MigrationServiceOptions {
+  /**
+   * How long a lock outlives its last renewal before another deploy may take
+   * it over, defaults to 30 minutes. The holder renews it every third of this.
+   */
+  lockTimeoutMs?: number;
+}
+
+/**
+ * A single difference between two schema versions. Field changes apply to
+ * models and composite types alike; `model` holds the model or type name.
+ */
+export type SchemaChange =
+  | { kind: "modelAdded"; model: string; collection: string }
+  | { kind: "modelRemoved"; model: string; collection: string }
+  | { kind: "collectionRenamed"; model: string; from: string; to: string }
+  | {
+      kind: "fieldAdded";
+      model: string;
+      field: string;
+      type: string;
+      isOptional: boolean;
+      defaultValue?: any;
+    }
+  | { kind: "fieldRemoved"; model: string; field: string; type: string }
+  | {
+      /** The field's database key changed, e.g. through a new `@map` */
+      kind: "fieldRenamed";
+      model: string;
+      field: string;
+      from: string;
+      to: string;
+    }
+  | {
+      kind: "fieldTypeChanged";
+      model: string;
+      field: string;
+      from: string;
+      to: string;
+    }
+  | {
+      kind: "fieldOptionalityChanged";
+      model: string;
+      field: string;
+      isOptional: boolean;
+    }
+  | { kind: "enumAdded"; enum: string; values: string[] }
+  | { kind: "enumRemoved"; enum: string; values: string[] }
+  | { kind: "enumValueAdded"; enum: string; value: string }
+  | { kind: "enumValueRemoved"; enum: string; value: string };
+
+/**
+ * The structured result of comparing two schema versions, serializable as JSON
+ * so other commands can consume it.
+ */
+export interface SchemaDiff {
+  /** Where the old schema came from, e.g. a path or git ref */
+  from: string;
+  /** Where the new schema came from */
+  to: string;
+  changes: SchemaChange[];
+}
+
+/**
+ * A MongoDB `$jsonSchema` node, using `bsonType` instead of JSON Schema `type`.
+ */
+export interface BsonSchemaProperty {
+  bsonType?: string | string[];
+  enum?: any[];
+  items?: BsonSchemaProperty;
+  properties?: { [key: string]: BsonSchemaProperty };
+  required?: string[];
+  description?: string;
+}
+
+export interface MongoValidator {
+  $jsonSchema: BsonSchemaProperty;
+}
+
+export type ValidationLevel = "off" | "strict" | "moderate";
+export type ValidationAction = "error" | "warn";
+
+export interface ValidatorApplyOptions {
+  validationLevel?: ValidationLevel;
+  validationAction?: ValidationAction;
+  /** Only compute what would change */
+  dryRun?: boolean;
+}
+
+export interface ValidatorApplyResult {
+  model: string;
+  collection: string;
+  /** `create` for a new collection, `update` for `collMod`, `unchanged` if identical */
+  action: "create" | "update" | "unchanged";
+  /** The currently installed validator, null if there is none */
+  current: MongoValidator | null;
+  validator: MongoValidator;
+  /** False when running with `dryRun` or when nothing changed */
+  applied: boolean;
+}
+
+export interface IndexSpec {
+  name: string;
+  key: { [field: string]: 1 | -1 };
+  unique: boolean;
+}
+
+export interface IndexConflict {
+  /** Name of the index that could not be created */
+  index: string;
+  reason: string;
+  /** Duplicate values blocking a unique index, with the conflicting `_id`s */
+  duplicates?: {
+    value: { [field: string]: any };
+    count: number;
+    ids: string[];
+  }[];
+}
+
+export interface IndexSyncOptions {
+  /** Drop indexes that no longer match the schema */
+  drop?: boolean;
+  /** Only compute what would change */
+  dryRun?: boolean;
+  /** Maximum duplicate groups reported per unique index, defaults to 10 */
+  sampleSize?: number;
+}
+
+export interface IndexSyncResult {
+  model: string;
+  collection: string;
+  /** Indexes that are (or would be) created */
+  create: IndexSpec[];
+  /** Names of indexes that are (or would be) dropped */
+  drop: string[];
+  /** Names of indexes not in the schema that were kept because `drop` is off */
+  extra: string[];
+  conflicts: IndexConflict[];
+}
+
+export interface TypeConversionOptions {
+  /** Only count mismatched documents and conversion failures */
+  dryRun?: boolean;
+  /** Failed documents returned per field, defaults to 1000; all are still counted */
+  maxFailures?: number;
+}
+
+/**
+ * A document whose stored value could not be converted to the field's type.
+ * It is left unchanged.
+ */
+export interface TypeConversionFailure {
+  _id: any;
+  value: any;
+}
+
+export interface FieldConversionResult {
+  field: string;
+  /** Expected type, e.g. `int`, `date[]` or `enum Status` */
+  expectedType: string;
+  /** Documents whose stored value has a different BSON type */
+  mismatchedCount: number;
+  /** Documents converted (or, in a dry run, that would be converted) */
+  convertedCount: number;
+  /** Documents whose value cannot be converted */
+  failedCount: number;
+  /** The first `maxFailures` of them */
+  failures: TypeConversionFailure[];
+}
+
+export interface TypeConversionResult {
+  model: string;
+  /** Collection name, or null if the collection was not found */
+  collection: string | null;
+  fields: FieldConversionResult[];
+}
+
+export type AuditViolationKind = "missing" | "null" | "type" | "enum";
+
+export interface AuditViolation {
+  /** Readable field path, e.g. `email` or `items[].qty` */
+  path: string;
+  kind: AuditViolationKind;
+  /** What the schema expects, e.g. `int`, `enum Status` or `required` */
+  expected: string;
+  /** Number of documents with this violation */
+  count: number;
+  sampleIds: string[];
+}
+
+export interface AuditOptions {
+  /** Audit a random sample of this many documents instead of the whole collection */
+  limit?: number;
+  /** How many `_id`s to keep per violation, defaults to 3 */
+  sampleSize?: number;
+}
+
+export interface AuditReport {
+  model: string;
+  /** Collection name, or null if the collection was not found */
+  collection: string | null;
+  /** Number of documents checked */
+  scannedCount: number;
+  /** Number of documents with at least one violation */
+  violatingCount: number;
+  violations: AuditViolation[];
+}
+
+/**
+ * What to do with documents that already hold the target key of a rename:
+ * `abort` refuses to rename anything, `skip` leaves those documents alone and
+ * `overwrite` replaces the target value with the renamed one.
+ */
+export type RenameConflictMode = "abort" | "skip" | "overwrite";
+
+export interface FieldRenameOptions {
+  /** Defaults to `abort` */
+  onConflict?: RenameConflictMode;
+  /** Only count what would change */
+  dryRun?: boolean;
+  /** How many conflicting `_id`s to report, defaults to 3 */
+  sampleSize?: number;
+}
+
+export interface FieldRenameResult {
+  model: string;
+  /** Collection name, or null if the collection was not found */
+  collection: string | null;
+  from: string;
+  to: string;
+  /** Documents holding the old key */
+  matchedCount: number;
+  /** Documents holding both the old and the new key */
+  conflictCount: number;
+  conflictSampleIds: string[];
+  /** Documents renamed (or, in a dry run, that would be renamed) */
+  renamedCount: number;
+  /** True if nothing was renamed because of conflicts in `abort` mode */
+  aborted: boolean;
+}
+
+/**
+ * Maps old enum values to new ones. `null` maps a value to the field's
+ * `@default`, or to `null` for optional fields without a default.
+ */
+export interface EnumValueMapping {
+  [oldValue: string]: string | null;
+}
+
+export interface EnumMigrationOptions {
+  /** Only count what would change */
+  dryRun?: boolean;
+}
+
+export interface EnumFieldMigration {
+  model: string;
+  /** Collection name, or null if the collection was not found */
+  collection: string | null;
+  /** Readable field path, e.g. `status` or `items[].status` */
+  path: string;
+  /** Documents updated (or, in a dry run, that would be updated) per mapped value */
+  updates: { from: string; to: string | null; documentCount: number }[];
+  /** Stored values that are neither enum values nor mapped */
+  unmapped: { value: unknown; documentCount: number }[];
+}
+
+export interface EnumMigrationResult {
+  enum: string;
+  fields: EnumFieldMigration[];
+  /** True if nothing was written because some stored values are unmapped */
+  refused: boolean;
+}
+
+/** Settings for a single model in `pmm.config.*` */
+export interface PmmModelConfig {
+  /** Exact collection name, skips the naming guesses of `findCollection` */
+  collection?: string;
+  /** Leave the model out of every command unless it is selected with `--model` */
+  exclude?: boolean;
+  /** Fields that are never backfilled */
+  excludeFields?: string[];
+  /** Backfill batch size for this model */
+  batchSize?: number;
+  /** Backfill values that replace the schema `@default`, by field name */
+  defaults?: { [field: string]: any };
+}
+
+/**
+ * Project config loaded from `pmm.config.json` or `pmm.config.ts`. Top-level
+ * keys are defaults for the CLI options of the same name.
+ */
+export interface PmmConfig {
+  schema?: string;
+  connection?: string;
+  database?: string;
+  output?: string;
+  migrations?: string;
+  batchSize?: number;
+  strategy?: BackfillStrategy;
+  models?: { [model: string]: PmmModelConfig };
+}
+
+/** How an orphaned single reference is fixed; id lists always have orphans pulled */
+export type RelationFixAction = "setNull" | "delete";
+
+export interface RelationCheckOptions {
+  /** Fix orphans with this action, or with the relation's `onDelete` when `true` */
+  fix?: boolean | RelationFixAction;
+  /** Sample `_id`s and orphaned keys to collect, defaults to 5 */
+  sampleSize?: number;
+}
+
+export interface RelationCheckResult {
+  model: string;
+  /** Collection name, or null if the collection was not found */
+  collection: string | null;
+  /** The relation field, e.g. `author` */
+  field: string;
+  /** The stored foreign key, e.g. `authorId` */
+  foreignKey: string;
+  /** True for list-of-ids relations */
+  isList: boolean;
+  referencedModel: string;
+  referencedCollection: string | null;
+  /** Documents holding at least one orphaned key */
+  orphanCount: number;
+  sampleIds: string[];
+  /** Foreign key values without a matching document */
+  sampleOrphans: string[];
+  /** What `fix` did, or why nothing was fixed */
+  fix?:
+    | { action: RelationFixAction | "pull"; modifiedCount: number }
+    | { skipped: string };
+}
+
+export interface IntrospectOptions {
+  /** Documents sampled per collection with `$sample`, defaults to 1000 */
+  sampleSize?: number;
+  /** Strings with at most this many distinct values become enums, defaults to 10; 0 disables enums */
+  enumThreshold?: number;
+  /** Collections to introspect, defaults to all except `system.*` and `_pmm_*` */
+  collections?: string[];
+}
+
+/** A field whose sampled values have more than one BSON type */
+export interface IntrospectionConflict {
+  /** The model or composite type */
+  model: string;
+  field: string;
+  /** The most common BSON type, which the field's Prisma type is inferred from */
+  chosenBsonType: string;
+  /** Sampled BSON types and how often each was seen, most common first */
+  types: { bsonType: string; count: number }[];
+}
+
+export interface IntrospectionResult {
+  schema: PrismaSchema;
+  /** Sampled documents per model */
+  sampledCounts: { [model: string]: number };
+  conflicts: IntrospectionConflict[];
+  /** Comments to write above a model or field, keyed by `Model` or `Model.field` */
+  comments: { [path: string]: string[] };
+}
+
+export interface DriftOptions {
+  /** Check a random sample of this many documents instead of the whole collection */
+  limit?: number;
+  /** Sample `_id`s to collect per unknown field, defaults to 3 */
+  sampleSize?: number;
+}
+
+/** A stored top-level key that no field of the model maps to */
+export interface DriftUnknownField {
+  key: string;
+  /** Documents holding the key */
+  count: number;
+  sampleIds: string[];
+}
+
+/** A schema field whose key no checked document holds */
+export interface DriftMissingField {
+  field: string;
+  key: string;
+}
+
+export interface ModelDrift {
+  model: string;
+  /** Collection name, or null if the collection was not found */
+  collection: string | null;
+  /** Number of documents checked */
+  scannedCount: number;
+  unknownFields: DriftUnknownField[];
+  missingFields: DriftMissingField[];
+}
+
+export interface PruneOptions {
+  /** Only count the documents and bytes that would be removed */
+  dryRun?: boolean;
+  /** Copy the removed values to `_pmm_backups.<runId>` first, so `pmm rollback` can restore them */
+  backup?: boolean;
+  /** Run ID of the backup, defaults to a new one */
+  runId?: string;
+}
+
+export interface PruneResult {
+  model: string;
+  /** Collection name, or null if the collection was not found */
+  collection: string | null;
+  /** Documents holding each pruned key */
+  keys: { key: string; count: number }[];
+  /** Documents holding at least one pruned key */
+  matchedCount: number;
+  /** Documents the keys were removed from, 0 in a dry run */
+  modifiedCount: number;
+  /** BSON bytes of the removed keys and values */
+  bytes: number;
+  /** Set when the removed values were backed up */
+  runId?: string;
+}
+
+/** Options of every command that connects to MongoDB */
+export interface ConnectionCommandOptions {
+  connection: string;
+  /** Database name, `"none"` to take it from the connection string */
+  database: string;
+}
+
+/** Options of every command that reads the Prisma schema */
+export interface SchemaCommandOptions {
+  /** Prisma schema directory or file */
+  schema: string;
+}
+
+/** Options of commands that can be limited to one model */
+export interface ModelCommandOptions {
+  /** Model name given with `--model` */
+  model?: string;
+}
+
+export interface ConvertCommandOptions extends SchemaCommandOptions {
+  output: string;
+  watch?: boolean;
+}
+
+/** Options of `backfill`, and with `output` of `generate-and-backfill` */
+export interface BackfillCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions, ModelCommandOptions {
+  output?: string;
+  strategy: BackfillStrategy;
+  batchSize: number;
+  nowFromObjectId?: boolean;
+  checkpoints?: boolean;
+  resume?: boolean;
+  /** False with `--no-backup` */
+  backup: boolean;
+  maxDocsPerSecond?: number;
+  batchPause?: number;
+  maxReplicationLag?: number;
+  maxReplicationWait?: number;
+  writeConcern?: WriteConcernSettings["w"];
+  writeTimeout?: number;
+  dryRun?: boolean;
+  format: string;
+  sampleSize: number;
+}
+
+export interface DiffCommandOptions {
+  from: string;
+  to: string;
+  format: string;
+  output?: string;
+}
+
+export interface ValidatorsApplyCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions, ModelCommandOptions {
+  validationLevel: ValidationLevel;
+  validationAction: ValidationAction;
+  dryRun?: boolean;
+}
+
+export interface IndexesSyncCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions, ModelCommandOptions {
+  drop?: boolean;
+  dryRun?: boolean;
+}
+
+export interface ConvertTypesCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions, ModelCommandOptions {
+  report: string;
+  maxFailures: number;
+  dryRun?: boolean;
+}
+
+export interface AuditCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions, ModelCommandOptions {
+  limit?: number;
+  format: string;
+  sampleSize: number;
+  maxViolations: number;
+}
+
+export interface RenameFieldCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions {
+  diff?: string;
+  onConflict: RenameConflictMode;
+  dryRun?: boolean;
+}
+
+export interface EnumMigrateCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions {
+  mapping: string;
+  dryRun?: boolean;
+}
+
+export interface RollbackCommandOptions extends ConnectionCommandOptions {
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+export interface RunsListCommandOptions extends ConnectionCommandOptions {
+  format: string;
+}
+
+export interface RelationsCheckCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions, ModelCommandOptions {
+  /** `true` when `--fix` is given without an action */
+  fix?: RelationFixAction | true;
+  sampleSize: number;
+  format: string;
+}
+
+export interface IntrospectCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions {
+  /** Comma-separated collection names */
+  collections?: string;
+  sampleSize: number;
+  enumThreshold: number;
+  print?: boolean;
+  force?: boolean;
+}
+
+export interface DriftCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions, ModelCommandOptions {
+  limit?: number;
+  sampleSize: number;
+  format: string;
+}
+
+export interface PruneCommandOptions
+  extends ConnectionCommandOptions, SchemaCommandOptions, ModelCommandOptions {
+  diff?: string;
+  /** Comma-separated keys, as key or Model.key */
+  keep?: string;
+  backup?: boolean;
+  confirm?: boolean;
+  dryRun?: boolean;
+}
+
+export interface GenerateCommandOptions
+  extends SchemaCommandOptions, ModelCommandOptions {
+  target: string;
+  output: string;
+}
+
+export interface MigrateCreateCommandOptions {
+  /** Directory containing migration files */
+  migrations: string;
+}
+
+/** Options of `migrate up`, `migrate down` and `migrate status` */
+export interface MigrateCommandOptions
+  extends
+    ConnectionCommandOptions,
+    SchemaCommandOptions,
+    MigrateCreateCommandOptions {
+  /** Migrations to revert, only for `migrate down` */
+  steps?: number;
+}
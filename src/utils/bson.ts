@@ -0,0 +1,203 @@
+import {
+  Binary,
+  Decimal128,
+  Double,
+  Int32,
+  Long,
+  ObjectId,
+  Timestamp,
+} from "mongodb";
+import { PrismaField } from "../types";
+import { BsonCoercionError } from "../errors/bson-coercion.error";
+
+/** BSON type of each scalar Prisma type without a native type attribute */
+const PRISMA_BSON_TYPES: { [type: string]: string } = {
+  String: "string",
+  Int: "int",
+  BigInt: "long",
+  Float: "double",
+  Decimal: "decimal",
+  Boolean: "bool",
+  DateTime: "date",
+  Bytes: "binData",
+};
+
+/** BSON type selected by each `@db.*` native type attribute */
+const NATIVE_BSON_TYPES: { [attribute: string]: string } = {
+  String: "string",
+  ObjectId: "objectId",
+  Int: "int",
+  Long: "long",
+  Double: "double",
+  Bool: "bool",
+  Date: "date",
+  Timestamp: "timestamp",
+  BinData: "binData",
+};
+
+/**
+ * Resolves the BSON type a field is stored as, honouring `@db.*` native type
+ * attributes such as `@db.ObjectId` or `@db.Long`.
+ *
+ * @param field - The Prisma field
+ * @returns The BSON type, or undefined for `Json`, enums, composite types and unknown types
+ *
+ * @example
+ * ```typescript
+ * // String @db.ObjectId → "objectId"
+ * // Int @db.Long        → "long"
+ * // DateTime            → "date"
+ * // Json                → undefined
+ * ```
+ */
+export function resolveBsonType(
+  field: Pick<PrismaField, "type" | "attributes">
+): string | undefined {
+  for (const attribute of field.attributes) {
+    const match = /^@db\.(\w+)/.exec(attribute);
+    if (match && NATIVE_BSON_TYPES[match[1]]) {
+      return NATIVE_BSON_TYPES[match[1]];
+    }
+  }
+
+  return PRISMA_BSON_TYPES[field.type];
+}
+
+/**
+ * Converts a field's value to its BSON type so it is stored the way Prisma
+ * reads it.
+ *
+ * @param value - The value to store
+ * @param field - The Prisma field
+ * @returns The BSON value
+ * @throws {BsonCoercionError} If the value cannot be represented as the field's type
+ */
+export function coerceFieldValue(
+  value: unknown,
+  field: Pick<PrismaField, "type" | "attributes">
+): unknown {
+  return coerceBsonValue(value, resolveBsonType(field));
+}
+
+/**
+ * Converts a JSON value (a schema default or a generated value) to a BSON
+ * type. Lists are converted element by element, `null` is kept, and values
+ * without a known BSON type are returned unchanged.
+ *
+ * @param value - The value to convert
+ * @param bsonType - The target BSON type, e.g. `date`, `double` or `long`
+ * @returns The BSON value
+ * @throws {BsonCoercionError} If the value cannot be represented as `bsonType`
+ *
+ * @example
+ * ```typescript
+ * coerceBsonValue("2024-01-01T00:00:00Z", "date"); // Date
+ * coerceBsonValue(1, "double");                    // Double(1), not int32
+ * coerceBsonValue("9007199254740993", "long");     // Long
+ * coerceBsonValue("aGVsbG8=", "binData");          // Binary from base64
+ * ```
+ */
+export function coerceBsonValue(value: unknown, bsonType?: string): unknown {
+  if (value === null || value === undefined || !bsonType) return value;
+
+  if (Array.isArray(value)) {
+    return value.map((item) => coerceBsonValue(item, bsonType));
+  }
+
+  const fail = (reason: string) => {
+    throw new BsonCoercionError(value, bsonType, reason);
+  };
+
+  switch (bsonType) {
+    case "string":
+      if (typeof value === "string") return value;
+      if (typeof value === "number" || typeof value === "boolean") {
+        return String(value);
+      }
+      return fail("expected a string");
+
+    case "bool":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      return fail("expected a boolean");
+
+    case "int": {
+      const number = toNumber(value) ?? fail("expected a number");
+      if (!Number.isInteger(number) || Math.abs(number) > 2 ** 31 - 1) {
+        return fail("expected a 32-bit integer");
+      }
+      return new Int32(number);
+    }
+
+    case "double":
+      return new Double(toNumber(value) ?? fail("expected a number"));
+
+    case "long":
+      if (Long.isLong(value)) return value;
+      if (typeof value === "bigint") return Long.fromBigInt(value);
+      if (typeof value === "number" && Number.isInteger(value)) {
+        return Long.fromNumber(value);
+      }
+      if (typeof value === "string" && /^-?\d+$/.test(value)) {
+        return Long.fromString(value);
+      }
+      return fail("expected an integer");
+
+    case "decimal":
+      if (value instanceof Decimal128) return value;
+      if (
+        (typeof value === "number" && Number.isFinite(value)) ||
+        (typeof value === "string" &&
+          /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value))
+      ) {
+        return Decimal128.fromString(String(value));
+      }
+      return fail("expected a decimal number");
+
+    case "date":
+    case "timestamp": {
+      const date =
+        value instanceof Date
+          ? value
+          : typeof value === "string" || typeof value === "number"
+            ? new Date(value)
+            : fail("expected a date string or epoch milliseconds");
+      if (isNaN(date.getTime())) return fail("invalid date");
+      return bsonType === "date"
+        ? date
+        : Timestamp.fromBits(0, Math.floor(date.getTime() / 1000));
+    }
+
+    case "binData":
+      if (value instanceof Binary) return value;
+      if (Buffer.isBuffer(value)) return new Binary(value);
+      // Prisma writes Bytes defaults as base64 strings
+      if (typeof value === "string" && /^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+        return new Binary(Buffer.from(value, "base64"));
+      }
+      return fail("expected a base64 string");
+
+    case "objectId":
+      if (value instanceof ObjectId) return value;
+      if (typeof value === "string" && /^[0-9a-fA-F]{24}$/.test(value)) {
+        return new ObjectId(value);
+      }
+      return fail("expected a 24 character hex string");
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * @param value - A number or numeric string
+ * @returns The number, or undefined if the value is not numeric
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    if (Number.isFinite(number)) return number;
+  }
+  return undefined;
+}
@@ -0,0 +1,148 @@
+import { Collection, Db } from "mongodb";
+import pluralize from "pluralize";
+import { kebabCase } from "change-case-all";
+import {
+  PrismaEnum,
+  PrismaEnumValue,
+  PrismaField,
+  PrismaModel,
+} from "../types";
+
+/**
+ * Intelligently locates a MongoDB collection based on a Prisma model.
+ *
+ * This method attempts to find the correct collection using multiple naming strategies:
+ * 1. Exact model name or mapped name (if specified in @@map directive)
+ * 2. Lowercase version of the name
+ * 3. Pluralized version of the name
+ * 4. Pluralized lowercase version
+ * 5. Kebab-case version of the name
+ * 6. Pluralized kebab-case version
+ *
+ * The method tests each naming convention by attempting to access the collection's
+ * indexes, which is a lightweight way to verify the collection exists. A model
+ * with an explicit `collection` from the project config skips the guessing and
+ * only that collection is checked.
+ *
+ * @param db - The MongoDB database instance
+ * @param model - The Prisma model to find a collection for
+ * @returns Promise resolving to the MongoDB collection if found, null otherwise
+ *
+ * @example
+ * ```typescript
+ * // For a model named "UserProfile" with mapName "user_profiles"
+ * // Will try in order:
+ * // 1. "user_profiles" (mapName takes priority)
+ * // 2. "userprofiles" (lowercase)
+ * // 3. "user_profiless" (pluralized mapName)
+ * // 4. "UserProfiles" (pluralized original)
+ * // 5. "user-profiles" (kebab-case)
+ * // 6. "user-profiless" (pluralized kebab-case)
+ *
+ * const collection = await findCollection(db, model);
+ * if (collection) {
+ *   // Found the collection, can proceed with operations
+ * }
+ * ```
+ */
+export async function findCollection(
+  db: Db,
+  model: PrismaModel
+): Promise<Collection | null> {
+  // First try the mapped name if it exists
+  const collectionName = model.mapName || model.name;
+  const attempts = model.collection
+    ? [model.collection]
+    : [
+        collectionName,
+        collectionName.toLowerCase(),
+        pluralize.plural(collectionName),
+        pluralize.plural(collectionName.toLowerCase()),
+        kebabCase(collectionName),
+        pluralize.plural(kebabCase(collectionName)),
+      ];
+
+  // Remove duplicates
+  const uniqueAttempts = [...new Set(attempts)];
+
+  for (const attempt of uniqueAttempts) {
+    try {
+      const collection = db.collection(attempt);
+      const stats = await collection.indexes();
+      if (stats) {
+        return collection;
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves the key a field is stored under in MongoDB documents.
+ *
+ * @param field - The Prisma field
+ * @returns `_id` for the ID field, the `@map` name if given, otherwise the field name
+ *
+ * @example
+ * ```typescript
+ * // id       String @id @map("_id") → "_id"
+ * // fullName String @map("name")    → "name"
+ * // email    String                 → "email"
+ * ```
+ */
+export function getFieldKey(field: PrismaField): string {
+  if (field.isId) return "_id";
+  return field.mapName ?? field.name;
+}
+
+/**
+ * Resolves the value an enum value is stored as in MongoDB documents.
+ *
+ * @param value - The enum value
+ * @returns The `@map` name if given, otherwise the value name
+ *
+ * @example
+ * ```typescript
+ * // ADMIN @map("admin") → "admin"
+ * // USER                → "USER"
+ * ```
+ */
+export function getEnumValueKey(value: PrismaEnumValue): string {
+  return value.mapName ?? value.name;
+}
+
+/**
+ * Resolves the stored value of an enum value written by name, such as an
+ * `@default` or a mapping target. Stored values are returned unchanged.
+ *
+ * @param prismaEnum - The enum
+ * @param value - A value name or stored value
+ * @returns The stored value, or `value` itself if the enum has no such value
+ */
+export function toEnumValueKey(prismaEnum: PrismaEnum, value: string): string {
+  const match = prismaEnum.values.find((v) => v.name === value);
+  return match ? getEnumValueKey(match) : value;
+}
+
+/**
+ * Resolves the stored form of a literal `@default` of an enum field.
+ *
+ * @param prismaEnum - The field's enum
+ * @param value - The default, a value name or a list of them
+ * @returns The default with every value name replaced by its stored value
+ *
+ * @example
+ * ```typescript
+ * // role  Role   @default(ADMIN)        → "admin"
+ * // roles Role[] @default([USER, ADMIN]) → ["USER", "admin"]
+ * ```
+ */
+export function toEnumDefault(prismaEnum: PrismaEnum, value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => toEnumDefault(prismaEnum, item));
+  }
+  return typeof value === "string" ? toEnumValueKey(prismaEnum, value) : value;
+}
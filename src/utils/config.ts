@@ -0,0 +1,195 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { ConfigError } from "../errors/config.error";
+import { BackfillStrategy, PmmConfig } from "../types";
+import { importModule } from "./module";
+
+/** Config file names, in the order they are looked for in each directory */
+export const CONFIG_FILES = [
+  "pmm.config.ts",
+  "pmm.config.mts",
+  "pmm.config.js",
+  "pmm.config.mjs",
+  "pmm.config.json",
+];
+
+/** Top-level keys that hold a string */
+const STRING_KEYS = [
+  "schema",
+  "connection",
+  "database",
+  "output",
+  "migrations",
+];
+
+/** Keys allowed in a `models` entry */
+const MODEL_KEYS = [
+  "collection",
+  "exclude",
+  "excludeFields",
+  "batchSize",
+  "defaults",
+];
+
+const STRATEGIES: BackfillStrategy[] = [
+  "auto",
+  "pipeline",
+  "updateMany",
+  "bulkWrite",
+];
+
+/**
+ * Looks for a config file in a directory and each of its parents.
+ *
+ * @param startDir - Directory to start from, usually the current directory
+ * @returns The absolute path of the nearest config file, or null if there is none
+ *
+ * @example
+ * ```typescript
+ * findConfigFile("/project/packages/api"); // "/project/pmm.config.json"
+ * ```
+ */
+export function findConfigFile(startDir: string): string | null {
+  let dir = resolve(startDir);
+
+  for (;;) {
+    for (const name of CONFIG_FILES) {
+      const file = join(dir, name);
+      if (existsSync(file)) return file;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Loads and validates a config file. JSON files are parsed, JavaScript and
+ * TypeScript files must default-export the config object.
+ *
+ * Relative `schema`, `output` and `migrations` paths are resolved against the
+ * directory of the config file, so the config works from any subdirectory.
+ *
+ * @param file - Path of the config file
+ * @returns The validated config
+ * @throws {ConfigError} If the file cannot be read or the config is invalid
+ *
+ * @example
+ * ```typescript
+ * const file = findConfigFile(process.cwd());
+ * const config = file ? await loadConfig(file) : {};
+ * ```
+ */
+export async function loadConfig(file: string): Promise<PmmConfig> {
+  let raw: unknown;
+
+  try {
+    if (file.endsWith(".json")) {
+      raw = JSON.parse(readFileSync(file, "utf-8"));
+    } else {
+      const module = await importModule(resolve(file));
+      raw = module.default;
+    }
+  } catch (error) {
+    throw new ConfigError(file, [(error as Error).message]);
+  }
+
+  const config = validateConfig(raw, file);
+  for (const key of ["schema", "output", "migrations"] as const) {
+    if (config[key]) config[key] = resolve(dirname(file), config[key]);
+  }
+  return config;
+}
+
+/**
+ * Checks that a value has the shape of {@link PmmConfig}. Every problem is
+ * collected, including unknown keys, so they can be reported together.
+ *
+ * @param raw - The parsed config
+ * @param file - Path of the config file, used in the error
+ * @returns The config, typed
+ * @throws {ConfigError} Listing every problem found
+ */
+export function validateConfig(raw: unknown, file: string): PmmConfig {
+  const issues: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    throw new ConfigError(file, ["the config must be an object"]);
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "$schema") continue;
+
+    if (STRING_KEYS.includes(key)) {
+      if (typeof value !== "string") issues.push(`"${key}" must be a string`);
+    } else if (key === "batchSize") {
+      if (!isPositiveInteger(value)) {
+        issues.push(`"batchSize" must be a positive integer`);
+      }
+    } else if (key === "strategy") {
+      if (!STRATEGIES.includes(value as BackfillStrategy)) {
+        issues.push(`"strategy" must be one of ${STRATEGIES.join(", ")}`);
+      }
+    } else if (key === "models") {
+      if (isPlainObject(value)) {
+        for (const [model, settings] of Object.entries(value)) {
+          validateModelConfig(settings, `models.${model}`, issues);
+        }
+      } else {
+        issues.push(`"models" must be an object keyed by model name`);
+      }
+    } else {
+      issues.push(`unknown key "${key}"`);
+    }
+  }
+
+  if (issues.length > 0) throw new ConfigError(file, issues);
+  return raw as PmmConfig;
+}
+
+/**
+ * Checks a single `models` entry.
+ *
+ * @param settings - The entry
+ * @param path - Location of the entry, used in messages
+ * @param issues - Problems found so far, appended to
+ */
+function validateModelConfig(
+  settings: unknown,
+  path: string,
+  issues: string[]
+): void {
+  if (!isPlainObject(settings)) {
+    issues.push(`"${path}" must be an object`);
+    return;
+  }
+
+  for (const [key, value] of Object.entries(settings)) {
+    const location = `${path}.${key}`;
+
+    if (!MODEL_KEYS.includes(key)) {
+      issues.push(`unknown key "${location}"`);
+    } else if (key === "collection" && typeof value !== "string") {
+      issues.push(`"${location}" must be a string`);
+    } else if (key === "exclude" && typeof value !== "boolean") {
+      issues.push(`"${location}" must be a boolean`);
+    } else if (
+      key === "excludeFields" &&
+      !(Array.isArray(value) && value.every((f) => typeof f === "string"))
+    ) {
+      issues.push(`"${location}" must be an array of field names`);
+    } else if (key === "batchSize" && !isPositiveInteger(value)) {
+      issues.push(`"${location}" must be a positive integer`);
+    } else if (key === "defaults" && !isPlainObject(value)) {
+      issues.push(`"${location}" must be an object keyed by field name`);
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
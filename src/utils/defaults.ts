@@ -0,0 +1,179 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { hostname } from "os";
+import { ObjectId } from "mongodb";
+import { PrismaFunctionDefault } from "../types";
+
+/** Function defaults whose value is different for every document */
+const UNIQUE_VALUE_FUNCTIONS = new Set(["uuid", "cuid", "nanoid", "auto"]);
+
+/** Alphabet used by nanoid, safe for URLs */
+const NANOID_ALPHABET =
+  "useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict";
+
+/** Counter shared by cuid values generated in the same millisecond */
+let cuidCounter = Math.floor(Math.random() * 36 ** 4);
+
+/**
+ * Checks whether a default value is a function default such as `now()`.
+ *
+ * @param value - A `defaultValue`, JSON Schema `default` or backfill target value
+ * @returns True for {@link PrismaFunctionDefault} descriptors
+ */
+export function isFunctionDefault(
+  value: unknown
+): value is PrismaFunctionDefault {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as PrismaFunctionDefault).kind === "function"
+  );
+}
+
+/**
+ * Checks whether a function default can be generated outside the database.
+ * `dbgenerated()` and `autoincrement()` cannot, so they are never backfilled.
+ *
+ * @param value - The function default
+ * @returns True for `now()`, `uuid()`, `cuid()`, `nanoid()` and `auto()`
+ */
+export function isGeneratedDefault(value: PrismaFunctionDefault): boolean {
+  return value.name === "now" || UNIQUE_VALUE_FUNCTIONS.has(value.name);
+}
+
+/**
+ * Checks whether a function default produces a different value for every
+ * document, as opposed to `now()` which is the same for a whole run.
+ *
+ * @param value - A literal or function default
+ * @returns True for `uuid()`, `cuid()`, `nanoid()` and `auto()`
+ */
+export function isUniqueValueDefault(value: unknown): boolean {
+  return isFunctionDefault(value) && UNIQUE_VALUE_FUNCTIONS.has(value.name);
+}
+
+/**
+ * Formats a default value the way it is written in the schema.
+ *
+ * @param value - A literal or function default
+ * @returns The readable default
+ *
+ * @example
+ * ```typescript
+ * formatDefault({ kind: "function", name: "uuid", args: [7] }); // "uuid(7)"
+ * formatDefault("ACTIVE"); // "\"ACTIVE\""
+ * ```
+ */
+export function formatDefault(value: unknown): string {
+  if (isFunctionDefault(value)) {
+    const args = value.args.map((arg) => JSON.stringify(arg)).join(", ");
+    return `${value.name}(${args})`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Generates the value of a per-document function default.
+ *
+ * @param value - A `uuid()`, `cuid()`, `nanoid()` or `auto()` default
+ * @returns A new UUID string, cuid, nanoid or ObjectId
+ * @throws {Error} For functions that cannot be generated outside the database
+ */
+export function generateUniqueValue(
+  value: PrismaFunctionDefault
+): string | ObjectId {
+  switch (value.name) {
+    case "uuid":
+      return value.args[0] === 7 ? generateUuidV7() : randomUUID();
+    case "cuid":
+      return value.args[0] === 2 ? generateCuid2() : generateCuid();
+    case "nanoid":
+      return generateNanoid(
+        typeof value.args[0] === "number" ? value.args[0] : 21
+      );
+    case "auto":
+      return new ObjectId();
+    default:
+      throw new Error(`Cannot generate a value for ${formatDefault(value)}`);
+  }
+}
+
+/**
+ * Generates a time-ordered version 7 UUID.
+ *
+ * @returns The UUID string
+ */
+function generateUuidV7(): string {
+  const bytes = randomBytes(16);
+  const timestamp = BigInt(Date.now());
+
+  for (let i = 0; i < 6; i++) {
+    bytes[i] = Number((timestamp >> BigInt(8 * (5 - i))) & BigInt(0xff));
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = bytes.toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Generates a collision-resistant id in the original cuid format:
+ * `c` + timestamp + counter + host fingerprint + random block.
+ *
+ * @returns The 25 character cuid
+ */
+function generateCuid(): string {
+  const pad = (text: string, size: number) =>
+    text.padStart(size, "0").slice(-size);
+
+  cuidCounter = (cuidCounter + 1) % 36 ** 4;
+  const fingerprint =
+    pad(process.pid.toString(36), 2) +
+    pad(
+      [...hostname()]
+        .reduce((sum, char) => sum + char.charCodeAt(0), hostname().length + 36)
+        .toString(36),
+      2
+    );
+  const random = pad(randomBytes(6).readUIntBE(0, 6).toString(36), 8);
+
+  return (
+    "c" +
+    Date.now().toString(36) +
+    pad(cuidCounter.toString(36), 4) +
+    fingerprint +
+    random
+  );
+}
+
+/**
+ * Generates a cuid2-style id: a lowercase letter followed by a base36 hash of
+ * the time, a counter and random entropy.
+ *
+ * @returns The 24 character id
+ */
+function generateCuid2(): string {
+  cuidCounter = (cuidCounter + 1) % 36 ** 4;
+  const letter = String.fromCharCode(97 + (randomBytes(1)[0] % 26));
+  const hash = createHash("sha3-512")
+    .update(`${Date.now()}${cuidCounter}${randomBytes(32).toString("hex")}`)
+    .digest();
+  const body = BigInt(`0x${hash.toString("hex")}`).toString(36);
+
+  return letter + body.slice(1, 24);
+}
+
+/**
+ * Generates a URL-safe nanoid.
+ *
+ * @param size - Number of characters
+ * @returns The id
+ */
+function generateNanoid(size: number): string {
+  const bytes = randomBytes(size);
+  let id = "";
+  for (let i = 0; i < size; i++) {
+    id += NANOID_ALPHABET[bytes[i] & 63];
+  }
+  return id;
+}
@@ -0,0 +1,56 @@
+export interface DiffLine {
+  /** `+` added, `-` removed, ` ` unchanged */
+  type: "+" | "-" | " ";
+  line: string;
+}
+
+/**
+ * Computes a line-by-line diff of two texts using a longest common subsequence.
+ * Meant for small inputs such as pretty-printed JSON documents.
+ *
+ * @param before - The old text
+ * @param after - The new text
+ * @returns Every line of both texts, marked as added, removed or unchanged
+ *
+ * @example
+ * ```typescript
+ * diffLines("a\nb", "a\nc");
+ * // [{ type: " ", line: "a" }, { type: "-", line: "b" }, { type: "+", line: "c" }]
+ * ```
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: "-", line: a[i++] });
+    } else {
+      result.push({ type: "+", line: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "-", line: a[i++] });
+  while (j < b.length) result.push({ type: "+", line: b[j++] });
+
+  return result;
+}
@@ -0,0 +1,62 @@
+import { createHash } from "crypto";
+import { readFileSync, rmSync, writeFileSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import { pathToFileURL } from "url";
+
+/**
+ * Imports a JavaScript or TypeScript module from disk. TypeScript files are
+ * transpiled with the project's `typescript` package into a hidden `.mjs` file
+ * next to the source, which is removed once it is imported. Because it sits in
+ * the same directory, package imports resolve from the project's
+ * `node_modules` and relative imports resolve as they would from the source;
+ * relative imports must name the file as Node finds it, e.g. `./helpers.js`.
+ *
+ * @param file - Absolute path of the module
+ * @returns The module namespace
+ * @throws {Error} If TypeScript is needed but not installed, or the import fails
+ *
+ * @example
+ * ```typescript
+ * const migration = await importModule("/project/prisma/migrations/20240101120000_init.ts");
+ * await migration.up(context);
+ * ```
+ */
+export async function importModule(
+  file: string
+): Promise<{ [name: string]: unknown }> {
+  let modulePath = file;
+
+  if (file.endsWith(".ts") || file.endsWith(".mts")) {
+    let ts: typeof import("typescript");
+    try {
+      ts = (await import("typescript")).default;
+    } catch {
+      throw new Error(
+        `TypeScript is required to load ${basename(file)}, install it with "npm install -D typescript"`
+      );
+    }
+
+    const source = readFileSync(file, "utf-8");
+    const output = ts.transpileModule(source, {
+      fileName: file,
+      compilerOptions: {
+        module: ts.ModuleKind.ES2022,
+        target: ts.ScriptTarget.ES2020,
+      },
+    });
+    const hash = createHash("sha256").update(source).digest("hex");
+    modulePath = join(
+      dirname(file),
+      `.${basename(file, extname(file))}.pmm-${hash.slice(0, 8)}.mjs`
+    );
+    writeFileSync(modulePath, output.outputText);
+
+    try {
+      return await import(pathToFileURL(modulePath).href);
+    } finally {
+      rmSync(modulePath, { force: true });
+    }
+  }
+
+  return import(pathToFileURL(modulePath).href);
+}
@@ -0,0 +1,41 @@
+import { InvalidArgumentError } from "commander";
+
+/**
+ * Parses a command-line option that must be a positive integer. A bare
+ * `parseInt` would accept `10abc` and turn `abc` into `NaN`.
+ *
+ * @param value - The option value as typed
+ * @returns The parsed number
+ * @throws {InvalidArgumentError} If the value is not a positive integer, which commander reports for the option
+ *
+ * @example
+ * ```typescript
+ * command.option("--batch-size <number>", "Documents per batch", parsePositiveInteger);
+ *
+ * parsePositiveInteger("500"); // 500
+ * parsePositiveInteger("0");   // throws "must be a positive integer"
+ * ```
+ */
+export function parsePositiveInteger(value: string): number {
+  const parsed = parseNonNegativeInteger(value);
+  if (parsed < 1) {
+    throw new InvalidArgumentError("must be a positive integer");
+  }
+  return parsed;
+}
+
+/**
+ * Parses a command-line option that must be zero or a positive integer, for
+ * options where `0` has a meaning of its own (e.g. "disabled").
+ *
+ * @param value - The option value as typed
+ * @returns The parsed number
+ * @throws {InvalidArgumentError} If the value is not a non-negative integer
+ */
+export function parseNonNegativeInteger(value: string): number {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(parsed)) {
+    throw new InvalidArgumentError("must be a non-negative integer");
+  }
+  return parsed;
+}
@@ -0,0 +1,46 @@
+/**
+ * Matches ANSI color escape codes so colored cells can be measured correctly.
+ */
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+/**
+ * Renders rows as an aligned plain-text table for terminal output. Cells may
+ * contain chalk colors; padding is computed on the visible text only.
+ *
+ * @param headers - Column titles
+ * @param rows - Table rows, one string per column
+ * @returns The table as a single string, ready for `console.log`
+ *
+ * @example
+ * ```typescript
+ * console.log(renderTable(["Field", "Documents"], [["status", "150"]]));
+ * // Field   Documents
+ * // ──────  ─────────
+ * // status  150
+ * ```
+ */
+export function renderTable(headers: string[], rows: string[][]): string {
+  const visibleLength = (text: string) => text.replace(ANSI_PATTERN, "").length;
+  const widths = headers.map((header, column) =>
+    Math.max(
+      visibleLength(header),
+      ...rows.map((row) => visibleLength(row[column] ?? ""))
+    )
+  );
+
+  const formatRow = (row: string[]) =>
+    row
+      .map(
+        (cell, column) =>
+          cell + " ".repeat(widths[column] - visibleLength(cell))
+      )
+      .join("  ")
+      .trimEnd();
+
+  return [
+    formatRow(headers),
+    formatRow(widths.map((width) => "─".repeat(width))),
+    ...rows.map(formatRow),
+  ].join("\n");
+}
@@ -0,0 +1,118 @@
+import { Document, MongoServerError } from "mongodb";
+
+/**
+ * Checks a document against an equality filter, with `$lt` and `$exists`
+ * support for the few range checks the services make.
+ *
+ * @param doc - The stored document
+ * @param filter - The query filter
+ * @returns True if the document matches
+ */
+function matches(doc: Document, filter: Document): boolean {
+  return Object.entries(filter).every(([key, expected]) => {
+    const actual = doc[key];
+    if (expected && typeof expected === "object" && "$lt" in expected) {
+      return actual < expected.$lt;
+    }
+    if (expected && typeof expected === "object" && "$exists" in expected) {
+      return (actual !== undefined) === expected.$exists;
+    }
+    return actual === expected;
+  });
+}
+
+/**
+ * An in-memory stand-in for the handful of collection methods used on
+ * bookkeeping collections such as `_pmm_migrations`.
+ */
+export class FakeCollection {
+  /** The stored documents */
+  docs: Document[] = [];
+
+  /**
+   * @param collectionName - The name reported to the services
+   */
+  constructor(readonly collectionName = "fake") {}
+
+  async indexes() {
+    return [{ key: { _id: 1 }, name: "_id_" }];
+  }
+
+  async countDocuments(filter: Document = {}) {
+    return this.docs.filter((doc) => matches(doc, filter)).length;
+  }
+
+  async insertOne(doc: Document) {
+    if (this.docs.some((existing) => existing._id === doc._id)) {
+      throw new MongoServerError({ message: "duplicate key", code: 11000 });
+    }
+    this.docs.push({ ...doc });
+    return { insertedId: doc._id };
+  }
+
+  async findOne(filter: Document) {
+    return this.docs.find((doc) => matches(doc, filter)) ?? null;
+  }
+
+  async findOneAndUpdate(filter: Document, update: Document) {
+    const doc = this.docs.find((existing) => matches(existing, filter));
+    if (!doc) return null;
+    const before = { ...doc };
+    Object.assign(doc, update.$set);
+    return before;
+  }
+
+  async updateOne(filter: Document, update: Document) {
+    const doc = this.docs.find((existing) => matches(existing, filter));
+    if (doc) Object.assign(doc, update.$set);
+    return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+  }
+
+  async updateMany(filter: Document, update: Document) {
+    const found = this.docs.filter((doc) => matches(doc, filter));
+    for (const doc of found) {
+      Object.assign(doc, update.$set);
+      for (const [from, to] of Object.entries(update.$rename ?? {})) {
+        doc[to as string] = doc[from];
+        delete doc[from];
+      }
+    }
+    return { matchedCount: found.length, modifiedCount: found.length };
+  }
+
+  async deleteOne(filter: Document) {
+    const index = this.docs.findIndex((doc) => matches(doc, filter));
+    if (index >= 0) this.docs.splice(index, 1);
+    return { deletedCount: index >= 0 ? 1 : 0 };
+  }
+
+  find(filter: Document = {}, options: Document = {}) {
+    const found = this.docs
+      .filter((doc) => matches(doc, filter))
+      .slice(0, options.limit ?? Infinity);
+    const cursor = {
+      sort: (sort: Document) => {
+        const [[key, direction]] = Object.entries(sort);
+        found.sort((a, b) => (a[key] < b[key] ? -direction : direction));
+        return cursor;
+      },
+      toArray: async () => found,
+    };
+    return cursor;
+  }
+}
+
+/**
+ * Creates a stand-in for `MongoClient` whose databases all hand out the
+ * given collection.
+ *
+ * @param collection - The collection every `db().collection()` call returns
+ * @returns The fake client
+ */
+export function createFakeClient(collection: FakeCollection) {
+  return {
+    connect: async () => undefined,
+    close: async () => undefined,
+    db: () => ({ collection: () => collection }),
+  };
+}
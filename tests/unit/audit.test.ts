@@ -0,0 +1,100 @@
+import { readFileSync } from "fs";
+import { Document, Double, Int32, Long } from "mongodb";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { JsonSchemaGenerator } from "../../src/generators/json-schema.generator";
+import { AuditService } from "../../src/services/audit.service";
+
+const schema = new PrismaSchemaParser(
+  readFileSync("tests/fixtures/test-schema.prisma", "utf8")
+).parse();
+const [user] = schema.models;
+const service = new AuditService("mongodb://localhost:27017", "test", schema);
+const jsonSchema = new JsonSchemaGenerator(schema).generateSchema(user);
+
+/** A stored user document that matches the schema, read without promoting values */
+const valid = {
+  email: "ada@example.com",
+  full_name: "Ada",
+  role: "admin",
+  tags: ["a"],
+  visits: new Int32(1),
+  balance: Long.fromNumber(12),
+  createdAt: new Date(),
+  address: { street: "Main", geo: { lat: new Double(1), lng: new Double(2) } },
+  addresses: [],
+};
+
+/**
+ * @param doc - The stored document
+ * @returns The violations found in it
+ */
+function check(doc: Document) {
+  const found: Document[] = [];
+  service["checkObject"](doc, user.fields, jsonSchema, "", found as never);
+  return found;
+}
+
+describe("AuditService", () => {
+  it("accepts documents that match the schema", () => {
+    expect(check(valid)).toEqual([]);
+  });
+
+  it("reports missing required fields and nulls in non-optional fields", () => {
+    const withoutEmail: Document = { ...valid };
+    delete withoutEmail.email;
+
+    expect(check({ ...withoutEmail, full_name: null, nickname: null })).toEqual(
+      [
+        { path: "email", kind: "missing", expected: "required" },
+        { path: "fullName", kind: "null", expected: "non-null" },
+      ]
+    );
+  });
+
+  it("reports missing fields with a default, but not missing lists", () => {
+    const withoutDefaults: Document = { ...valid };
+    for (const key of ["role", "visits", "tags", "addresses"]) {
+      delete withoutDefaults[key];
+    }
+
+    expect(check(withoutDefaults)).toEqual([
+      { path: "role", kind: "missing", expected: "required, has @default" },
+      { path: "visits", kind: "missing", expected: "required, has @default" },
+    ]);
+  });
+
+  it("reports values of the wrong BSON type", () => {
+    expect(
+      check({ ...valid, visits: new Double(1.5), createdAt: "2024-01-01" })
+    ).toEqual([
+      { path: "visits", kind: "type", expected: "int" },
+      { path: "createdAt", kind: "type", expected: "date" },
+    ]);
+  });
+
+  it("reports values outside the enum", () => {
+    expect(check({ ...valid, role: "OWNER" })).toEqual([
+      { path: "role", kind: "enum", expected: "enum Role" },
+    ]);
+    // ADMIN is stored as its @map name
+    expect(check({ ...valid, role: "ADMIN" })).toEqual([
+      { path: "role", kind: "enum", expected: "enum Role" },
+    ]);
+  });
+
+  it("checks embedded documents and list elements", () => {
+    expect(
+      check({
+        ...valid,
+        address: { street: "Main", geo: { lat: "north", lng: new Double(2) } },
+        addresses: [{ street: new Int32(4) }, "home"],
+        tags: "a",
+      })
+    ).toEqual([
+      { path: "tags", kind: "type", expected: "string[]" },
+      { path: "address.geo.lat", kind: "type", expected: "double" },
+      { path: "addresses[].street", kind: "type", expected: "string" },
+      { path: "addresses[]", kind: "type", expected: "type Address" },
+    ]);
+  });
+});
@@ -0,0 +1,643 @@
+import { readFileSync } from "fs";
+import { Document, Double, Int32, MongoServerError, ObjectId } from "mongodb";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { JsonSchemaGenerator } from "../../src/generators/json-schema.generator";
+import {
+  createRunId,
+  MongoBackfillService,
+} from "../../src/services/backfill.service";
+import { BackfillCheckpointError } from "../../src/errors/backfill-checkpoint.error";
+import {
+  BackfillProgressEvent,
+  BackfillResult,
+  BackfillThrottleEvent,
+  MongoBackfillOptions,
+  PrismaFunctionDefault,
+} from "../../src/types";
+
+const schema = new PrismaSchemaParser(
+  readFileSync("tests/fixtures/test-schema.prisma", "utf8")
+).parse();
+const service = new MongoBackfillService("mongodb://localhost:27017", "test", {
+  logger: null,
+});
+
+describe("MongoBackfillService", () => {
+  describe("default targets", () => {
+    it("collects defaults inside embedded documents and lists of them", () => {
+      const targets = service["collectDefaultTargets"](
+        {
+          status: { type: "string", default: "ACTIVE" },
+          address: {
+            type: "object",
+            properties: { country: { type: "string", default: "MZ" } },
+          },
+          items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { qty: { type: "number", default: 1 } },
+            },
+          },
+        },
+        []
+      );
+
+      expect(targets).toEqual([
+        { segments: ["status"], value: "ACTIVE" },
+        { segments: ["address", "country"], value: "MZ" },
+        { segments: ["items", "[]", "qty"], value: 1 },
+      ]);
+    });
+
+    it("reads the defaults of the generated JSON Schema", () => {
+      const [user] = schema.models;
+      const jsonSchema = new JsonSchemaGenerator(schema).generateSchema(user);
+      const paths = service["collectDefaultTargets"](
+        jsonSchema.properties,
+        []
+      ).map((target) => service["formatTargetPath"](target.segments));
+
+      expect(paths).toEqual(["role", "tags", "visits", "balance", "createdAt"]);
+    });
+  });
+
+  describe("function defaults", () => {
+    const now: PrismaFunctionDefault = {
+      kind: "function",
+      name: "now",
+      args: [],
+    };
+    const uuid: PrismaFunctionDefault = {
+      kind: "function",
+      name: "uuid",
+      args: [],
+    };
+
+    it("skips defaults the database has to generate", () => {
+      const targets = service["collectDefaultTargets"](
+        {
+          createdAt: { type: "string", "x-defaultFunction": now },
+          legacyId: {
+            type: "string",
+            "x-defaultFunction": {
+              kind: "function",
+              name: "dbgenerated",
+              args: ["gen()"],
+            },
+          },
+        },
+        []
+      );
+
+      expect(targets).toEqual([{ segments: ["createdAt"], value: now }]);
+    });
+
+    it("writes now() as the run start or the ObjectId timestamp", () => {
+      const doc = { _id: new ObjectId("65f000000000000000000000") };
+      const target = { segments: ["createdAt"], value: now, bsonType: "date" };
+      const fromObjectId = new MongoBackfillService(
+        "mongodb://localhost:27017",
+        "test",
+        { nowFromObjectId: true }
+      );
+
+      expect(service["resolveValue"](target, doc)).toBe(
+        service["runStartedAt"]
+      );
+      expect(fromObjectId["resolveValue"](target, doc)).toEqual(
+        doc._id.getTimestamp()
+      );
+    });
+
+    it("converts values to the BSON type of the field", () => {
+      const visits = service["resolveValue"]({
+        segments: ["visits"],
+        value: 0,
+        bsonType: "int",
+      });
+      const ratio = service["resolveValue"]({
+        segments: ["ratio"],
+        value: 1,
+        bsonType: "double",
+      });
+
+      expect(visits).toBeInstanceOf(Int32);
+      expect(ratio).toBeInstanceOf(Double);
+    });
+
+    it("uses bulkWrite for values that differ per document", () => {
+      expect(
+        service["resolveStrategy"]([{ segments: ["token"], value: uuid }])
+      ).toBe("bulkWrite");
+      expect(
+        service["resolveStrategy"]([{ segments: ["createdAt"], value: now }])
+      ).toBe("pipeline");
+    });
+  });
+
+  describe("missing values", () => {
+    it("treats absent and null values as missing", () => {
+      expect(service["isMissingAt"]({}, ["status"])).toBe(true);
+      expect(service["isMissingAt"]({ status: null }, ["status"])).toBe(true);
+      expect(service["isMissingAt"]({ status: "" }, ["status"])).toBe(false);
+    });
+
+    it("leaves missing or null embedded documents alone", () => {
+      expect(service["isMissingAt"]({}, ["address", "country"])).toBe(false);
+      expect(
+        service["isMissingAt"]({ address: null }, ["address", "country"])
+      ).toBe(false);
+      expect(
+        service["isMissingAt"]({ address: {} }, ["address", "country"])
+      ).toBe(true);
+    });
+
+    it("checks every element of a list of embedded documents", () => {
+      const segments = ["items", "[]", "qty"];
+
+      expect(
+        service["isMissingAt"]({ items: [{ qty: 2 }, {}] }, segments)
+      ).toBe(true);
+      expect(service["isMissingAt"]({ items: [{ qty: 2 }] }, segments)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("update paths", () => {
+    it("sets embedded fields with a dotted path", () => {
+      expect(service["buildUpdatePath"](["address", "city"], "el0")).toEqual({
+        path: "address.city",
+        arrayFilters: [],
+      });
+    });
+
+    it("uses filtered positional operators for lists", () => {
+      expect(
+        service["buildUpdatePath"](["items", "[]", "size", "width"], "el1")
+      ).toEqual({
+        path: "items.$[el1x0].size.width",
+        arrayFilters: [
+          { "el1x0.size": { $type: "object" }, "el1x0.size.width": null },
+        ],
+      });
+    });
+  });
+
+  describe("write strategies", () => {
+    const status = { segments: ["status"], value: "ACTIVE" };
+    const qty = { segments: ["items", "[]", "qty"], value: 1 };
+
+    it("uses the pipeline for top-level defaults and bulkWrite otherwise", () => {
+      expect(service["resolveStrategy"]([status])).toBe("pipeline");
+      expect(service["resolveStrategy"]([status, qty])).toBe("bulkWrite");
+    });
+
+    it("keeps an explicitly chosen strategy", () => {
+      const updateMany = new MongoBackfillService(
+        "mongodb://localhost:27017",
+        "test",
+        { strategy: "updateMany" }
+      );
+
+      expect(updateMany["resolveStrategy"]([status, qty])).toBe("updateMany");
+    });
+
+    it("matches documents missing a value at any depth", () => {
+      expect(service["buildTargetFilter"](["address", "city"])).toEqual({
+        address: { $type: "object" },
+        "address.city": null,
+      });
+      expect(service["buildMissingFilter"]([status, qty])).toEqual({
+        $or: [{ status: null }, { items: { $elemMatch: { qty: null } } }],
+      });
+    });
+
+    /**
+     * Creates the result of a backfill that has just started on `things`.
+     */
+    const createResult = (): BackfillResult => ({
+      model: "Thing",
+      collection: "things",
+      status: "completed",
+      strategy: "pipeline",
+      fields: [],
+      matchedCount: 0,
+      modifiedCount: 0,
+      durationMs: 0,
+      errors: [],
+    });
+
+    it("fills top-level defaults in a single pipeline update", async () => {
+      const calls: unknown[][] = [];
+      const collection = {
+        updateMany: async (...args: unknown[]) => {
+          calls.push(args);
+          return { matchedCount: 3, modifiedCount: 2 };
+        },
+      };
+      const progress: BackfillProgressEvent[] = [];
+      service.on("progress", (event) => progress.push(event));
+      const result = createResult();
+
+      await service["runPipelineUpdate"](
+        collection as never,
+        [status],
+        result,
+        {}
+      );
+      service.removeAllListeners("progress");
+
+      expect(calls).toEqual([
+        [
+          { $or: [{ status: null }] },
+          [
+            {
+              $set: {
+                status: { $ifNull: ["$status", { $literal: "ACTIVE" }] },
+              },
+            },
+          ],
+        ],
+      ]);
+      expect(result).toMatchObject({ matchedCount: 3, modifiedCount: 2 });
+      expect(progress).toEqual([
+        {
+          model: "Thing",
+          collection: "things",
+          strategy: "pipeline",
+          matchedCount: 3,
+          modifiedCount: 2,
+        },
+      ]);
+    });
+
+    it("records server errors on the result instead of throwing", async () => {
+      const collection = {
+        updateMany: async () => {
+          throw new MongoServerError({ message: "Document failed validation" });
+        },
+      };
+      const result = createResult();
+
+      await service["runPipelineUpdate"](
+        collection as never,
+        [status],
+        result,
+        {}
+      );
+
+      expect(result.errors).toEqual([
+        { message: "Document failed validation" },
+      ]);
+      expect(result.modifiedCount).toBe(0);
+    });
+  });
+
+  describe("checkpoints", () => {
+    const status = { segments: ["status"], value: "ACTIVE" };
+
+    it("saves a checkpoint after each _id range and deletes it when done", async () => {
+      const checkpointed = new MongoBackfillService(
+        "mongodb://localhost:27017",
+        "test",
+        { batchSize: 2, checkpoints: true, logger: null }
+      );
+      const scopes: unknown[] = [];
+      checkpointed["runStrategy"] = async (
+        _db,
+        _collection,
+        _targets,
+        result,
+        scope
+      ) => {
+        scopes.push(scope);
+        result.matchedCount += 2;
+        result.modifiedCount += 1;
+      };
+      const boundaries = [{ _id: 2 }, { _id: 4 }];
+      const collection = {
+        collectionName: "things",
+        find: () => ({ next: async () => boundaries.shift() ?? null }),
+      };
+      const saved: Document[] = [];
+      const deleted: Document[] = [];
+      const db = {
+        collection: () => ({
+          replaceOne: async (_filter: Document, doc: Document) => {
+            saved.push({ ...doc });
+          },
+          deleteOne: async (filter: Document) => {
+            deleted.push(filter);
+          },
+        }),
+      };
+      const result = {
+        model: "Thing",
+        collection: "things",
+        status: "completed" as const,
+        strategy: "pipeline" as const,
+        fields: [],
+        matchedCount: 0,
+        modifiedCount: 0,
+        durationMs: 0,
+        errors: [],
+      };
+
+      await checkpointed["runRanges"](
+        db as never,
+        collection as never,
+        [status],
+        result,
+        null
+      );
+
+      expect(scopes).toEqual([
+        { $and: [{}, { _id: { $lte: 2 } }] },
+        { $and: [{ _id: { $gt: 2 } }, { _id: { $lte: 4 } }] },
+        { _id: { $gt: 4 } },
+      ]);
+      expect(
+        saved.map(({ lastId, matchedCount }) => [lastId, matchedCount])
+      ).toEqual([
+        [2, 2],
+        [4, 4],
+      ]);
+      expect(deleted).toEqual([{ _id: "Thing" }]);
+    });
+
+    it("refuses to resume when the defaults changed", async () => {
+      const db = {
+        collection: () => ({
+          findOne: async () => ({ _id: "Thing", defaultsHash: "outdated" }),
+        }),
+      };
+
+      await expect(
+        service["loadCheckpoint"](db as never, schema.models[0], [status])
+      ).rejects.toThrow(BackfillCheckpointError);
+    });
+
+    it("hashes the paths, values and types of the defaults", () => {
+      expect(service["hashTargets"]([status])).toBe(
+        service["hashTargets"]([{ ...status }])
+      );
+      expect(service["hashTargets"]([status])).not.toBe(
+        service["hashTargets"]([{ ...status, value: "ARCHIVED" }])
+      );
+    });
+  });
+
+  describe("backups", () => {
+    it("creates sortable run IDs", () => {
+      expect(createRunId()).toMatch(/^\d{14}-[0-9a-f]{4}$/);
+    });
+
+    it("copies the original top-level values before writing", async () => {
+      const backedUp = new MongoBackfillService(
+        "mongodb://localhost:27017",
+        "test",
+        { backup: true, runId: "run-1", logger: null }
+      );
+      const pipelines: Document[][] = [];
+      const collection = {
+        collectionName: "users",
+        aggregate: (pipeline: Document[]) => {
+          pipelines.push(pipeline);
+          return { toArray: async () => [] };
+        },
+      };
+
+      await backedUp["backupDocuments"](
+        collection as never,
+        [
+          { segments: ["address", "city"], value: "Maputo" },
+          { segments: ["address", "country"], value: "MZ" },
+        ],
+        { _id: { $gt: new ObjectId("65f000000000000000000000") } }
+      );
+
+      expect(pipelines).toEqual([
+        [
+          {
+            $match: {
+              $and: [
+                {
+                  $or: [
+                    { address: { $type: "object" }, "address.city": null },
+                    { address: { $type: "object" }, "address.country": null },
+                  ],
+                },
+                { _id: { $gt: new ObjectId("65f000000000000000000000") } },
+              ],
+            },
+          },
+          {
+            $project: {
+              _id: { collection: "users", id: "$_id" },
+              values: { address: "$address" },
+            },
+          },
+          {
+            $merge: {
+              into: "_pmm_backups.run-1",
+              whenMatched: "keepExisting",
+              whenNotMatched: "insert",
+            },
+          },
+        ],
+      ]);
+    });
+  });
+
+  describe("throttling", () => {
+    const result: BackfillResult = {
+      model: "Thing",
+      collection: "things",
+      status: "completed",
+      strategy: "pipeline",
+      fields: [],
+      matchedCount: 0,
+      modifiedCount: 0,
+      durationMs: 0,
+      errors: [],
+    };
+
+    /**
+     * Creates a service with throttling options and records its throttle events.
+     *
+     * @param options - Throttling options
+     */
+    const createThrottled = (options: MongoBackfillOptions) => {
+      const throttled = new MongoBackfillService(
+        "mongodb://localhost:27017",
+        "test",
+        { ...options, logger: null }
+      );
+      const events: BackfillThrottleEvent[] = [];
+      throttled.on("throttle", (event) => events.push(event));
+      return { throttled, events };
+    };
+
+    it("waits long enough to stay under the rate limit, then pauses", async () => {
+      const { throttled, events } = createThrottled({
+        maxDocsPerSecond: 1000,
+        batchPauseMs: 5,
+      });
+
+      await throttled["throttle"](result, 20, 5);
+
+      expect(events).toEqual([
+        {
+          model: "Thing",
+          collection: "things",
+          reason: "rate",
+          waitMs: 15,
+          replicationLagMs: undefined,
+        },
+        {
+          model: "Thing",
+          collection: "things",
+          reason: "pause",
+          waitMs: 5,
+          replicationLagMs: undefined,
+        },
+      ]);
+      expect(throttled["isThrottled"]()).toBe(true);
+      expect(service["isThrottled"]()).toBe(false);
+    });
+
+    /**
+     * Answers `replSetGetStatus` with members at the given lags behind the
+     * primary, and `replSetGetConfig` with the given member settings.
+     *
+     * @param lags - Lag of each secondary, called once per check
+     * @param configMembers - Replica set config members
+     */
+    const createReplicaSet = (
+      lags: () => number[],
+      configMembers: Document[] = []
+    ) =>
+      ({
+        db: () => ({
+          command: async (command: Document) =>
+            command.replSetGetConfig
+              ? { config: { members: configMembers } }
+              : {
+                  members: [
+                    { _id: 0, state: 1, optimeDate: new Date(10000) },
+                    ...lags().map((lag, index) => ({
+                      _id: index + 1,
+                      state: 2,
+                      optimeDate: new Date(10000 - lag),
+                    })),
+                    { _id: 9, state: 8, optimeDate: new Date(0) },
+                  ],
+                },
+        }),
+      }) as never;
+
+    it("backs off while the slowest secondary lags behind", async () => {
+      const { throttled, events } = createThrottled({
+        maxReplicationLagMs: 1000,
+        replicationLagCheckMs: 1,
+      });
+      const lags = [3000, 500];
+      throttled["client"] = createReplicaSet(() => [lags.shift()!, 0]);
+
+      await throttled["throttle"](result, 0, 0);
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          reason: "replicationLag",
+          waitMs: 1,
+          replicationLagMs: 3000,
+        }),
+      ]);
+    });
+
+    it("ignores hidden and delayed members", async () => {
+      const { throttled } = createThrottled({ maxReplicationLagMs: 1000 });
+      throttled["client"] = createReplicaSet(
+        () => [3600000, 5000, 200],
+        [
+          { _id: 1, secondaryDelaySecs: 3600 },
+          { _id: 2, hidden: true },
+          { _id: 3 },
+        ]
+      );
+
+      await expect(throttled["measureReplicationLag"]()).resolves.toBe(200);
+    });
+
+    it("fails when the lag stays above the limit too long", async () => {
+      const { throttled, events } = createThrottled({
+        maxReplicationLagMs: 1000,
+        replicationLagCheckMs: 1,
+        maxReplicationWaitMs: 3,
+      });
+      throttled["client"] = createReplicaSet(() => [5000]);
+
+      await expect(throttled["throttle"](result, 0, 0)).rejects.toThrow(
+        "Replication lag of 5000ms stayed above 1000ms for 3ms"
+      );
+      expect(events).toHaveLength(3);
+    });
+
+    it("fails when the lag cannot be measured", async () => {
+      const { throttled } = createThrottled({ maxReplicationLagMs: 1000 });
+      throttled["client"] = {
+        db: () => ({
+          command: async () => {
+            throw new Error("not running with --replSet");
+          },
+        }),
+      } as never;
+
+      await expect(throttled["measureReplicationLag"]()).rejects.toThrow(
+        "Cannot check replication lag with replSetGetStatus"
+      );
+    });
+  });
+
+  it("skips models without defaults and emits a skip event", async () => {
+    const [, post] = schema.models;
+    const skips: unknown[] = [];
+    service.on("skip", (event) => skips.push(event));
+
+    const result = await service.backfillCollection(post, {
+      type: "object",
+      properties: { authorId: { type: "string" } },
+      required: ["authorId"],
+    });
+    service.removeAllListeners("skip");
+
+    expect(result).toMatchObject({
+      model: "Post",
+      collection: null,
+      status: "skipped",
+      skipReason: "noDefaults",
+      fields: [],
+    });
+    expect(skips).toEqual([{ model: "Post", reason: "noDefaults" }]);
+  });
+
+  describe("dry run", () => {
+    it("reports models without defaults without connecting", async () => {
+      const [, post] = schema.models;
+      const report = await service.countBackfillImpact(post, {
+        type: "object",
+        properties: { authorId: { type: "string" } },
+        required: ["authorId"],
+      });
+
+      expect(report).toEqual({
+        model: "Post",
+        collection: null,
+        documentCount: 0,
+        fields: [],
+      });
+    });
+  });
+});
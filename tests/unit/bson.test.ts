@@ -0,0 +1,102 @@
+import {
+  Binary,
+  Decimal128,
+  Double,
+  Int32,
+  Long,
+  ObjectId,
+  Timestamp,
+} from "mongodb";
+import {
+  coerceBsonValue,
+  coerceFieldValue,
+  resolveBsonType,
+} from "../../src/utils/bson";
+import { BsonCoercionError } from "../../src/errors/bson-coercion.error";
+
+describe("resolveBsonType", () => {
+  it("maps Prisma scalar types", () => {
+    expect(resolveBsonType({ type: "Float", attributes: [] })).toBe("double");
+    expect(resolveBsonType({ type: "BigInt", attributes: [] })).toBe("long");
+    expect(resolveBsonType({ type: "Json", attributes: [] })).toBeUndefined();
+  });
+
+  it("prefers @db native types", () => {
+    expect(
+      resolveBsonType({ type: "String", attributes: ["@db.ObjectId"] })
+    ).toBe("objectId");
+    expect(resolveBsonType({ type: "Int", attributes: ["@db.Long"] })).toBe(
+      "long"
+    );
+  });
+});
+
+describe("coerceBsonValue", () => {
+  it("keeps null, undefined and values without a BSON type", () => {
+    expect(coerceBsonValue(null, "date")).toBeNull();
+    expect(coerceBsonValue(undefined, "int")).toBeUndefined();
+    expect(coerceBsonValue({ a: 1 })).toEqual({ a: 1 });
+  });
+
+  it("converts numbers to int, double, long and decimal", () => {
+    expect(coerceBsonValue(7, "int")).toEqual(new Int32(7));
+    expect(coerceBsonValue(1, "double")).toEqual(new Double(1));
+    expect(coerceBsonValue("9007199254740993", "long")).toEqual(
+      Long.fromString("9007199254740993")
+    );
+    expect(coerceBsonValue(1.5, "decimal")).toEqual(
+      Decimal128.fromString("1.5")
+    );
+  });
+
+  it("converts dates, timestamps, booleans and strings", () => {
+    expect(coerceBsonValue("2024-01-01T00:00:00Z", "date")).toEqual(
+      new Date("2024-01-01T00:00:00Z")
+    );
+    expect(coerceBsonValue(86_400_000, "timestamp")).toEqual(
+      Timestamp.fromBits(0, 86_400)
+    );
+    expect(coerceBsonValue("true", "bool")).toBe(true);
+    expect(coerceBsonValue(42, "string")).toBe("42");
+  });
+
+  it("converts base64 strings and hex ids", () => {
+    expect(coerceBsonValue("aGVsbG8=", "binData")).toEqual(
+      new Binary(Buffer.from("hello"))
+    );
+    expect(coerceBsonValue("65f000000000000000000000", "objectId")).toEqual(
+      new ObjectId("65f000000000000000000000")
+    );
+  });
+
+  it("converts lists element by element", () => {
+    expect(coerceBsonValue([1, 2], "int")).toEqual([
+      new Int32(1),
+      new Int32(2),
+    ]);
+  });
+
+  it.each([
+    [1.5, "int", "expected a 32-bit integer"],
+    [2 ** 31, "int", "expected a 32-bit integer"],
+    ["abc", "double", "expected a number"],
+    ["1.5", "long", "expected an integer"],
+    ["yesterday", "date", "invalid date"],
+    ["xyz", "objectId", "expected a 24 character hex string"],
+    [{}, "string", "expected a string"],
+  ])("refuses %j as %s", (value, bsonType, reason) => {
+    expect(() => coerceBsonValue(value, bsonType)).toThrow(BsonCoercionError);
+    expect(() => coerceBsonValue(value, bsonType)).toThrow(reason);
+  });
+});
+
+describe("coerceFieldValue", () => {
+  it("converts to the type of the field", () => {
+    expect(
+      coerceFieldValue("65f000000000000000000000", {
+        type: "String",
+        attributes: ["@db.ObjectId"],
+      })
+    ).toBeInstanceOf(ObjectId);
+  });
+});
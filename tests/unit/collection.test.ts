@@ -0,0 +1,38 @@
+import { readFileSync } from "fs";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import {
+  getEnumValueKey,
+  getFieldKey,
+  toEnumDefault,
+  toEnumValueKey,
+} from "../../src/utils/collection";
+
+const schema = new PrismaSchemaParser(
+  readFileSync("tests/fixtures/test-schema.prisma", "utf8")
+).parse();
+const [user] = schema.models;
+const [role] = schema.enums;
+
+describe("stored keys", () => {
+  it("resolves the key a field is stored under", () => {
+    const key = (name: string) =>
+      getFieldKey(user.fields.find((field) => field.name === name)!);
+
+    expect(key("id")).toBe("_id");
+    expect(key("fullName")).toBe("full_name");
+    expect(key("email")).toBe("email");
+  });
+
+  it("resolves the value an enum value is stored as", () => {
+    expect(role.values.map(getEnumValueKey)).toEqual(["USER", "admin"]);
+    expect(toEnumValueKey(role, "ADMIN")).toBe("admin");
+    expect(toEnumValueKey(role, "admin")).toBe("admin");
+    expect(toEnumValueKey(role, "OWNER")).toBe("OWNER");
+  });
+
+  it("resolves enum defaults, including lists", () => {
+    expect(toEnumDefault(role, "ADMIN")).toBe("admin");
+    expect(toEnumDefault(role, ["USER", "ADMIN"])).toEqual(["USER", "admin"]);
+    expect(toEnumDefault(role, null)).toBeNull();
+  });
+});
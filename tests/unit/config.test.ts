@@ -0,0 +1,138 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  findConfigFile,
+  loadConfig,
+  validateConfig,
+} from "../../src/utils/config";
+import { ConfigError } from "../../src/errors/config.error";
+
+/**
+ * Runs `validateConfig` and returns the issues it reported.
+ *
+ * @param raw - The config to validate
+ * @returns The issues, or an empty array if the config is valid
+ */
+function issuesOf(raw: unknown): string[] {
+  try {
+    validateConfig(raw, "pmm.config.json");
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError);
+    return (error as ConfigError).issues;
+  }
+}
+
+describe("validateConfig", () => {
+  it("accepts a complete config", () => {
+    const config = {
+      $schema: "./node_modules/prisma-mongo-migrator/schema.json",
+      schema: "prisma/schema.prisma",
+      connection: "mongodb://localhost:27017",
+      database: "myapp",
+      batchSize: 500,
+      strategy: "pipeline",
+      models: {
+        User: {
+          collection: "users",
+          excludeFields: ["legacy"],
+          batchSize: 100,
+          defaults: { role: "USER" },
+        },
+        AuditLog: { exclude: true },
+      },
+    };
+
+    expect(validateConfig(config, "pmm.config.json")).toBe(config);
+  });
+
+  it("rejects anything but an object", () => {
+    expect(issuesOf([])).toEqual(["the config must be an object"]);
+    expect(issuesOf(null)).toEqual(["the config must be an object"]);
+  });
+
+  it("reports every problem at once", () => {
+    expect(
+      issuesOf({
+        schema: 1,
+        batchSize: 1.5,
+        strategy: "fast",
+        connectionString: "mongodb://localhost",
+      })
+    ).toEqual([
+      `"schema" must be a string`,
+      `"batchSize" must be a positive integer`,
+      `"strategy" must be one of auto, pipeline, updateMany, bulkWrite`,
+      `unknown key "connectionString"`,
+    ]);
+  });
+
+  it("checks model entries", () => {
+    expect(issuesOf({ models: [] })).toEqual([
+      `"models" must be an object keyed by model name`,
+    ]);
+    expect(
+      issuesOf({
+        models: {
+          User: {
+            collection: 1,
+            exclude: "yes",
+            excludeFields: [1],
+            batchSize: 0,
+            defaults: [],
+            extra: true,
+          },
+          Post: "skip",
+        },
+      })
+    ).toEqual([
+      `"models.User.collection" must be a string`,
+      `"models.User.exclude" must be a boolean`,
+      `"models.User.excludeFields" must be an array of field names`,
+      `"models.User.batchSize" must be a positive integer`,
+      `"models.User.defaults" must be an object keyed by field name`,
+      `unknown key "models.User.extra"`,
+      `"models.Post" must be an object`,
+    ]);
+  });
+});
+
+describe("config files", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "pmm-config-"));
+  });
+
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  it("finds the nearest config file in parent directories", () => {
+    const nested = join(directory, "packages", "api");
+    mkdirSync(nested, { recursive: true });
+    expect(findConfigFile(nested)).not.toBe(join(directory, "pmm.config.json"));
+
+    writeFileSync(join(directory, "pmm.config.json"), "{}");
+    expect(findConfigFile(nested)).toBe(join(directory, "pmm.config.json"));
+  });
+
+  it("resolves paths against the config file directory", async () => {
+    const file = join(directory, "pmm.config.json");
+    writeFileSync(
+      file,
+      JSON.stringify({ schema: "prisma/schema.prisma", database: "myapp" })
+    );
+
+    expect(await loadConfig(file)).toEqual({
+      schema: join(directory, "prisma", "schema.prisma"),
+      database: "myapp",
+    });
+  });
+
+  it("reports unreadable files as config errors", async () => {
+    const file = join(directory, "pmm.config.json");
+    writeFileSync(file, "{ invalid");
+
+    await expect(loadConfig(file)).rejects.toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,87 @@
+import { ObjectId } from "mongodb";
+import { PrismaFunctionDefault } from "../../src/types";
+import {
+  formatDefault,
+  generateUniqueValue,
+  isFunctionDefault,
+  isGeneratedDefault,
+  isUniqueValueDefault,
+} from "../../src/utils/defaults";
+
+/**
+ * @param name - Function name
+ * @param args - Function arguments
+ * @returns The function default
+ */
+function call(name: string, ...args: unknown[]): PrismaFunctionDefault {
+  return { kind: "function", name, args };
+}
+
+describe("function defaults", () => {
+  it("tells function defaults from literals", () => {
+    expect(isFunctionDefault(call("now"))).toBe(true);
+    expect(isFunctionDefault("now()")).toBe(false);
+    expect(isFunctionDefault(null)).toBe(false);
+  });
+
+  it("only generates values that do not come from the database", () => {
+    expect(isGeneratedDefault(call("now"))).toBe(true);
+    expect(isGeneratedDefault(call("cuid"))).toBe(true);
+    expect(isGeneratedDefault(call("dbgenerated", "gen()"))).toBe(false);
+    expect(isGeneratedDefault(call("autoincrement"))).toBe(false);
+    expect(isUniqueValueDefault(call("now"))).toBe(false);
+    expect(isUniqueValueDefault(call("uuid"))).toBe(true);
+  });
+
+  it("formats defaults as written in the schema", () => {
+    expect(formatDefault(call("uuid", 7))).toBe("uuid(7)");
+    expect(formatDefault(call("dbgenerated", "gen()"))).toBe(
+      'dbgenerated("gen()")'
+    );
+    expect(formatDefault("ACTIVE")).toBe('"ACTIVE"');
+  });
+
+  describe("generateUniqueValue", () => {
+    it("generates version 4 and version 7 UUIDs", () => {
+      const v4 = generateUniqueValue(call("uuid"));
+      const v7 = generateUniqueValue(call("uuid", 7)) as string;
+
+      expect(v4).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-/);
+      expect(v7).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+      const millis = parseInt(v7.replace(/-/g, "").slice(0, 12), 16);
+      expect(Math.abs(millis - Date.now())).toBeLessThan(60_000);
+    });
+
+    it("generates cuids in both formats", () => {
+      expect(generateUniqueValue(call("cuid"))).toMatch(/^c[0-9a-z]{24}$/);
+      expect(generateUniqueValue(call("cuid", 2))).toMatch(
+        /^[a-z][0-9a-z]{23}$/
+      );
+    });
+
+    it("generates nanoids of the requested size", () => {
+      expect(generateUniqueValue(call("nanoid"))).toMatch(/^[\w-]{21}$/);
+      expect(generateUniqueValue(call("nanoid", 10))).toMatch(/^[\w-]{10}$/);
+    });
+
+    it("generates ObjectIds for auto()", () => {
+      expect(generateUniqueValue(call("auto"))).toBeInstanceOf(ObjectId);
+    });
+
+    it("generates a new value every time", () => {
+      const values = new Set(
+        Array.from({ length: 50 }, () => generateUniqueValue(call("cuid")))
+      );
+
+      expect(values.size).toBe(50);
+    });
+
+    it("refuses functions evaluated by the database", () => {
+      expect(() => generateUniqueValue(call("autoincrement"))).toThrow(
+        "Cannot generate a value for autoincrement()"
+      );
+    });
+  });
+});
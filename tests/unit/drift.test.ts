@@ -0,0 +1,114 @@
+import { readFileSync } from "fs";
+import { Document } from "mongodb";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { DriftService } from "../../src/services/drift.service";
+
+const schema = new PrismaSchemaParser(
+  readFileSync("tests/fixtures/test-schema.prisma", "utf8")
+).parse();
+const user = schema.models.find((model) => model.name === "User")!;
+
+/** Stored keys of `users`, as counted by the `$facet` stage */
+const keyCounts = [
+  { _id: "_id", count: 10 },
+  { _id: "email", count: 10 },
+  { _id: "full_name", count: 10 },
+  { _id: "role", count: 10 },
+  { _id: "tags", count: 8 },
+  { _id: "visits", count: 10 },
+  { _id: "balance", count: 10 },
+  { _id: "createdAt", count: 10 },
+  { _id: "address", count: 4 },
+  { _id: "addresses", count: 2 },
+  { _id: "legacyPlan", count: 3 },
+  { _id: "fullName", count: 7 },
+  { _id: "a.b", count: 1 },
+];
+
+describe("DriftService", () => {
+  let service: DriftService;
+  let pipelines: Document[][];
+  let scannedCount: number;
+
+  beforeEach(() => {
+    pipelines = [];
+    scannedCount = 10;
+    const collection = {
+      collectionName: "users",
+      indexes: async () => [],
+      aggregate: (pipeline: Document[]) => {
+        pipelines.push(pipeline);
+        return {
+          toArray: async () => [
+            {
+              scanned: scannedCount ? [{ count: scannedCount }] : [],
+              keys: scannedCount ? keyCounts : [],
+            },
+          ],
+        };
+      },
+      find: (filter: Document) => {
+        const cursor = {
+          project: () => cursor,
+          limit: () => cursor,
+          toArray: async () => [{ _id: Object.keys(filter)[0] + "-1" }],
+        };
+        return cursor;
+      },
+    };
+
+    service = new DriftService("mongodb://localhost:27017", "test", schema);
+    service["client"] = {
+      connect: async () => undefined,
+      close: async () => undefined,
+      db: () => ({
+        collection: () => collection,
+        listCollections: () => ({
+          toArray: async () =>
+            ["users", "legacy_sessions", "system.views", "_pmm_runs"].map(
+              (name) => ({ name })
+            ),
+        }),
+      }),
+    } as never;
+  });
+
+  it("reports unknown keys, most frequent first, and missing fields", async () => {
+    const drift = await service.checkModel(user);
+
+    expect(drift).toEqual({
+      model: "User",
+      collection: "users",
+      scannedCount: 10,
+      unknownFields: [
+        { key: "fullName", count: 7, sampleIds: ["fullName-1"] },
+        { key: "legacyPlan", count: 3, sampleIds: ["legacyPlan-1"] },
+        { key: "a.b", count: 1, sampleIds: [] },
+      ],
+      missingFields: [
+        { field: "nickname", key: "nickname" },
+        { field: "meta", key: "meta" },
+      ],
+    });
+  });
+
+  it("samples documents when given a limit", async () => {
+    await service.checkModel(user, { limit: 500 });
+
+    expect(pipelines[0][0]).toEqual({ $sample: { size: 500 } });
+  });
+
+  it("does not report missing fields for an empty collection", async () => {
+    scannedCount = 0;
+
+    const drift = await service.checkModel(user);
+
+    expect(drift.missingFields).toEqual([]);
+  });
+
+  it("lists collections no model maps to", async () => {
+    expect(await service.findUnmappedCollections()).toEqual([
+      "legacy_sessions",
+    ]);
+  });
+});
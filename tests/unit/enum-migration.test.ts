@@ -0,0 +1,203 @@
+import { Document } from "mongodb";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { EnumMigrationService } from "../../src/services/enum-migration.service";
+import { MigrationError } from "../../src/errors/migration.error";
+
+const schema = new PrismaSchemaParser(`
+enum Status {
+  ACTIVE
+  ARCHIVED
+}
+
+type Item {
+  status Status
+  history Status[]
+}
+
+model Order {
+  id      String   @id @default(auto()) @map("_id") @db.ObjectId
+  status  Status   @default(ACTIVE) @map("state")
+  legacy  Status?
+  flags   Status[]
+  item    Item?
+  items   Item[]
+}
+`).parse();
+const order = schema.models[0];
+
+/**
+ * Records the updates `rewriteValue` sends instead of writing them.
+ */
+function createRecordingCollection() {
+  const calls: Document[][] = [];
+  return {
+    calls,
+    countDocuments: async () => 7,
+    updateMany: async (...args: Document[]) => {
+      calls.push(args);
+      return { modifiedCount: 3 };
+    },
+  };
+}
+
+describe("EnumMigrationService", () => {
+  const service = new EnumMigrationService(
+    "mongodb://localhost:27017",
+    "test",
+    schema
+  );
+
+  it("finds every stored path using the enum", () => {
+    const usages = service["findUsages"](order.fields, "Status", [], []);
+
+    expect(usages.map((usage) => usage.segments.join("."))).toEqual([
+      "state",
+      "legacy",
+      "flags.[]",
+      "item.status",
+      "item.history.[]",
+      "items.[].status",
+      "items.[].history.[]",
+    ]);
+  });
+
+  describe("rewriteValue", () => {
+    it("sets scalar values directly", async () => {
+      const collection = createRecordingCollection();
+      const count = await service["rewriteValue"](
+        collection as never,
+        ["item", "status"],
+        "OLD",
+        "ACTIVE",
+        false
+      );
+
+      expect(count).toBe(3);
+      expect(collection.calls).toEqual([
+        [{ "item.status": "OLD" }, { $set: { "item.status": "ACTIVE" } }],
+      ]);
+    });
+
+    it.each([
+      [["flags", "[]"], "flags", "flags.$[value]", { value: "OLD" }],
+      [
+        ["items", "[]", "status"],
+        "items.status",
+        "items.$[value].status",
+        { "value.status": "OLD" },
+      ],
+      [
+        ["items", "[]", "history", "[]"],
+        "items.history",
+        "items.$[].history.$[value]",
+        { value: "OLD" },
+      ],
+    ])(
+      "filters array elements at %j",
+      async (segments, query, path, arrayFilter) => {
+        const collection = createRecordingCollection();
+        await service["rewriteValue"](
+          collection as never,
+          segments,
+          "OLD",
+          "ACTIVE",
+          false
+        );
+
+        expect(collection.calls).toEqual([
+          [
+            { [query]: "OLD" },
+            { $set: { [path]: "ACTIVE" } },
+            { arrayFilters: [arrayFilter] },
+          ],
+        ]);
+      }
+    );
+
+    it.each([
+      [["flags", "[]"], "flags", "flags"],
+      [["items", "[]", "history", "[]"], "items.history", "items.$[].history"],
+    ])(
+      "pulls list elements mapped to null at %j",
+      async (segments, query, path) => {
+        const collection = createRecordingCollection();
+        await service["rewriteValue"](
+          collection as never,
+          segments,
+          "OLD",
+          null,
+          false
+        );
+
+        expect(collection.calls).toEqual([
+          [{ [query]: "OLD" }, { $pull: { [path]: "OLD" } }],
+        ]);
+      }
+    );
+
+    it("only counts on a dry run", async () => {
+      const collection = createRecordingCollection();
+      const count = await service["rewriteValue"](
+        collection as never,
+        ["state"],
+        "OLD",
+        "ACTIVE",
+        true
+      );
+
+      expect(count).toBe(7);
+      expect(collection.calls).toEqual([]);
+    });
+  });
+
+  it("maps removed values to the field default or null", () => {
+    const migration = {
+      model: "Order",
+      collection: "orders",
+      path: "item.status",
+      updates: [],
+      unmapped: [],
+    };
+    const [, state, legacy] = order.fields;
+    const itemStatus = schema.types[0].fields[0];
+
+    expect(service["resolveDefault"](state, migration)).toBe("ACTIVE");
+    expect(service["resolveDefault"](legacy, migration)).toBeNull();
+    expect(() => service["resolveDefault"](itemStatus, migration)).toThrow(
+      "Order.item.status has no @default"
+    );
+  });
+
+  it("rejects unknown enums and mapping targets", async () => {
+    await expect(service.migrateEnum("Missing", {})).rejects.toThrow(
+      MigrationError
+    );
+    await expect(
+      service.migrateEnum("Status", { OLD: "UNKNOWN" })
+    ).rejects.toThrow("not a value of enum Status");
+  });
+
+  it.each([
+    [{ OLD: "ACTIVE", ACTIVE: "ARCHIVED" }],
+    [{ ACTIVE: "ARCHIVED", ARCHIVED: "ACTIVE" }],
+    [{ OLD: null, ACTIVE: "ARCHIVED" }],
+  ])("refuses chained mappings %j before writing", async (mapping) => {
+    const collection = createRecordingCollection();
+    service["client"] = {
+      connect: async () => undefined,
+      close: async () => undefined,
+      db: () => ({
+        collection: () => ({
+          ...collection,
+          collectionName: "orders",
+          indexes: async () => [],
+        }),
+      }),
+    } as never;
+
+    await expect(service.migrateEnum("Status", mapping)).rejects.toThrow(
+      'Cannot map "'
+    );
+    expect(collection.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { readFileSync } from "fs";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { FieldRenameService } from "../../src/services/field-rename.service";
+import { MigrationError } from "../../src/errors/migration.error";
+import { createFakeClient, FakeCollection } from "../helpers/fake-collection";
+
+const schema = new PrismaSchemaParser(
+  readFileSync("tests/fixtures/test-schema.prisma", "utf8")
+).parse();
+const user = schema.models.find((model) => model.name === "User")!;
+
+describe("FieldRenameService", () => {
+  let collection: FakeCollection;
+  let service: FieldRenameService;
+
+  beforeEach(() => {
+    collection = new FakeCollection("users");
+    collection.docs = [
+      { _id: 1, fullName: "Ada" },
+      { _id: 2, fullName: "Grace", full_name: "Grace H." },
+      { _id: 3, full_name: "Linus" },
+    ];
+    service = new FieldRenameService("mongodb://localhost:27017", "test");
+    service["client"] = createFakeClient(collection) as never;
+  });
+
+  it.each([
+    ["email", "email", /itself/],
+    ["_id", "id", /_id field/],
+    ["email", "_id.email", /_id field/],
+    ["$email", "email2", /Invalid field name/],
+    ["email", "contact..email", /Invalid field name/],
+    ["address", "address.street", /one contains the other/],
+  ])("refuses to rename %s to %s", async (from, to, message) => {
+    await expect(service.renameField(user, from, to)).rejects.toThrow(
+      MigrationError
+    );
+    await expect(service.renameField(user, from, to)).rejects.toThrow(message);
+  });
+
+  it("aborts without writing when documents already hold the new key", async () => {
+    const result = await service.renameField(user, "fullName", "full_name");
+
+    expect(result).toMatchObject({
+      collection: "users",
+      matchedCount: 2,
+      conflictCount: 1,
+      conflictSampleIds: ["2"],
+      renamedCount: 0,
+      aborted: true,
+    });
+    expect(collection.docs[0]).toEqual({ _id: 1, fullName: "Ada" });
+  });
+
+  it("skips or overwrites conflicting documents when asked", async () => {
+    const skipped = await service.renameField(user, "fullName", "full_name", {
+      onConflict: "skip",
+    });
+
+    expect(skipped.renamedCount).toBe(1);
+    expect(collection.docs[0]).toEqual({ _id: 1, full_name: "Ada" });
+    expect(collection.docs[1].full_name).toBe("Grace H.");
+
+    const overwritten = await service.renameField(
+      user,
+      "fullName",
+      "full_name",
+      { onConflict: "overwrite" }
+    );
+
+    expect(overwritten.renamedCount).toBe(1);
+    expect(collection.docs[1]).toEqual({ _id: 2, full_name: "Grace" });
+  });
+
+  it("only counts the documents to rename on a dry run", async () => {
+    const result = await service.renameField(user, "fullName", "full_name", {
+      onConflict: "overwrite",
+      dryRun: true,
+    });
+
+    expect(result.renamedCount).toBe(2);
+    expect(collection.docs[0]).toEqual({ _id: 1, fullName: "Ada" });
+  });
+});
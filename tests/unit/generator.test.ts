@@ -0,0 +1,205 @@
+import { readFileSync } from "fs";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { JsonSchemaGenerator } from "../../src/generators/json-schema.generator";
+import { MongoValidatorGenerator } from "../../src/generators/mongo-validator.generator";
+import { TypeScriptGenerator } from "../../src/generators/typescript.generator";
+import { ZodGenerator } from "../../src/generators/zod.generator";
+
+const schema = new PrismaSchemaParser(
+  readFileSync("tests/fixtures/test-schema.prisma", "utf8")
+).parse();
+const [user, post] = schema.models;
+
+describe("JsonSchemaGenerator", () => {
+  const generator = new JsonSchemaGenerator(schema);
+
+  it("requires non-optional fields without defaults and skips the id", () => {
+    const jsonSchema = generator.generateSchema(user);
+
+    expect(jsonSchema.required).toEqual(["email", "fullName"]);
+    expect(jsonSchema.properties.id).toBeUndefined();
+  });
+
+  it("writes enum values and defaults as they are stored", () => {
+    expect(generator.generateSchema(user).properties.role).toMatchObject({
+      type: "string",
+      enum: ["USER", "admin"],
+      default: "admin",
+    });
+  });
+
+  it("keeps backfill details under x- keywords", () => {
+    const { fullName, createdAt } = generator.generateSchema(user).properties;
+
+    expect(fullName).toEqual({ type: "string", "x-mapName": "full_name" });
+    expect(createdAt).toEqual({
+      type: "string",
+      format: "date-time",
+      "x-defaultFunction": { kind: "function", name: "now", args: [] },
+      "x-bsonType": "date",
+    });
+  });
+
+  it("nests composite types and lists of them", () => {
+    const { address, addresses } = generator.generateSchema(user).properties;
+
+    expect(address).toMatchObject({
+      type: "object",
+      required: ["street"],
+      properties: { geo: { type: "object", required: ["lat", "lng"] } },
+    });
+    expect(addresses).toMatchObject({
+      type: "array",
+      items: { type: "object", required: ["street"] },
+    });
+  });
+
+  it("generates one file per model", () => {
+    const files = generator.generateFiles();
+
+    expect(files.map((file) => file.path)).toEqual(["user.json", "post.json"]);
+    expect(JSON.parse(files[1].content)).toEqual(
+      generator.generateSchema(post)
+    );
+  });
+});
+
+describe("MongoValidatorGenerator", () => {
+  const { $jsonSchema } = new MongoValidatorGenerator(schema).generateValidator(
+    user
+  );
+
+  it("uses stored keys and BSON types", () => {
+    expect($jsonSchema.required).toEqual(["_id", "email", "full_name"]);
+    expect($jsonSchema.properties).toMatchObject({
+      _id: { bsonType: "objectId" },
+      full_name: { bsonType: "string" },
+      visits: { bsonType: "int" },
+      balance: { bsonType: "long" },
+      createdAt: { bsonType: "date" },
+    });
+  });
+
+  it("allows null for optional fields and restricts enums", () => {
+    expect($jsonSchema.properties).toMatchObject({
+      nickname: { bsonType: ["string", "null"] },
+      role: { bsonType: "string", enum: ["USER", "admin"] },
+    });
+  });
+
+  it("leaves out relation fields", () => {
+    expect($jsonSchema.properties).not.toHaveProperty("posts");
+  });
+});
+
+describe("TypeScriptGenerator", () => {
+  const [file] = new TypeScriptGenerator(schema).generateFiles();
+
+  it("writes a single types.ts", () => {
+    expect(file.path).toBe("types.ts");
+    expect(file.content).toMatch(/^\/\/ Generated by pmm generate/);
+  });
+
+  it("writes enums as unions of their value names", () => {
+    expect(file.content).toContain('export type Role = "USER" | "ADMIN";');
+  });
+
+  it("writes optional, list and defaulted fields", () => {
+    expect(file.content).toContain(
+      [
+        "export interface User {",
+        "  /** @default auto() */",
+        "  id?: string;",
+        "  email: string;",
+        "  fullName: string;",
+        '  /** @default "ADMIN" */',
+        "  role: Role;",
+        "  nickname?: string | null;",
+        "  /** @default [] */",
+        "  tags: string[];",
+        "  /** @default 0 */",
+        "  visits: number;",
+        "  /** @default 12 */",
+        "  balance: bigint;",
+        "  meta?: JsonValue | null;",
+        "  /** @default now() */",
+        "  createdAt: Date;",
+        "  address?: Address | null;",
+        "  addresses: Address[];",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  it("declares JsonValue only when a Json field is generated", () => {
+    const [postFile] = new TypeScriptGenerator(schema).generateFiles([post]);
+
+    expect(file.content).toContain("export type JsonValue =");
+    expect(postFile.content).not.toContain("JsonValue");
+    expect(postFile.content).not.toContain("interface User");
+    expect(postFile.content).toContain("export interface Address {");
+  });
+});
+
+describe("ZodGenerator", () => {
+  const [file] = new ZodGenerator(schema).generateFiles();
+
+  it("writes a single zod.ts importing zod", () => {
+    expect(file.path).toBe("zod.ts");
+    expect(file.content).toContain('import { z } from "zod";');
+  });
+
+  it("writes enums with their value names and inferred types", () => {
+    expect(file.content).toContain(
+      [
+        'export const RoleSchema = z.enum(["USER", "ADMIN"]);',
+        "export type Role = z.infer<typeof RoleSchema>;",
+      ].join("\n")
+    );
+  });
+
+  it("declares embedded composite types first", () => {
+    const geo = file.content.indexOf("export const GeoSchema");
+    const address = file.content.indexOf("export const AddressSchema");
+
+    expect(geo).toBeGreaterThan(-1);
+    expect(address).toBeGreaterThan(geo);
+    expect(file.content).not.toContain("z.lazy(() => GeoSchema)");
+  });
+
+  it("writes optionality, lists and defaults", () => {
+    expect(file.content).toContain(
+      [
+        "export const UserSchema = z.object({",
+        "  id: z.string().optional(),",
+        "  email: z.string(),",
+        "  fullName: z.string(),",
+        '  role: RoleSchema.default("ADMIN"),',
+        "  nickname: z.string().nullish(),",
+        "  tags: z.array(z.string()).default([]),",
+        "  visits: z.number().int().default(0),",
+        '  balance: z.bigint().default(BigInt("12")),',
+        "  meta: JsonValueSchema.nullish(),",
+        "  createdAt: z.coerce.date().default(() => new Date()),",
+        "  address: AddressSchema.nullish(),",
+        "  addresses: z.array(AddressSchema),",
+        "});",
+      ].join("\n")
+    );
+  });
+
+  it("wraps references to composite types declared later in z.lazy", () => {
+    const recursive = new PrismaSchemaParser(`type Node {
+  value    String
+  children Node[]
+}`).parse();
+    const [output] = new ZodGenerator(recursive).generateFiles([]);
+
+    expect(output.content).toContain(
+      "export const NodeSchema: z.ZodTypeAny = z.object({"
+    );
+    expect(output.content).toContain(
+      "  children: z.array(z.lazy(() => NodeSchema)),"
+    );
+  });
+});
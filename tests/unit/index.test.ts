@@ -0,0 +1,58 @@
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { IndexService } from "../../src/services/index.service";
+
+const [model] = new PrismaSchemaParser(`model Post {
+  id       String   @id @default(auto()) @map("_id") @db.ObjectId
+  slug     String   @unique
+  authorId String
+  tenantId String
+  created  DateTime
+
+  @@index([authorId, created(sort: Desc)], map: "by_author")
+  @@unique([tenantId, slug])
+}`).parse().models;
+const service = new IndexService("mongodb://localhost:27017", "test");
+
+describe("IndexService", () => {
+  it("parses field and block level indexes, field-level first", () => {
+    expect(model.indexes).toEqual([
+      { type: "unique", fields: [{ name: "slug" }] },
+      {
+        type: "index",
+        fields: [{ name: "authorId" }, { name: "created", sort: "Desc" }],
+        mapName: "by_author",
+      },
+      {
+        type: "unique",
+        fields: [{ name: "tenantId" }, { name: "slug" }],
+      },
+    ]);
+  });
+
+  it("names indexes like Prisma and keeps sort order", () => {
+    expect(
+      model.indexes.map((index) => service["toIndexSpec"](model, index))
+    ).toEqual([
+      { name: "Post_slug_key", key: { slug: 1 }, unique: true },
+      {
+        name: "by_author",
+        key: { authorId: 1, created: -1 },
+        unique: false,
+      },
+      {
+        name: "Post_tenantId_slug_key",
+        key: { tenantId: 1, slug: 1 },
+        unique: true,
+      },
+    ]);
+  });
+
+  it("indexes the id field as _id", () => {
+    const spec = service["toIndexSpec"](model, {
+      type: "index",
+      fields: [{ name: "id" }, { name: "created" }],
+    });
+
+    expect(spec.key).toEqual({ _id: 1, created: 1 });
+  });
+});
@@ -0,0 +1,211 @@
+import { Document, Double, Int32, ObjectId } from "mongodb";
+import { IntrospectionService } from "../../src/services/introspection.service";
+import { PrismaSchemaGenerator } from "../../src/generators/prisma-schema.generator";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+
+const ada = new ObjectId();
+const grace = new ObjectId();
+
+const collections: { [name: string]: Document[] } = {
+  users: [
+    { _id: ada, email: "ada@example.com", role: "ADMIN", age: new Int32(36) },
+    {
+      _id: grace,
+      email: "grace@example.com",
+      role: "USER",
+      age: new Double(85.5),
+    },
+    { _id: new ObjectId(), email: "linus@example.com", role: "USER" },
+    { _id: new ObjectId(), email: "ken@example.com", role: "ADMIN", age: null },
+  ],
+  posts: [
+    {
+      _id: new ObjectId(),
+      authorId: ada,
+      "created-at": new Date(),
+      tags: ["a"],
+    },
+    { _id: new ObjectId(), authorId: grace, address: { city: "Maputo" } },
+  ],
+};
+
+/**
+ * Creates a client whose database serves the sample collections.
+ */
+function createFakeClient() {
+  return {
+    connect: async () => undefined,
+    close: async () => undefined,
+    db: () => ({
+      listCollections: () => ({
+        toArray: async () => Object.keys(collections).map((name) => ({ name })),
+      }),
+      collection: (name: string) => ({
+        aggregate: () => ({ toArray: async () => collections[name] }),
+        countDocuments: async (filter: { _id: { $in: ObjectId[] } }) =>
+          collections[name].filter((doc) =>
+            filter._id.$in.some((id) => id.equals(doc._id))
+          ).length,
+      }),
+    }),
+  };
+}
+
+describe("IntrospectionService", () => {
+  let service: IntrospectionService;
+
+  beforeEach(() => {
+    service = new IntrospectionService("mongodb://localhost:27017", "test");
+    service["client"] = createFakeClient() as never;
+  });
+
+  describe("chooseType", () => {
+    it("widens mixed numbers to the widest type seen", () => {
+      const stats = service["collectStats"]([
+        { n: new Int32(1) },
+        { n: new Int32(2) },
+        { n: new Double(2.5) },
+      ]);
+
+      expect(service["chooseType"]("Thing", "n", stats.keys.get("n")!)).toBe(
+        "double"
+      );
+      expect(service["conflicts"]).toEqual([]);
+    });
+
+    it("picks the most common type and records the conflict", () => {
+      const stats = service["collectStats"]([
+        { n: "one" },
+        { n: "two" },
+        { n: new Int32(3) },
+        { n: null },
+      ]);
+
+      expect(service["chooseType"]("Thing", "n", stats.keys.get("n")!)).toBe(
+        "string"
+      );
+      expect(service["conflicts"]).toEqual([
+        {
+          model: "Thing",
+          field: "n",
+          chosenBsonType: "string",
+          types: [
+            { bsonType: "string", count: 2 },
+            { bsonType: "int", count: 1 },
+          ],
+        },
+      ]);
+      expect(service["comments"]["Thing.n"]).toEqual([
+        "Conflicting types in sample: string (2), int (1)",
+      ]);
+    });
+
+    it("returns undefined when only nulls were seen", () => {
+      const stats = service["collectStats"]([{ n: null }]);
+
+      expect(
+        service["chooseType"]("Thing", "n", stats.keys.get("n")!)
+      ).toBeUndefined();
+    });
+  });
+
+  describe("inferEnum", () => {
+    const statsOf = (values: string[]) =>
+      service["collectStats"](values.map((status) => ({ status }))).keys.get(
+        "status"
+      )!;
+
+    it("turns repeated identifiers into a shared enum", () => {
+      const stats = statsOf(["OPEN", "CLOSED", "OPEN", "CLOSED"]);
+
+      expect(service["inferEnum"]("Order", "status", stats)).toBe(
+        "OrderStatus"
+      );
+      expect(service["inferEnum"]("Invoice", "status", stats)).toBe(
+        "OrderStatus"
+      );
+      expect(service["enums"]).toEqual([
+        {
+          name: "OrderStatus",
+          values: [{ name: "CLOSED" }, { name: "OPEN" }],
+        },
+      ]);
+    });
+
+    it.each([
+      ["a single value", ["OPEN", "OPEN"]],
+      ["values seen once", ["OPEN", "CLOSED", "PENDING"]],
+      [
+        "values that are not identifiers",
+        ["in progress", "done", "in progress", "done"],
+      ],
+    ])("keeps strings with %s", (_description, values) => {
+      expect(
+        service["inferEnum"]("Order", "status", statsOf(values))
+      ).toBeUndefined();
+    });
+
+    it("keeps strings with more values than the threshold", () => {
+      service["enumThreshold"] = 1;
+
+      expect(
+        service["inferEnum"]("Order", "status", statsOf(["A", "B", "A", "B"]))
+      ).toBeUndefined();
+    });
+  });
+
+  it("infers models, relations and composite types from samples", async () => {
+    const result = await service.introspect();
+    const [post, user] = result.schema.models;
+
+    expect(result.sampledCounts).toEqual({ User: 4, Post: 2 });
+    expect(user.mapName).toBe("users");
+    expect(
+      user.fields.map((field) => [field.name, field.type, field.isOptional])
+    ).toEqual([
+      ["id", "String", false],
+      ["email", "String", false],
+      ["role", "UserRole", false],
+      ["age", "Float", true],
+      ["posts", "Post", false],
+    ]);
+    expect(
+      post.fields.map((field) => [field.name, field.type, field.attributes])
+    ).toEqual([
+      [
+        "id",
+        "String",
+        ["@id", "@default(auto())", '@map("_id")', "@db.ObjectId"],
+      ],
+      ["authorId", "String", ["@db.ObjectId"]],
+      ["author", "User", ["@relation(fields: [authorId], references: [id])"]],
+      ["createdAt", "DateTime", ['@map("created-at")']],
+      ["tags", "String", []],
+      ["address", "PostAddress", []],
+    ]);
+    expect(result.schema.types).toEqual([
+      {
+        name: "PostAddress",
+        fields: [expect.objectContaining({ name: "city" })],
+      },
+    ]);
+    expect(result.comments["Post.authorId"]).toEqual([
+      '2 of 2 sampled ids found in "users"',
+    ]);
+  });
+
+  it("generates a schema the parser reads back", async () => {
+    const result = await service.introspect();
+    const source = new PrismaSchemaGenerator(result.schema).generate(
+      result.comments
+    );
+    const parsed = new PrismaSchemaParser(source).parse();
+
+    expect(source).toContain('  // 2 of 2 sampled ids found in "users"\n');
+    expect(parsed.models.map((model) => model.name)).toEqual(["Post", "User"]);
+    expect(parsed.enums).toEqual([
+      expect.objectContaining({ name: "UserRole" }),
+    ]);
+    expect(parsed.types.map((type) => type.name)).toEqual(["PostAddress"]);
+  });
+});
@@ -0,0 +1,183 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { MigrationService } from "../../src/services/migration.service";
+import {
+  MigrationError,
+  MigrationLockError,
+} from "../../src/errors/migration.error";
+import { createFakeClient, FakeCollection } from "../helpers/fake-collection";
+
+const schema = new PrismaSchemaParser("").parse();
+
+describe("MigrationService", () => {
+  let directory: string;
+  let collection: FakeCollection;
+  let service: MigrationService;
+
+  /**
+   * Writes a migration that records its runs on `globalThis.migrationLog`.
+   *
+   * @param name - Migration name without extension
+   */
+  const writeMigration = (name: string) =>
+    writeFileSync(
+      join(directory, `${name}.mjs`),
+      [
+        `export async function up() { globalThis.migrationLog.push("up ${name}"); }`,
+        `export async function down() { globalThis.migrationLog.push("down ${name}"); }`,
+      ].join("\n")
+    );
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "pmm-migrations-"));
+    collection = new FakeCollection();
+    service = new MigrationService(
+      "mongodb://localhost:27017",
+      "test",
+      directory
+    );
+    service["client"] = createFakeClient(collection) as never;
+    (globalThis as { migrationLog?: string[] }).migrationLog = [];
+  });
+
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  const log = () => (globalThis as { migrationLog?: string[] }).migrationLog;
+
+  it("scaffolds a timestamped migration file", () => {
+    const file = MigrationService.createMigration(directory, "Add user status");
+
+    expect(file).toMatch(/[/\\]\d{14}_add_user_status\.ts$/);
+    expect(readFileSync(file, "utf8")).toContain("export async function up(");
+    expect(() => MigrationService.createMigration(directory, "!!")).toThrow(
+      MigrationError
+    );
+  });
+
+  it("applies pending migrations in order and records them", async () => {
+    writeMigration("20240102000000_second");
+    writeMigration("20240101000000_first");
+    // A TypeScript migration left half-transpiled by a crashed run
+    writeMigration(".20240101000000_first.pmm-0a1b2c3d");
+
+    expect(await service.up(schema)).toEqual([
+      "20240101000000_first",
+      "20240102000000_second",
+    ]);
+    expect(log()).toEqual([
+      "up 20240101000000_first",
+      "up 20240102000000_second",
+    ]);
+    expect(collection.docs.map((doc) => doc._id)).toEqual([
+      "20240101000000_first",
+      "20240102000000_second",
+    ]);
+    expect(await service.up(schema)).toEqual([]);
+  });
+
+  it("reports modified and missing migrations and refuses to apply", async () => {
+    writeMigration("20240101000000_first");
+    writeMigration("20240102000000_second");
+    await service.up(schema);
+
+    writeFileSync(
+      join(directory, "20240101000000_first.mjs"),
+      "export async function up() {}"
+    );
+    rmSync(join(directory, "20240102000000_second.mjs"));
+    writeMigration("20240103000000_third");
+
+    const statuses = await service.status();
+    expect(statuses.map((status) => [status.name, status.state])).toEqual([
+      ["20240101000000_first", "modified"],
+      ["20240102000000_second", "missing"],
+      ["20240103000000_third", "pending"],
+    ]);
+    await expect(service.up(schema)).rejects.toThrow(
+      /no longer match their files/
+    );
+  });
+
+  it("reverts the most recent migrations", async () => {
+    writeMigration("20240101000000_first");
+    writeMigration("20240102000000_second");
+    await service.up(schema);
+
+    expect(await service.down(schema)).toEqual(["20240102000000_second"]);
+    expect(log()).toContain("down 20240102000000_second");
+    expect(collection.docs.map((doc) => doc._id)).toEqual([
+      "20240101000000_first",
+    ]);
+  });
+
+  it.each([0, -1, 1.5, NaN])(
+    "refuses to revert %p steps instead of reverting everything",
+    async (steps) => {
+      writeMigration("20240101000000_first");
+      await service.up(schema);
+
+      await expect(service.down(schema, steps)).rejects.toThrow(
+        "steps must be a positive integer"
+      );
+      expect(collection.docs.map((doc) => doc._id)).toEqual([
+        "20240101000000_first",
+      ]);
+    }
+  );
+
+  it("refuses to run while another process holds the lock", async () => {
+    await collection.insertOne({
+      _id: "lock",
+      kind: "lock",
+      owner: "other",
+      acquiredAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(service.up(schema)).rejects.toThrow(MigrationLockError);
+  });
+
+  it("takes over an expired lock and releases it", async () => {
+    await collection.insertOne({
+      _id: "lock",
+      kind: "lock",
+      owner: "other",
+      acquiredAt: new Date(0),
+      expiresAt: new Date(1),
+    });
+
+    await service.up(schema);
+
+    expect(await collection.findOne({ _id: "lock" })).toBeNull();
+  });
+
+  it("stops before the next migration when the lock is lost", async () => {
+    service = new MigrationService(
+      "mongodb://localhost:27017",
+      "test",
+      directory,
+      { lockTimeoutMs: 30 }
+    );
+    service["client"] = createFakeClient(collection) as never;
+    writeFileSync(
+      join(directory, "20240101000000_first.mjs"),
+      [
+        "export async function up({ db }) {",
+        '  await db.collection("_pmm_migrations").deleteOne({ _id: "lock" });',
+        "  await new Promise((resolve) => setTimeout(resolve, 50));",
+        "}",
+      ].join("\n")
+    );
+    writeMigration("20240102000000_second");
+
+    await expect(service.up(schema)).rejects.toThrow(
+      "Lost the migration lock: it was released or taken over by another process"
+    );
+    expect(log()).toEqual([]);
+    expect(collection.docs.map((doc) => doc._id)).toEqual([
+      "20240101000000_first",
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { importModule } from "../../src/utils/module";
+
+describe("importModule", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "pmm-module-"));
+  });
+
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  it("transpiles TypeScript next to the source so relative imports resolve", async () => {
+    writeFileSync(
+      join(directory, "helper.mjs"),
+      "export const greeting = 'hello';"
+    );
+    writeFileSync(
+      join(directory, "module.ts"),
+      [
+        'import { greeting } from "./helper.mjs";',
+        "type Shout = (value: string) => string;",
+        "const shout: Shout = (value) => value.toUpperCase();",
+        "export default shout(greeting);",
+      ].join("\n")
+    );
+
+    const module = await importModule(join(directory, "module.ts"));
+
+    expect(module.default).toBe("HELLO");
+    expect(readdirSync(directory).sort()).toEqual(["helper.mjs", "module.ts"]);
+  });
+
+  it("removes the transpiled file when the import fails", async () => {
+    writeFileSync(
+      join(directory, "broken.ts"),
+      'import { missing } from "./missing.mjs";\nexport default missing;'
+    );
+
+    await expect(importModule(join(directory, "broken.ts"))).rejects.toThrow();
+    expect(readdirSync(directory)).toEqual(["broken.ts"]);
+  });
+});
@@ -0,0 +1,30 @@
+import { InvalidArgumentError } from "commander";
+import {
+  parseNonNegativeInteger,
+  parsePositiveInteger,
+} from "../../src/utils/options";
+
+describe("parsePositiveInteger", () => {
+  it("parses positive integers", () => {
+    expect(parsePositiveInteger("1")).toBe(1);
+    expect(parsePositiveInteger("5000")).toBe(5000);
+  });
+
+  it.each(["0", "-1", "1.5", "10abc", "abc", "", "1e3", "99999999999999999"])(
+    "rejects %p",
+    (value) => {
+      expect(() => parsePositiveInteger(value)).toThrow(InvalidArgumentError);
+    }
+  );
+});
+
+describe("parseNonNegativeInteger", () => {
+  it("accepts zero", () => {
+    expect(parseNonNegativeInteger("0")).toBe(0);
+    expect(parseNonNegativeInteger("3")).toBe(3);
+  });
+
+  it.each(["-1", "1.5", "10abc", ""])("rejects %p", (value) => {
+    expect(() => parseNonNegativeInteger(value)).toThrow(InvalidArgumentError);
+  });
+});
@@ -0,0 +1,243 @@
+import { readFileSync } from "fs";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { PrismaSyntaxError } from "../../src/errors/prisma-syntax.error";
+
+/**
+ * Parses a schema and returns the thrown error.
+ *
+ * @param content - Schema source expected to be invalid
+ * @returns The syntax error
+ */
+function parseError(content: string): PrismaSyntaxError {
+  try {
+    new PrismaSchemaParser(content, "prisma/user.prisma").parse();
+  } catch (error) {
+    if (error instanceof PrismaSyntaxError) return error;
+    throw error;
+  }
+  throw new Error("Expected a syntax error");
+}
+
+describe("PrismaSchemaParser", () => {
+  describe("models", () => {
+    it("parses the fixture schema", () => {
+      const content = readFileSync("tests/fixtures/test-schema.prisma", "utf8");
+      const schema = new PrismaSchemaParser(content).parse();
+
+      expect(schema.models.map((model) => model.name)).toEqual([
+        "User",
+        "Post",
+      ]);
+      expect(schema.enums.map((prismaEnum) => prismaEnum.name)).toEqual([
+        "Role",
+      ]);
+      expect(schema.types.map((type) => type.name)).toEqual(["Address", "Geo"]);
+      expect(schema.models[0].mapName).toBe("users");
+    });
+
+    it("reads field modifiers, @map and @unique", () => {
+      const schema = new PrismaSchemaParser(`model User {
+  id       String   @id @default(auto()) @map("_id") @db.ObjectId
+  email    String   @unique
+  fullName String?  @map("full_name")
+  tags     String[]
+}`).parse();
+      const [id, email, fullName, tags] = schema.models[0].fields;
+
+      expect(id).toMatchObject({ isId: true, mapName: "_id" });
+      expect(email).toMatchObject({ isUnique: true, isOptional: false });
+      expect(fullName).toMatchObject({
+        isOptional: true,
+        mapName: "full_name",
+      });
+      expect(tags).toMatchObject({ isArray: true, isOptional: false });
+    });
+
+    it("keeps a } inside strings and /// comments from closing the block", () => {
+      const parser = new PrismaSchemaParser(`/// Ends with }
+model User {
+  id   String @id
+  /// Braces } in docs
+  bio  String @default("}")
+  name String
+}`);
+      const schema = parser.parse();
+
+      expect(schema.models).toHaveLength(1);
+      expect(schema.models[0].fields.map((field) => field.name)).toEqual([
+        "id",
+        "bio",
+        "name",
+      ]);
+      expect(schema.models[0].fields[1].defaultValue).toBe("}");
+
+      const [model] = parser.parseAst().blocks;
+      expect(model.documentation).toBe("Ends with }");
+    });
+  });
+
+  describe("@default", () => {
+    it("keeps spaces inside string defaults", () => {
+      const schema = new PrismaSchemaParser(`model User {
+  id   String @id
+  name String @default("a b")
+}`).parse();
+
+      expect(schema.models[0].fields[1].defaultValue).toBe("a b");
+    });
+
+    it("evaluates literals, enum values, lists and functions", () => {
+      const schema = new PrismaSchemaParser(`enum Role {
+  USER
+}
+model User {
+  id      String   @id @default(uuid(7))
+  active  Boolean  @default(true)
+  visits  Int      @default(42)
+  ratio   Float    @default(3.14)
+  big     BigInt   @default(9007199254740993)
+  role    Role     @default(USER)
+  tags    String[] @default(["a", "b"])
+  created DateTime @default(now())
+}`).parse();
+      const defaults = schema.models[0].fields.map(
+        (field) => field.defaultValue
+      );
+
+      expect(defaults).toEqual([
+        { kind: "function", name: "uuid", args: [7] },
+        true,
+        42,
+        3.14,
+        "9007199254740993",
+        "USER",
+        ["a", "b"],
+        { kind: "function", name: "now", args: [] },
+      ]);
+    });
+  });
+
+  describe("@relation", () => {
+    const schema = new PrismaSchemaParser(`model User {
+  id     String @id @default(auto()) @map("_id") @db.ObjectId
+  posts  Post[] @relation("authored")
+  edited Post[] @relation("edited")
+}
+model Post {
+  id       String  @id @default(auto()) @map("_id") @db.ObjectId
+  authorId String  @db.ObjectId
+  author   User    @relation("authored", fields: [authorId], references: [id], onDelete: Cascade, onUpdate: NoAction)
+  editorId String? @db.ObjectId
+  editor   User?   @relation(name: "edited", fields: [editorId], references: [id], onDelete: SetNull)
+}`).parse();
+    const [user, post] = schema.models;
+
+    it("reads a positional name, fields, references and referential actions", () => {
+      expect(post.fields[2].relation).toEqual({
+        model: "User",
+        name: "authored",
+        fields: ["authorId"],
+        references: ["id"],
+        onDelete: "Cascade",
+        onUpdate: "NoAction",
+      });
+    });
+
+    it("reads a named name argument", () => {
+      expect(post.fields[4].relation).toEqual({
+        model: "User",
+        name: "edited",
+        fields: ["editorId"],
+        references: ["id"],
+        onDelete: "SetNull",
+      });
+    });
+
+    it("marks back-relations without fields", () => {
+      expect(user.fields[1].relation).toEqual({
+        model: "Post",
+        name: "authored",
+        fields: [],
+        references: [],
+      });
+      expect(post.fields[1].relation).toBeUndefined();
+    });
+  });
+
+  describe("enums", () => {
+    it("keeps the @map name of enum values", () => {
+      const schema = new PrismaSchemaParser(`enum Role {
+  USER
+  ADMIN @map("admin")
+}`).parse();
+
+      expect(schema.enums[0].values).toEqual([
+        { name: "USER" },
+        { name: "ADMIN", mapName: "admin" },
+      ]);
+    });
+  });
+
+  describe("syntax errors", () => {
+    it("reports a missing closing brace at file:line:column", () => {
+      const error = parseError(`model User {
+  id   String @id
+  name String
+`);
+
+      expect(error.message).toBe(
+        'prisma/user.prisma:4:1 - Expected "}" to close model User'
+      );
+      expect(error).toMatchObject({ file: "prisma/user.prisma", line: 4 });
+    });
+
+    it("reports an unterminated string where it starts", () => {
+      const error = parseError(`model User {
+  id   String @id
+  name String @default("abc)
+}`);
+
+      expect(error).toMatchObject({
+        line: 3,
+        column: 24,
+        reason: "Unterminated string literal",
+      });
+    });
+
+    it("reports unexpected characters", () => {
+      const error = parseError(`model User {
+  id   String @id
+  name $tring
+}`);
+
+      expect(error.message).toBe(
+        'prisma/user.prisma:3:8 - Unexpected character "$"'
+      );
+    });
+
+    it("reports unknown block types", () => {
+      const error = parseError(`model User {
+  id String @id
+}
+modle Post {
+}`);
+
+      expect(error).toMatchObject({ line: 4, column: 1 });
+      expect(error.reason).toMatch(/^Unknown block type "modle"/);
+    });
+
+    it("names the file the error is in when parsing several files", () => {
+      const parser = new PrismaSchemaParser([
+        { path: "prisma/a.prisma", content: "model A {\n  id String @id\n}" },
+        {
+          path: "prisma/b.prisma",
+          content: "model B {\n  id String @id @default(\n}",
+        },
+      ]);
+
+      expect(() => parser.parse()).toThrow(
+        'prisma/b.prisma:3:1 - Expected a value but found "}"'
+      );
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { readFileSync } from "fs";
+import { Document } from "mongodb";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { PruneService } from "../../src/services/prune.service";
+
+const schema = new PrismaSchemaParser(
+  readFileSync("tests/fixtures/test-schema.prisma", "utf8")
+).parse();
+const user = schema.models.find((model) => model.name === "User")!;
+
+describe("PruneService", () => {
+  let service: PruneService;
+  let pipelines: Document[][];
+  let updates: Document[][];
+  let runUpdates: Document[][];
+
+  beforeEach(() => {
+    pipelines = [];
+    updates = [];
+    runUpdates = [];
+    const users = {
+      collectionName: "users",
+      indexes: async () => [],
+      aggregate: (pipeline: Document[]) => {
+        pipelines.push(pipeline);
+        const counts = { documents: 5, bytes: 120, key0: 4, key1: 2 };
+        return {
+          toArray: async () => (pipelines.length === 1 ? [counts] : []),
+        };
+      },
+      updateMany: async (...args: Document[]) => {
+        updates.push(args);
+        return { modifiedCount: 5 };
+      },
+    };
+    const runs = {
+      updateOne: async (...args: Document[]) => {
+        runUpdates.push(args);
+      },
+    };
+
+    service = new PruneService("mongodb://localhost:27017", "test");
+    service["client"] = {
+      connect: async () => undefined,
+      close: async () => undefined,
+      db: () => ({
+        collection: (name: string) => (name === "_pmm_runs" ? runs : users),
+      }),
+    } as never;
+  });
+
+  it("counts documents, keys and bytes before unsetting", async () => {
+    const result = await service.pruneModel(user, ["legacyPlan", "fullName"]);
+
+    expect(result).toEqual({
+      model: "User",
+      collection: "users",
+      keys: [
+        { key: "legacyPlan", count: 4 },
+        { key: "fullName", count: 2 },
+      ],
+      matchedCount: 5,
+      modifiedCount: 5,
+      bytes: 120,
+    });
+    expect(pipelines[0][1].$group.bytes).toEqual({
+      $sum: {
+        $subtract: [
+          { $bsonSize: { legacyPlan: "$legacyPlan", fullName: "$fullName" } },
+          5,
+        ],
+      },
+    });
+    expect(updates).toEqual([
+      [
+        {
+          $or: [
+            { legacyPlan: { $exists: true } },
+            { fullName: { $exists: true } },
+          ],
+        },
+        { $unset: { legacyPlan: "", fullName: "" } },
+      ],
+    ]);
+    expect(runUpdates).toEqual([]);
+  });
+
+  it("only counts on a dry run", async () => {
+    const result = await service.pruneModel(user, ["legacyPlan"], {
+      dryRun: true,
+    });
+
+    expect(result.modifiedCount).toBe(0);
+    expect(updates).toEqual([]);
+  });
+
+  it("backs up the values and records a run before unsetting", async () => {
+    const result = await service.pruneModel(user, ["legacyPlan"], {
+      backup: true,
+      runId: "run-1",
+    });
+
+    expect(result.runId).toBe("run-1");
+    expect(pipelines[1]).toEqual([
+      { $match: { $or: [{ legacyPlan: { $exists: true } }] } },
+      {
+        $project: {
+          _id: { collection: "users", id: "$_id" },
+          values: { legacyPlan: "$legacyPlan" },
+        },
+      },
+      {
+        $merge: {
+          into: "_pmm_backups.run-1",
+          whenMatched: "keepExisting",
+          whenNotMatched: "insert",
+        },
+      },
+    ]);
+    expect(runUpdates.map(([filter]) => filter)).toEqual([
+      { _id: "run-1" },
+      { _id: "run-1", "models.collection": "users" },
+    ]);
+    expect(runUpdates[0][1].$push.models).toEqual({
+      model: "User",
+      collection: "users",
+      fields: ["legacyPlan"],
+      matchedCount: 5,
+      modifiedCount: 0,
+    });
+  });
+
+  it("does nothing without keys", async () => {
+    const result = await service.pruneModel(user, []);
+
+    expect(result.collection).toBe("users");
+    expect(pipelines).toEqual([]);
+  });
+});
@@ -0,0 +1,263 @@
+import { readFileSync } from "fs";
+import { Document } from "mongodb";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { RelationService } from "../../src/services/relation.service";
+import { RelationCheckResult } from "../../src/types";
+
+const schema = new PrismaSchemaParser(`
+model Post {
+  id       String   @id @default(auto()) @map("_id") @db.ObjectId
+  authorId String   @db.ObjectId
+  author   User     @relation(fields: [authorId], references: [id], onDelete: Cascade)
+  editorId String?  @db.ObjectId @map("editor_id")
+  editor   User?    @relation("edited", fields: [editorId], references: [id])
+  ownerId  String   @db.ObjectId
+  owner    User     @relation("owned", fields: [ownerId], references: [id])
+  tagIds   String[] @db.ObjectId
+  tags     Tag[]    @relation(fields: [tagIds], references: [id])
+}
+
+model User {
+  id String @id @default(auto()) @map("_id") @db.ObjectId
+}
+
+model Tag {
+  id String @id @default(auto()) @map("_id") @db.ObjectId
+}
+`).parse();
+const post = schema.models[0];
+const field = (name: string) => post.fields.find((f) => f.name === name)!;
+
+/**
+ * Creates a relation result for the orphan pipeline and fixes.
+ *
+ * @param foreignKey - Stored key of the foreign key
+ * @param isList - Whether the key holds a list of ids
+ */
+const createResult = (
+  foreignKey: string,
+  isList: boolean
+): RelationCheckResult => ({
+  model: "Post",
+  collection: "posts",
+  field: "author",
+  foreignKey,
+  isList,
+  referencedModel: "User",
+  referencedCollection: "users",
+  orphanCount: 1,
+  sampleIds: [],
+  sampleOrphans: [],
+});
+
+describe("RelationService", () => {
+  const service = new RelationService(
+    "mongodb://localhost:27017",
+    "test",
+    schema
+  );
+
+  describe("buildOrphanPipeline", () => {
+    it("looks up single references that match nothing", () => {
+      expect(
+        service["buildOrphanPipeline"](
+          createResult("authorId", false),
+          "users",
+          "_id"
+        )
+      ).toEqual([
+        { $match: { authorId: { $ne: null } } },
+        {
+          $lookup: {
+            from: "users",
+            localField: "authorId",
+            foreignField: "_id",
+            pipeline: [{ $project: { _id: 1 } }],
+            as: "_pmm_refs",
+          },
+        },
+        { $match: { _pmm_refs: { $size: 0 } } },
+        { $project: { orphans: ["$authorId"] } },
+      ]);
+    });
+
+    it("keeps the ids of a list that match nothing", () => {
+      const pipeline = service["buildOrphanPipeline"](
+        createResult("tagIds", true),
+        "tags",
+        "_id"
+      );
+
+      expect(pipeline[0]).toEqual({
+        $match: { tagIds: { $type: "array", $ne: [] } },
+      });
+      expect(pipeline.slice(2)).toEqual([
+        {
+          $project: {
+            orphans: { $setDifference: ["$tagIds", "$_pmm_refs._id"] },
+          },
+        },
+        { $match: { "orphans.0": { $exists: true } } },
+      ]);
+    });
+  });
+
+  it("picks the fix from onDelete", () => {
+    expect(
+      service["actionFromOnDelete"](field("author"), field("authorId"))
+    ).toBe("delete");
+    expect(
+      service["actionFromOnDelete"](field("editor"), field("editorId"))
+    ).toBe("setNull");
+    expect(
+      service["actionFromOnDelete"](field("owner"), field("ownerId"))
+    ).toEqual({ skipped: "required relation without onDelete" });
+  });
+
+  it("skips relations whose referenced collection is missing", async () => {
+    let aggregated = false;
+    const posts = {
+      collectionName: "posts",
+      indexes: async () => [],
+      aggregate: () => {
+        aggregated = true;
+        return { toArray: async () => [] };
+      },
+    };
+    const checked = new RelationService(
+      "mongodb://localhost:27017",
+      "test",
+      schema
+    );
+    checked["client"] = {
+      connect: async () => undefined,
+      close: async () => undefined,
+      db: () => ({
+        collection: (name: string) =>
+          name === "posts"
+            ? posts
+            : {
+                indexes: async () => {
+                  throw new Error("ns does not exist");
+                },
+              },
+      }),
+    } as never;
+
+    const results = await checked.checkModel(post);
+
+    expect(results.map((result) => result.referencedCollection)).toEqual([
+      null,
+      null,
+      null,
+      null,
+    ]);
+    expect(aggregated).toBe(false);
+  });
+
+  describe("fixOrphans", () => {
+    /**
+     * Creates a `posts` collection that streams the given orphans and records
+     * bulk writes.
+     *
+     * @param orphans - Documents returned by the orphan pipeline
+     */
+    const createCollection = (orphans: Document[]) => {
+      const writes: Document[][] = [];
+      const collection = {
+        aggregate: () => orphans,
+        bulkWrite: async (operations: Document[]) => {
+          writes.push(operations);
+          return { modifiedCount: operations.length, deletedCount: 0 };
+        },
+      };
+      return { writes, collection };
+    };
+
+    it("sets orphaned references to null only if they still hold the value", async () => {
+      const { writes, collection } = createCollection([
+        { _id: 1, orphans: ["u9"] },
+      ]);
+
+      const fix = await service["fixOrphans"](
+        collection as never,
+        createResult("editor_id", false),
+        [],
+        field("editorId"),
+        "setNull"
+      );
+
+      expect(fix).toEqual({ action: "setNull", modifiedCount: 1 });
+      expect(writes).toEqual([
+        [
+          {
+            updateOne: {
+              filter: { _id: 1, editor_id: "u9" },
+              update: { $set: { editor_id: null } },
+            },
+          },
+        ],
+      ]);
+    });
+
+    it("pulls orphaned ids from lists", async () => {
+      const { writes, collection } = createCollection([
+        { _id: 1, orphans: ["t1", "t2"] },
+      ]);
+
+      await service["fixOrphans"](
+        collection as never,
+        createResult("tagIds", true),
+        [],
+        field("tagIds"),
+        "delete"
+      );
+
+      expect(writes[0]).toEqual([
+        {
+          updateOne: {
+            filter: { _id: 1 },
+            update: { $pull: { tagIds: { $in: ["t1", "t2"] } } },
+          },
+        },
+      ]);
+    });
+
+    it("writes in batches while streaming the orphans", async () => {
+      const { writes, collection } = createCollection(
+        Array.from({ length: 1001 }, (_, index) => ({
+          _id: index,
+          orphans: ["u9"],
+        }))
+      );
+
+      const fix = await service["fixOrphans"](
+        collection as never,
+        createResult("editor_id", false),
+        [],
+        field("editorId"),
+        "delete"
+      );
+
+      expect(writes.map((operations) => operations.length)).toEqual([1000, 1]);
+      expect(fix).toEqual({ action: "delete", modifiedCount: 1001 });
+    });
+
+    it("does not null required references", async () => {
+      const { writes, collection } = createCollection([
+        { _id: 1, orphans: ["u9"] },
+      ]);
+
+      const fix = await service["fixOrphans"](
+        collection as never,
+        createResult("ownerId", false),
+        [],
+        field("ownerId"),
+        "setNull"
+      );
+
+      expect(fix).toEqual({ skipped: "ownerId is required" });
+      expect(writes).toEqual([]);
+    });
+  });
+});
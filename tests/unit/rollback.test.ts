@@ -0,0 +1,140 @@
+import { Document } from "mongodb";
+import { RollbackService } from "../../src/services/rollback.service";
+import { MigrationError } from "../../src/errors/migration.error";
+import {
+  BACKUP_COLLECTION_PREFIX,
+  RUNS_COLLECTION,
+} from "../../src/services/backfill.service";
+
+const run = {
+  _id: "20240315120000-9f3a",
+  startedAt: new Date("2024-03-15T12:00:00Z"),
+  updatedAt: new Date("2024-03-15T12:00:05Z"),
+  models: [
+    {
+      model: "User",
+      collection: "users",
+      fields: ["status", "score"],
+      matchedCount: 2,
+      modifiedCount: 2,
+    },
+  ],
+};
+
+const backups = [
+  { _id: { collection: "users", id: 1 }, values: { score: null } },
+  { _id: { collection: "users", id: 2 }, values: { status: "OLD" } },
+];
+
+describe("RollbackService", () => {
+  let service: RollbackService;
+  let bulkWrites: Document[][];
+  let runUpdates: Document[];
+
+  beforeEach(() => {
+    bulkWrites = [];
+    runUpdates = [];
+    const collections: { [name: string]: unknown } = {
+      [RUNS_COLLECTION]: {
+        findOne: async (filter: Document) =>
+          filter._id === run._id ? run : null,
+        updateOne: async (_filter: Document, update: Document) => {
+          runUpdates.push(update);
+        },
+      },
+      [`${BACKUP_COLLECTION_PREFIX}${run._id}`]: {
+        countDocuments: async () => backups.length,
+        find: () => backups,
+      },
+      users: {
+        bulkWrite: async (operations: Document[]) => {
+          bulkWrites.push(operations);
+          // The second document was deleted since the backfill
+          return { matchedCount: operations.length - 1 };
+        },
+      },
+    };
+
+    service = new RollbackService("mongodb://localhost:27017", "test");
+    service["client"] = {
+      connect: async () => undefined,
+      close: async () => undefined,
+      db: () => ({ collection: (name: string) => collections[name] }),
+    } as never;
+  });
+
+  it("sets backed-up values and unsets fields that did not exist", () => {
+    expect(
+      service["buildRestoreUpdate"](["status", "score"], { score: null })
+    ).toEqual({ $set: { score: null }, $unset: { status: "" } });
+    expect(
+      service["buildRestoreUpdate"](["status"], { status: "OLD" })
+    ).toEqual({ $set: { status: "OLD" } });
+    expect(service["buildRestoreUpdate"](["status"], {})).toEqual({
+      $unset: { status: "" },
+    });
+  });
+
+  it("restores every backed-up document still stored and marks the run", async () => {
+    const result = await service.rollback(run._id);
+
+    expect(result).toEqual({
+      runId: run._id,
+      collections: [{ model: "User", collection: "users", restoredCount: 1 }],
+    });
+    expect(bulkWrites).toEqual([
+      [
+        {
+          updateOne: {
+            filter: { _id: 1 },
+            update: { $set: { score: null }, $unset: { status: "" } },
+          },
+        },
+        {
+          updateOne: {
+            filter: { _id: 2 },
+            update: { $set: { status: "OLD" }, $unset: { score: "" } },
+          },
+        },
+      ],
+    ]);
+    expect(runUpdates).toEqual([{ $set: { rolledBackAt: expect.any(Date) } }]);
+  });
+
+  it("only counts backups on a dry run", async () => {
+    const result = await service.rollback(run._id, { dryRun: true });
+
+    expect(result.collections[0].restoredCount).toBe(2);
+    expect(bulkWrites).toEqual([]);
+    expect(runUpdates).toEqual([]);
+  });
+
+  it("refuses runs that were already rolled back unless forced", async () => {
+    const rolledBack = { ...run, rolledBackAt: new Date() };
+    service["client"] = {
+      connect: async () => undefined,
+      close: async () => undefined,
+      db: () => ({
+        collection: () => ({
+          findOne: async () => rolledBack,
+          updateOne: async () => undefined,
+          countDocuments: async () => backups.length,
+        }),
+      }),
+    } as never;
+
+    await expect(service.rollback(run._id)).rejects.toThrow(
+      "was already rolled back"
+    );
+    await expect(
+      service.rollback(run._id, { dryRun: true, force: true })
+    ).resolves.toEqual({
+      runId: run._id,
+      collections: [{ model: "User", collection: "users", restoredCount: 2 }],
+    });
+  });
+
+  it("refuses unknown runs", async () => {
+    await expect(service.rollback("missing")).rejects.toThrow(MigrationError);
+  });
+});
@@ -0,0 +1,126 @@
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { SchemaDiffService } from "../../src/services/schema-diff.service";
+
+/**
+ * Diffs two schema sources.
+ *
+ * @param from - Old schema source
+ * @param to - New schema source
+ * @returns The changes
+ */
+function diff(from: string, to: string) {
+  return new SchemaDiffService(
+    new PrismaSchemaParser(from).parse(),
+    new PrismaSchemaParser(to).parse()
+  ).diff("old", "new").changes;
+}
+
+describe("SchemaDiffService", () => {
+  it("returns no changes for identical schemas", () => {
+    const content = `model User {
+  id   String @id
+  name String
+}`;
+
+    expect(diff(content, content)).toEqual([]);
+  });
+
+  it("lists added, removed and changed fields", () => {
+    const changes = diff(
+      `model User {
+  id       String @id
+  name     String
+  age      Int
+  nickname String
+  legacy   String
+}`,
+      `model User {
+  id       String  @id
+  name     String  @map("full_name")
+  age      Float
+  nickname String?
+  status   String  @default("ACTIVE")
+}`
+    );
+
+    expect(changes).toEqual([
+      {
+        kind: "fieldRenamed",
+        model: "User",
+        field: "name",
+        from: "name",
+        to: "full_name",
+      },
+      {
+        kind: "fieldTypeChanged",
+        model: "User",
+        field: "age",
+        from: "Int",
+        to: "Float",
+      },
+      {
+        kind: "fieldOptionalityChanged",
+        model: "User",
+        field: "nickname",
+        isOptional: true,
+      },
+      {
+        kind: "fieldAdded",
+        model: "User",
+        field: "status",
+        type: "String",
+        isOptional: false,
+        defaultValue: "ACTIVE",
+      },
+      { kind: "fieldRemoved", model: "User", field: "legacy", type: "String" },
+    ]);
+  });
+
+  it("lists added and removed models and renamed collections", () => {
+    const changes = diff(
+      `model User {
+  id String @id
+}
+model Comment {
+  id String @id
+}`,
+      `model User {
+  id String @id
+
+  @@map("users")
+}
+model Post {
+  id String @id
+}`
+    );
+
+    expect(changes.map((change) => change.kind)).toEqual([
+      "collectionRenamed",
+      "modelAdded",
+      "modelRemoved",
+    ]);
+    expect(changes[0]).toMatchObject({ model: "User", to: "users" });
+  });
+
+  it("compares enum values as they are stored", () => {
+    const changes = diff(
+      `enum Role {
+  USER
+  ADMIN
+  GUEST
+}`,
+      `enum Role {
+  USER
+  ADMIN @map("admin")
+  OWNER
+}`
+    );
+
+    expect(changes).toEqual([
+      { kind: "enumValueAdded", enum: "Role", value: "admin" },
+      { kind: "enumValueAdded", enum: "Role", value: "OWNER" },
+      { kind: "enumValueRemoved", enum: "Role", value: "ADMIN" },
+      { kind: "enumValueRemoved", enum: "Role", value: "GUEST" },
+    ]);
+  });
+});
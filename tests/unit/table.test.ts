@@ -0,0 +1,30 @@
+import { Chalk } from "chalk";
+import { renderTable } from "../../src/utils/table";
+
+describe("renderTable", () => {
+  it("aligns columns under a rule", () => {
+    expect(
+      renderTable(
+        ["Field", "Documents"],
+        [
+          ["status", "150"],
+          ["address.city", "3"],
+        ]
+      )
+    ).toBe(
+      [
+        "Field         Documents",
+        "────────────  ─────────",
+        "status        150",
+        "address.city  3",
+      ].join("\n")
+    );
+  });
+
+  it("pads colored cells by their visible length", () => {
+    const red = new Chalk({ level: 1 }).red("xy");
+    const table = renderTable(["A", "B"], [[red, "1"]]);
+
+    expect(table.split("\n")[2]).toBe(`${red}  1`);
+  });
+});
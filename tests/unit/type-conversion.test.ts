@@ -0,0 +1,148 @@
+import { Document } from "mongodb";
+import { PrismaSchemaParser } from "../../src/parsers/prisma.parser";
+import { TypeConversionService } from "../../src/services/type-conversion.service";
+
+const schema = new PrismaSchemaParser(`enum Status {
+  ACTIVE
+  BANNED
+}
+model Item {
+  id       String   @id @default(auto()) @map("_id") @db.ObjectId
+  quantity Int
+  status   Status
+  tags     String[]
+  seenAt   DateTime
+  meta     Json
+}`).parse();
+const [item] = schema.models;
+const field = (name: string) => item.fields.find((f) => f.name === name)!;
+const service = new TypeConversionService(
+  "mongodb://localhost:27017",
+  "test",
+  schema
+);
+
+/**
+ * Creates a collection stand-in for a single field conversion.
+ *
+ * @param mismatched - Documents with a mismatched value
+ * @param failures - Documents whose value cannot be converted
+ * @returns The fake collection and the updates it received
+ */
+function fakeCollection(mismatched: number, failures: Document[]) {
+  const updates: Document[][] = [];
+  // Mismatched documents are counted first, then the failed ones
+  const counts = [mismatched, failures.length];
+  const collection = {
+    countDocuments: async () => counts.shift(),
+    aggregate: (pipeline: Document[]) => failures.slice(0, pipeline[1].$limit),
+    updateMany: async (...args: Document[]) => {
+      updates.push(args);
+      return { modifiedCount: mismatched - failures.length };
+    },
+  };
+  return { collection, updates };
+}
+
+describe("TypeConversionService", () => {
+  it("describes the expected type of each field", () => {
+    expect(service["formatExpectedType"](field("quantity"))).toBe("int");
+    expect(service["formatExpectedType"](field("status"))).toBe("enum Status");
+    expect(service["formatExpectedType"](field("tags"))).toBe("string[]");
+    expect(service["getExpectedType"](field("meta"))).toBeUndefined();
+  });
+
+  it("treats enum strings outside the enum as mismatches", () => {
+    expect(service["buildValueMismatch"](field("status"), "$status")).toEqual({
+      $or: [
+        { $ne: [{ $type: "$status" }, "string"] },
+        { $not: [{ $in: ["$status", ["ACTIVE", "BANNED"]] }] },
+      ],
+    });
+  });
+
+  it("converts ints to longs before dates", () => {
+    const conversion = service["buildScalarConversion"](
+      field("seenAt"),
+      "$seenAt"
+    );
+
+    expect(conversion.$convert).toMatchObject({
+      input: {
+        $cond: [
+          { $eq: [{ $type: "$seenAt" }, "int"] },
+          { $toLong: "$seenAt" },
+          "$seenAt",
+        ],
+      },
+      to: "date",
+      onNull: null,
+    });
+  });
+
+  it("wraps scalars stored in list fields in an array", () => {
+    const conversion = service["buildConversionExpression"](
+      field("tags"),
+      "$tags"
+    );
+
+    expect(conversion.$cond[0]).toEqual({ $isArray: "$tags" });
+    expect(conversion.$cond[2]).toHaveLength(1);
+  });
+
+  it("reports values that cannot be converted and converts the rest", async () => {
+    const { collection, updates } = fakeCollection(3, [
+      { _id: 1, value: "many" },
+    ]);
+
+    const result = await service["convertField"](
+      collection as never,
+      field("quantity"),
+      {}
+    );
+
+    expect(result).toEqual({
+      field: "quantity",
+      expectedType: "int",
+      mismatchedCount: 3,
+      convertedCount: 2,
+      failedCount: 1,
+      failures: [{ _id: 1, value: "many" }],
+    });
+    expect(updates).toHaveLength(1);
+  });
+
+  it("counts every failure but keeps only maxFailures of them", async () => {
+    const { collection } = fakeCollection(5, [
+      { _id: 1, value: "one" },
+      { _id: 2, value: "two" },
+      { _id: 3, value: "three" },
+    ]);
+
+    const result = await service["convertField"](
+      collection as never,
+      field("quantity"),
+      { maxFailures: 2 }
+    );
+
+    expect(result.failedCount).toBe(3);
+    expect(result.failures).toEqual([
+      { _id: 1, value: "one" },
+      { _id: 2, value: "two" },
+    ]);
+    expect(result.convertedCount).toBe(2);
+  });
+
+  it("only counts in a dry run", async () => {
+    const { collection, updates } = fakeCollection(2, []);
+
+    const result = await service["convertField"](
+      collection as never,
+      field("quantity"),
+      { dryRun: true }
+    );
+
+    expect(result.convertedCount).toBe(2);
+    expect(updates).toHaveLength(0);
+  });
+});